@@ -1,23 +1,90 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { WorkflowStep, PodcastContent } from './types';
-import { STEPS_CONFIG } from './constants';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { WorkflowStep, PodcastContent, ReviewReport, TrendingSnapshot, BatchJob, LogEntry, LogType, CastMember, EpisodeFormat, EpisodeLanguage, SynthesisPolicy, StepTimeouts, PromptRegistry, UsageRecord, UsageStats, ModelPrice, CacheSettings, MasteringSettings as MasteringSettingsType } from './types';
+import { STEPS_CONFIG, CAST_COLOR_CLASSES, PROMPT_DEFINITIONS } from './constants';
 import * as gemini from './services/geminiService';
+import * as pipeline from './services/pipeline';
+import { PipelineHooks } from './services/pipeline';
+import { CancelledError, OrchestratorEvent, StepTimeoutError, createOrchestrator, runWithinStep } from './services/orchestrator';
+import { PIPELINE_STEPS, downstreamOf, findResumeStep, isStepComplete } from './services/checkpoint';
+import { ReviewBlockedError, applyRewrites, countBySeverity, loadReviewSettings, scanScript } from './services/compliance';
+import ReviewReportPanel from './components/ReviewReportPanel';
+import ScriptEditor, { ScriptDiff } from './components/ScriptEditor';
+import { findActiveLine, timingIndexForLines } from './services/timing';
+import { loadCast, matchSpeaker, saveCast, validateCast } from './services/cast';
+import CastEditor from './components/CastEditor';
+import SynthesisSettings from './components/SynthesisSettings';
+import { loadSynthesisPolicy, saveSynthesisPolicy } from './services/synthesisPolicy';
+import StepTimeoutSettings from './components/StepTimeoutSettings';
+import { loadStepTimeouts, saveStepTimeouts } from './services/stepTimeouts';
+import PromptEditor from './components/PromptEditor';
+import { loadPromptRegistry, promptVersionLabel, savePromptRegistry } from './services/prompts';
+import UsagePanel from './components/UsagePanel';
+import ModelPriceSettings from './components/ModelPriceSettings';
+import ResponseCacheSettings from './components/ResponseCacheSettings';
+import { CacheContext, browserCacheStore, loadCacheSettings, openCacheContext, saveCacheSettings } from './services/responseCache';
+import { addToUsageStats, appendUsage, collectUsage, emptyUsageStats, loadModelPrices, loadUsageStats, saveModelPrices, saveUsageStats } from './services/usage';
+import MasteringSettings, { MasteringForm } from './components/MasteringSettings';
+import MaterialPoolView from './components/MaterialPoolView';
+import CitedText from './components/CitedText';
+import { citationStats, sourceId, stripCitations } from './services/citations';
+import FactCheckPanel from './components/FactCheckPanel';
+import { FactCheckPendingError, flaggedItems, flaggedLines, strikeLines } from './services/factCheck';
+import { loadMasteringSettings, saveMasteringSettings } from './services/mastering';
+import { deleteEpisode, loadEpisode, newEpisodeId, saveEpisode } from './services/episodeLibrary';
+import EpisodeLibrary from './components/EpisodeLibrary';
+import TrendingBoards from './components/TrendingBoards';
+import { loadTrending } from './services/trending';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import { createBriefing } from './services/briefing';
+import { parseSegmentHeading } from './services/scriptDiff';
+import FormatPicker from './components/FormatPicker';
+import { castForFormat, formatPreset, loadFormat, saveFormat, validateFormatCast } from './services/formats';
+import LanguageVariants, { VariantLanguagePicker } from './components/LanguageVariants';
+import FeedPublisher from './components/FeedPublisher';
+import ChapterNav from './components/ChapterNav';
+import { buildChapters, buildChaptersJson } from './services/chapters';
+import { buildSubtitleCues, toSrt, toWebVtt } from './services/subtitles';
+import { languagePreset, linkVariant, loadVariantLanguages, produceVariant, saveVariantLanguages } from './services/localization';
+import { BatchStoppedError, enqueueKeywords, loadBatchConcurrency, moveJob, nextRunnable, runBatchJob, saveBatchConcurrency } from './services/batchQueue';
+import { buildEpisodeTags, downloadBlob, encodeMp3, encodeWav, exportFileName } from './services/audioExport';
 
 const App: React.FC = () => {
   const [currentStep, setCurrentStep] = useState<WorkflowStep>(WorkflowStep.IDLE);
   const [keyword, setKeyword] = useState('');
   const [content, setContent] = useState<PodcastContent>({ keyword: '' });
   const [isPlaying, setIsPlaying] = useState(false);
-  const [activeTab, setActiveTab] = useState<'script' | 'process' | 'sources'>('script');
-  const [trending, setTrending] = useState<Record<string, string[]>>({ ths: [], xq: [], dfcf: [] });
+  const [activeTab, setActiveTab] = useState<'script' | 'factcheck' | 'review' | 'mastering' | 'process' | 'sources' | 'languages'>('script');
+  const [trending, setTrending] = useState<TrendingSnapshot | null>(null);
+  const [trendingLoading, setTrendingLoading] = useState(false);
   const [newsEvents, setNewsEvents] = useState<{title: string, summary: string}[]>([]);
-  const [executionLogs, setExecutionLogs] = useState<{msg: string, type: 'info' | 'success' | 'working' | 'error'}[]>([]);
+  const [executionLogs, setExecutionLogs] = useState<LogEntry[]>([]);
   const [synthesisProgress, setSynthesisProgress] = useState({ current: 0, total: 0 });
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [time, setTime] = useState(new Date());
   const [errorOccurred, setErrorOccurred] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [briefingLoading, setBriefingLoading] = useState(false);
+  const [staleSteps, setStaleSteps] = useState<WorkflowStep[]>([]);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [cast, setCast] = useState<CastMember[]>(loadCast);
+  const [format, setFormat] = useState<EpisodeFormat>(loadFormat);
+  const [variantLanguages, setVariantLanguages] = useState<EpisodeLanguage[]>(loadVariantLanguages);
+  const [synthesisPolicy, setSynthesisPolicy] = useState<SynthesisPolicy>(loadSynthesisPolicy);
+  const [stepTimeouts, setStepTimeouts] = useState<StepTimeouts>(loadStepTimeouts);
+  const [promptRegistry, setPromptRegistry] = useState<PromptRegistry>(loadPromptRegistry);
+  const [modelPrices, setModelPrices] = useState<ModelPrice[]>(loadModelPrices);
+  const [usageStats, setUsageStats] = useState<UsageStats>(loadUsageStats);
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(loadCacheSettings);
+  const [masteringDefaults, setMasteringDefaults] = useState<MasteringSettingsType>(loadMasteringSettings);
+  // 成片页尚未应用的母带设置：只有重新处理后才写入节目，保证已保存的设置与音频一致
+  const [masteringDraft, setMasteringDraft] = useState<MasteringSettingsType | null>(null);
+  const [scriptView, setScriptView] = useState<'read' | 'edit' | 'diff'>('read');
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(loadBatchConcurrency);
+  const [batchPaused, setBatchPaused] = useState(false);
+  const [exporting, setExporting] = useState<{ format: 'wav' | 'mp3'; progress: number } | null>(null);
 
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -25,10 +92,36 @@ const App: React.FC = () => {
   const offsetRef = useRef<number>(0);
   const rafIdRef = useRef<number>(0);
   const logEndRef = useRef<HTMLDivElement>(null);
+  const chunkCacheRef = useRef(new Map<string, Float32Array>());
+  const draftRef = useRef<PodcastContent>({ keyword: '' });
+  const batchDraftsRef = useRef(new Map<string, PodcastContent>());
+  const batchStopRef = useRef(new Map<string, 'pause' | 'cancel'>());
+  const batchAbortRef = useRef(new Map<string, AbortController>());
+  const batchActiveRef = useRef(new Set<string>());
+  const scriptLineRefs = useRef<Record<number, HTMLDivElement | null>>({});
+  const orchestratorRef = useRef(createOrchestrator());
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * 读取热榜；force 时跳过缓存强制刷新
+   */
+  const refreshTrending = async (force = false) => {
+    setTrendingLoading(true);
+    try {
+      // 热榜不属于节目生产，只在缓存模式下复用响应，不参与录制与回放
+      setTrending(await loadTrending(force, { cache: cacheSettings.mode === 'cache' ? await responseCache() : undefined }));
+    } catch (e) {
+      // 响应缓存打不开时不经缓存读取，仍按兜底与过期规则给出榜单
+      console.warn('响应缓存不可用', e);
+      setTrending(await loadTrending(force));
+    } finally {
+      setTrendingLoading(false);
+    }
+  };
 
   useEffect(() => {
-    gemini.fetchTrendingTopics().then(setTrending);
-    gemini.fetchFinancialEvents().then(setNewsEvents);
+    refreshTrending();
+    gemini.fetchFinancialEvents({ onUsage: recordUsage }).then(setNewsEvents);
     const timer = setInterval(() => setTime(new Date()), 1000);
     return () => clearInterval(timer);
   }, []);
@@ -37,70 +130,735 @@ const App: React.FC = () => {
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [executionLogs]);
 
-  const addLog = (msg: string, type: 'info' | 'success' | 'working' | 'error' = 'info') => {
+  useEffect(() => setMasteringDraft(null), [content.id, content.mastering]);
+
+  const activeLine = content.timingMap ? findActiveLine(content.timingMap, currentTime) : -1;
+  const lineTimingIndex = useMemo(() => timingIndexForLines(content.finalScript || '', content.cast), [content.finalScript, content.cast]);
+  const citations = useMemo(() => citationStats(content.finalScript || '', content.groundingLinks?.length || 0), [content.finalScript, content.groundingLinks]);
+  const chapters = useMemo(() => buildChapters(content), [content.timingMap, content.audioBuffer, content.outline, content.finalScript, content.cast]);
+
+  const updateCast = (next: CastMember[]) => {
+    setCast(next);
+    saveCast(next);
+  };
+
+  /**
+   * 切换节目形态；当前阵容不满足形态的说话人布局时套用推荐阵容
+   */
+  const updateFormat = (next: EpisodeFormat) => {
+    setFormat(next);
+    saveFormat(next);
+    const nextCast = castForFormat(formatPreset(next), cast);
+    if (nextCast !== cast) updateCast(nextCast);
+  };
+
+  const updateVariantLanguages = (next: EpisodeLanguage[]) => {
+    setVariantLanguages(next);
+    saveVariantLanguages(next);
+  };
+
+  const updateSynthesisPolicy = (next: SynthesisPolicy) => {
+    setSynthesisPolicy(next);
+    saveSynthesisPolicy(next);
+  };
+
+  const updateStepTimeouts = (next: StepTimeouts) => {
+    setStepTimeouts(next);
+    saveStepTimeouts(next);
+  };
+
+  const updatePromptRegistry = (next: PromptRegistry) => {
+    setPromptRegistry(next);
+    savePromptRegistry(next);
+  };
+
+  const updateModelPrices = (next: ModelPrice[]) => {
+    setModelPrices(next);
+    saveModelPrices(next);
+  };
+
+  const updateCacheSettings = (next: CacheSettings) => {
+    setCacheSettings(next);
+    saveCacheSettings(next);
+  };
+
+  /** 按当前设置打开本次生产的响应缓存；回放模式下没有录制时抛错 */
+  const responseCache = () => openCacheContext(cacheSettings, browserCacheStore);
+
+  /**
+   * 将一次模型调用计入累计用量（批量任务并发上报，按函数式更新合并）
+   */
+  const recordUsage = (record: UsageRecord, episodeId?: string) => setUsageStats(prev => {
+    const next = addToUsageStats(prev, record, episodeId);
+    saveUsageStats(next);
+    return next;
+  });
+
+  const resetUsageStats = () => {
+    const next = emptyUsageStats();
+    setUsageStats(next);
+    saveUsageStats(next);
+  };
+
+  const updateMasteringDefaults = (next: MasteringSettingsType) => {
+    setMasteringDefaults(next);
+    saveMasteringSettings(next);
+  };
+
+  const silencedChunks = content.audioChunks?.filter(c => c.status === 'silenced').length || 0;
+
+  useEffect(() => {
+    if (isPlaying && activeLine >= 0) {
+      scriptLineRefs.current[activeLine]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [activeLine, isPlaying]);
+
+  const addLog = (msg: string, type: LogType = 'info') => {
     setExecutionLogs(prev => [...prev, { msg, type }]);
   };
 
+  const commitContent = (next: PodcastContent) => {
+    draftRef.current = next;
+    setContent(next);
+    return next;
+  };
+
+  const synthesisOptions = (episode?: PodcastContent): gemini.SynthesisOptions => ({
+    onProgress: (c, t) => setSynthesisProgress({ current: c, total: t }),
+    onEvent: event => {
+      const entry = pipeline.synthesisEventLog(event);
+      addLog(entry.msg, entry.type);
+    },
+    chunkCache: chunkCacheRef.current,
+    cast: episode?.cast,
+    policy: synthesisPolicy,
+    chunkMaxChars: episode && formatPreset(episode.format).chunkMaxChars
+  });
+
+  const pipelineHooks = (): PipelineHooks => ({
+    log: addLog,
+    commit: commitContent,
+    audioContext: audioContextRef.current!,
+    synthesis: synthesisOptions()
+  });
+
+  /**
+   * 成片发生变化时重置播放器
+   */
+  const syncPlayer = (before: PodcastContent, after: PodcastContent) => {
+    if (after.audioBuffer && after.audioBuffer !== before.audioBuffer) {
+      resetPlayback();
+      setDuration(after.audioBuffer.duration);
+    }
+    return after;
+  };
+
+  const masterContent = async (draft: PodcastContent) => syncPlayer(draft, await pipeline.masterContent(draft, pipelineHooks()));
+
+  /**
+   * 订阅生产编排事件，映射到界面状态
+   */
+  useEffect(() => orchestratorRef.current.subscribe((event: OrchestratorEvent) => {
+    switch (event.type) {
+      case 'step': setCurrentStep(event.step); break;
+      case 'log': addLog(event.entry.msg, event.entry.type); break;
+      case 'progress': setSynthesisProgress({ current: event.current, total: event.total }); break;
+      case 'commit': commitContent(syncPlayer(draftRef.current, event.draft)); break;
+      case 'stale': setStaleSteps(event.steps); break;
+      case 'usage': recordUsage(event.record, draftRef.current.id); break;
+    }
+  }), []);
+
+  const resetPlayback = () => {
+    audioSourceRef.current?.stop();
+    cancelAnimationFrame(rafIdRef.current);
+    offsetRef.current = 0;
+    setIsPlaying(false);
+    setCurrentTime(0);
+  };
+
+  /**
+   * 从 from 步骤开始执行生产链路：已完成的检查点会被跳过，
+   * only 为 true 时仅重跑该单一步骤，下游已有产出标记为过期
+   */
+  const runPipeline = async (base: PodcastContent, from: WorkflowStep, only = false) => {
+    setErrorOccurred(false);
+    setIsRunning(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let discard = false;
+
+    try {
+      if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
+      const { pending, stale } = await orchestratorRef.current.run(base, {
+        from,
+        only,
+        stale: staleSteps,
+        audioContext: audioContextRef.current,
+        synthesis: { chunkCache: chunkCacheRef.current, policy: synthesisPolicy },
+        signal: controller.signal,
+        timeouts: stepTimeouts,
+        cache: await responseCache()
+      });
+
+      if (pending) {
+        setCurrentStep(pending);
+        addLog(`单步重跑完成，可从「${STEPS_CONFIG.find(s => s.step === pending)?.label}」继续生产。`, "info");
+      } else {
+        setCurrentStep(WorkflowStep.COMPLETED);
+        if (stale.length > 0) addLog(`步骤已更新，下游 ${stale.length} 个步骤基于旧产出，可按需刷新。`, "info");
+        else addLog("音频全链路生产圆满完成！", "success");
+      }
+    } catch (e: any) {
+      const resume = findResumeStep(draftRef.current);
+      if (e instanceof CancelledError) {
+        // 尚无任何步骤完成时回到首页且不入库；否则停在最近的检查点，可继续生产
+        if (resume === PIPELINE_STEPS[0]) {
+          discard = true;
+          addLog(`${e.message}尚无已完成的步骤，已返回首页。`, "info");
+          setCurrentStep(WorkflowStep.IDLE);
+        } else {
+          addLog(`${e.message}已完成步骤的产出均已保存，可从「${STEPS_CONFIG.find(s => s.step === resume)?.label}」继续。`, "info");
+          setCurrentStep(resume ?? WorkflowStep.COMPLETED);
+        }
+        return;
+      }
+      if (e instanceof StepTimeoutError) {
+        addLog(`${e.message}可调整步骤时限后从该步骤继续生产。`, "error");
+        if (resume) setCurrentStep(resume);
+      } else if (e instanceof ReviewBlockedError) {
+        addLog(`${e.message}请查看合规报告，重新审校或人工放行。`, "error");
+      } else if (e instanceof FactCheckPendingError) {
+        addLog(`${e.message}请在核查报告中改写、删除或确认后继续。`, "error");
+      } else {
+        console.error(e);
+        const errMsg = e.message || "未知错误";
+        addLog(`生成中断: ${errMsg}`, "error");
+      }
+      setErrorOccurred(true);
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+      if (!discard) persistEpisode(draftRef.current);
+    }
+  };
+
+  /**
+   * 取消进行中的生产：中止在途的模型调用，由 runPipeline 回到首页或最近的检查点
+   */
+  const cancelRun = () => {
+    if (!abortRef.current || abortRef.current.signal.aborted) return;
+    addLog("正在取消生产，中止进行中的模型调用...", "working");
+    abortRef.current.abort(new CancelledError());
+  };
+
+  /**
+   * 链路之外的单步操作（人工改写、局部重合成）：同样可取消，并受所属步骤的时限约束
+   */
+  const runManualStep = async <T,>(step: WorkflowStep, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      return await runWithinStep(step, { signal: controller.signal, timeouts: stepTimeouts }, task);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const logManualStepError = (action: string, e: any) => {
+    if (e instanceof CancelledError) {
+      addLog(`${action}已取消。`, "info");
+      return;
+    }
+    console.error(e);
+    addLog(`${action}失败: ${e.message || "未知错误"}`, "error");
+  };
+
+  const persistEpisode = (episode: PodcastContent) => {
+    if (!episode.id) return;
+    saveEpisode({ ...episode, id: episode.id })
+      .then(() => setLibraryVersion(v => v + 1))
+      .catch(e => {
+        console.warn(e);
+        addLog(`节目库保存失败: ${e.message || "未知错误"}`, "error");
+      });
+  };
+
+  /**
+   * 为已完成的节目依次生成语言版本并存入节目库，返回登记了各版本的原版；
+   * 单个语言失败只记录日志，不影响其他语言
+   */
+  const produceVariants = async (original: PodcastContent, languages: EpisodeLanguage[], log: (msg: string, type?: LogType) => void, signal?: AbortSignal) => {
+    let source = original;
+    for (const language of languages) {
+      try {
+        const variant = await produceVariant(source, language, {
+          log,
+          commit: next => next,
+          audioContext: audioContextRef.current!,
+          synthesis: {
+            onEvent: event => {
+              const entry = pipeline.synthesisEventLog(event);
+              log(entry.msg, entry.type);
+            },
+            chunkCache: new Map(),
+            policy: synthesisPolicy
+          },
+          signal,
+          onUsage: record => recordUsage(record, original.id),
+          cache: await responseCache()
+        });
+        await saveEpisode({ ...variant, id: variant.id! });
+        source = linkVariant(source, variant);
+      } catch (e: any) {
+        if (signal?.aborted) {
+          log(`「${languagePreset(language).label}」版本已取消生成。`, "info");
+          break;
+        }
+        console.error(e);
+        log(`「${languagePreset(language).label}」版本生成失败：${e.message || "未知错误"}`, "error");
+      }
+    }
+    return source;
+  };
+
+  /**
+   * 当前节目的语言版本：原版须已跑完全部步骤
+   */
+  const publishVariants = async (languages: EpisodeLanguage[]) => {
+    const original = draftRef.current;
+    if (languages.length === 0 || !original.id || original.variantOf || findResumeStep(original)) return;
+    setIsRunning(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const linked = await produceVariants(original, languages, addLog, controller.signal);
+      persistEpisode(commitContent({ ...draftRef.current, variants: linked.variants }));
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const openEpisode = async (id: string) => {
+    if (isRunning) return;
+    try {
+      if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
+      const episode = await loadEpisode(id, audioContextRef.current);
+      if (!episode) return;
+      resetPlayback();
+      chunkCacheRef.current = new Map();
+      setStaleSteps([]);
+      setErrorOccurred(false);
+      setKeyword(episode.keyword);
+      commitContent(episode);
+      setDuration(episode.audioBuffer?.duration || 0);
+      setExecutionLogs([{ msg: `已从节目库载入「${episode.title || episode.keyword}」。`, type: 'info' }]);
+      setCurrentStep(findResumeStep(episode) ?? WorkflowStep.COMPLETED);
+    } catch (e: any) {
+      console.error(e);
+      addLog(`节目载入失败: ${e.message || "未知错误"}`, "error");
+    }
+  };
+
+  const backToHome = () => {
+    if (isRunning) return;
+    resetPlayback();
+    setCurrentStep(WorkflowStep.IDLE);
+  };
+
   const startWorkflow = async (target?: string) => {
     const k = target || keyword;
-    if (!k) return;
+    if (!k || isRunning) return;
+    const castError = validateCast(cast);
+    if (castError) {
+      window.alert(castError);
+      return;
+    }
+    const formatError = validateFormatCast(formatPreset(format), cast);
+    if (formatError) {
+      window.alert(formatError);
+      return;
+    }
     setKeyword(k);
-    setErrorOccurred(false);
-    setCurrentStep(WorkflowStep.RESEARCH);
-    setContent({ keyword: k });
-    setExecutionLogs([{ msg: `启动 "${k}" 深度生产链路...`, type: 'info' }]);
+    resetPlayback();
+    chunkCacheRef.current = new Map();
+    setStaleSteps([]);
+    setExecutionLogs([{ msg: `启动 "${k}" 深度生产链路（${formatPreset(format).label}）...`, type: 'info' }]);
+    await runPipeline({ id: newEpisodeId(), keyword: k, createdAt: new Date().toISOString(), cast, format, mastering: masteringDefaults }, WorkflowStep.RESEARCH);
+    await publishVariants(variantLanguages);
+  };
+
+  /**
+   * 早报模式：以当日财经要闻为段落，生产一期含开场、分条解读与收尾回顾的节目
+   */
+  const startBriefing = async () => {
+    if (isRunning || briefingLoading) return;
+    const castError = validateCast(cast);
+    if (castError) {
+      window.alert(castError);
+      return;
+    }
+    setBriefingLoading(true);
+    let events: { title: string; summary: string }[];
+    let cache: CacheContext | undefined;
+    try {
+      cache = await responseCache();
+      events = await gemini.fetchFinancialEvents({ count: 5, fallback: false, onUsage: recordUsage, cache });
+    } catch (e: any) {
+      window.alert(`获取今日要闻失败：${e.message || '未知错误'}`);
+      return;
+    } finally {
+      setBriefingLoading(false);
+    }
+    const draft = createBriefing(events, { id: newEpisodeId(), createdAt: new Date().toISOString(), cast, mastering: masteringDefaults }, cache?.date);
+    setKeyword(draft.keyword);
+    resetPlayback();
+    chunkCacheRef.current = new Map();
+    setStaleSteps([]);
+    setExecutionLogs([{ msg: `启动「${draft.keyword}」早报生产链路，共 ${events.length} 条要闻...`, type: 'info' }]);
+    await runPipeline(draft, WorkflowStep.RESEARCH);
+    await publishVariants(variantLanguages);
+  };
+
+  const updateJob = (id: string, patch: Partial<BatchJob> | ((job: BatchJob) => Partial<BatchJob>)) => {
+    setBatchJobs(prev => prev.map(j => j.id === id ? { ...j, ...(typeof patch === 'function' ? patch(j) : patch) } : j));
+  };
+
+  /**
+   * 加入批量队列：阵容与母带设置在入队时快照，与单期生产一致
+   */
+  const enqueueBatch = (keywords: string[]) => {
+    const castError = validateCast(cast) || validateFormatCast(formatPreset(format), cast);
+    if (castError) {
+      window.alert(castError);
+      return { added: [], skipped: [] };
+    }
+    const result = enqueueKeywords(batchJobs, keywords);
+    const created = result.jobs.slice(batchJobs.length);
+    created.forEach(job => batchDraftsRef.current.set(job.id, {
+      id: job.episodeId, keyword: job.keyword, createdAt: job.enqueuedAt, cast, format, mastering: masteringDefaults
+    }));
+    setBatchJobs(prev => [...prev, ...created]);
+    return { added: result.added, skipped: result.skipped };
+  };
+
+  /**
+   * 批量任务在后台独立执行，不占用当前生产界面；每个任务产出一期独立节目
+   */
+  const runBatch = async (job: BatchJob) => {
+    batchActiveRef.current.add(job.id);
+    updateJob(job.id, { status: 'running', stopRequested: undefined, error: undefined });
+    const log = (msg: string, type: LogType = 'info') => updateJob(job.id, j => ({ logs: [...j.logs, { msg, type }] }));
+    const total = PIPELINE_STEPS.length;
+    let stepIndex = 0;
+    let draft = batchDraftsRef.current.get(job.id)!;
+    let outcome: BatchJob['status'] = 'failed';
+    const controller = new AbortController();
+    batchAbortRef.current.set(job.id, controller);
 
     try {
       if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
-      
-      // Step 1: Research with Deep Dive
-      addLog("正在穿透搜索各大平台音视频摘要与机构研报...", "working");
-      const res = await gemini.collectMaterials(k, (msg) => addLog(msg, "working"));
-      setContent(prev => ({ 
-        ...prev, 
-        materials: res.materialJson, 
-        groundingLinks: res.links 
-      }));
-      addLog(`多模态素材搜集完成，识别到 ${res.links.length} 个数据源。`, "success");
-
-      // Step 2: Insights
-      setCurrentStep(WorkflowStep.INSIGHTS);
-      addLog("正在进行反常识洞察提取与金句逻辑设计...", "working");
-      const meta = await gemini.generateHighlightsAndHooks(k, res.materialJson);
-      setContent(prev => ({ ...prev, hooks: meta.hooks, highlights: meta.highlights }));
-      addLog("爆点设计完成。", "success");
-
-      // Step 3: Outline
-      setCurrentStep(WorkflowStep.OUTLINE);
-      addLog("构建逻辑因果链大纲...", "working");
-      const outline = await gemini.generateOutline(k, res.materialJson);
-      const title = await gemini.generateEpisodeTitle(k, meta.hooks || []);
-      setContent(prev => ({ ...prev, outline, title }));
-      addLog(`标题定稿：${title}`, "success");
-
-      // Step 4: Drafting
-      setCurrentStep(WorkflowStep.DRAFTING);
-      addLog("正在撰写长时深度对话脚本（预计 2000+ 字）...", "working");
-      const script = await gemini.generateScript(k, res.materialJson, outline);
-      setContent(prev => ({ ...prev, finalScript: script }));
-      addLog("对话脚本撰写完成。", "success");
-
-      // Step 5: Synthesis
-      setCurrentStep(WorkflowStep.SYNTHESIS);
-      addLog("正在合成高清多角色音频播客...", "working");
-      const buffer = await gemini.synthesizePodcast(script, audioContextRef.current, (c, t) => {
-        setSynthesisProgress({ current: c, total: t });
+      log(draft.materials ? `从检查点继续生产 "${job.keyword}"...` : `启动 "${job.keyword}" 深度生产链路...`);
+      draft = await runBatchJob(draft, {
+        audioContext: audioContextRef.current,
+        synthesis: { chunkCache: new Map(), policy: synthesisPolicy },
+        signal: controller.signal,
+        timeouts: stepTimeouts,
+        cache: await responseCache()
+      }, event => {
+        switch (event.type) {
+          case 'step':
+            stepIndex = event.index;
+            updateJob(job.id, { step: event.step, progress: event.index / total });
+            break;
+          case 'log': log(event.entry.msg, event.entry.type); break;
+          case 'progress': updateJob(job.id, { progress: (stepIndex + event.current / event.total) / total }); break;
+          case 'commit':
+            draft = event.draft;
+            batchDraftsRef.current.set(job.id, event.draft);
+            break;
+          case 'usage': recordUsage(event.record, job.episodeId); break;
+        }
       });
-      setDuration(buffer.duration);
-      setContent(prev => ({ ...prev, audioBuffer: buffer }));
-      addLog("音频全链路生产圆满完成！", "success");
-      setCurrentStep(WorkflowStep.COMPLETED);
+      if (variantLanguages.length > 0) draft = await produceVariants(draft, variantLanguages, log, controller.signal);
+      if (controller.signal.aborted) throw controller.signal.reason;
+      outcome = 'done';
+      log("节目生产完成，已存入节目库。", "success");
+      updateJob(job.id, { status: 'done', progress: 1 });
+    } catch (e: any) {
+      if (e instanceof BatchStoppedError) {
+        // 暂停后又取消时以最后一次请求为准
+        outcome = (batchStopRef.current.get(job.id) || e.reason) === 'pause' ? 'paused' : 'cancelled';
+        log(e.message, "info");
+      } else if (e instanceof ReviewBlockedError || e instanceof FactCheckPendingError) {
+        outcome = 'blocked';
+        log(`${e.message}请打开节目处理后继续。`, "error");
+      } else {
+        console.error(e);
+        log(`生成中断: ${e.message || "未知错误"}`, "error");
+      }
+      updateJob(job.id, { status: outcome, error: outcome === 'failed' || outcome === 'blocked' ? e.message || "未知错误" : undefined });
+    } finally {
+      batchActiveRef.current.delete(job.id);
+      batchStopRef.current.delete(job.id);
+      batchAbortRef.current.delete(job.id);
+      updateJob(job.id, { stopRequested: undefined });
+      if (outcome === 'done') batchDraftsRef.current.delete(job.id);
+      // 取消的任务不入库；其余结果（含中途暂停、阻断、失败）保存进度以便在节目库中继续
+      if (outcome === 'cancelled') {
+        discardBatchEpisode(job);
+      } else {
+        saveEpisode({ ...draft, id: job.episodeId })
+          .then(() => setLibraryVersion(v => v + 1))
+          .catch(e => {
+            console.warn(e);
+            log(`节目库保存失败: ${e.message || "未知错误"}`, "error");
+          });
+      }
+    }
+  };
 
+  /**
+   * 取消的任务不留在节目库：一并删除此前暂停或失败时保存的进度
+   */
+  const discardBatchEpisode = (job: BatchJob) => {
+    batchDraftsRef.current.delete(job.id);
+    deleteEpisode(job.episodeId)
+      .then(() => setLibraryVersion(v => v + 1))
+      .catch(e => console.warn('节目库删除失败', e));
+  };
+
+  /**
+   * 继续任务：待处理的任务需在编辑器中处理阻断项，重跑只会再次被阻断，因此改为打开节目
+   */
+  const resumeBatchJob = (job: BatchJob) => {
+    if (job.status === 'blocked') {
+      openEpisode(job.episodeId);
+      return;
+    }
+    updateJob(job.id, { status: 'queued' });
+  };
+
+  /**
+   * 暂停或取消任务：运行中的任务中止进行中的调用，暂停后从最近的检查点继续
+   */
+  const stopBatchJob = (job: BatchJob, reason: 'pause' | 'cancel') => {
+    if (job.status === 'running') {
+      batchStopRef.current.set(job.id, reason);
+      batchAbortRef.current.get(job.id)?.abort(new BatchStoppedError(reason));
+      updateJob(job.id, { stopRequested: reason });
+    } else {
+      if (reason === 'cancel') discardBatchEpisode(job);
+      updateJob(job.id, { status: reason === 'pause' ? 'paused' : 'cancelled' });
+    }
+  };
+
+  const updateBatchConcurrency = (next: number) => {
+    setBatchConcurrency(next);
+    saveBatchConcurrency(next);
+  };
+
+  useEffect(() => {
+    if (batchPaused) return;
+    nextRunnable(batchJobs, batchConcurrency)
+      .filter(job => !batchActiveRef.current.has(job.id))
+      .forEach(job => { runBatch(job); });
+  }, [batchJobs, batchConcurrency, batchPaused]);
+
+  const resumeWorkflow = async (base: PodcastContent = content) => {
+    if (isRunning) return;
+    const from = PIPELINE_STEPS.find(s => !isStepComplete(s, base) || staleSteps.includes(s));
+    if (!from) return;
+    addLog(`从「${STEPS_CONFIG.find(s => s.step === from)?.label}」检查点继续生产...`, "info");
+    await runPipeline(base, from);
+  };
+
+  const saveScriptEdits = async (script: string, resynthesize: boolean) => {
+    if (isRunning) return;
+    const settings = loadReviewSettings();
+    const findings = scanScript(script, settings.rules);
+    const hardViolations = countBySeverity(findings, 'hard');
+    const reviewReport: ReviewReport = {
+      initialFindings: 0,
+      rewrites: [],
+      ...content.reviewReport,
+      reviewedAt: new Date().toISOString(),
+      findings,
+      hardViolations,
+      softViolations: countBySeverity(findings, 'soft'),
+      blocked: settings.blockOnHardViolations && hardViolations > 0,
+      overridden: false
+    };
+    let next = commitContent({ ...content, finalScript: script, reviewReport });
+    if (next.factCheck && !staleSteps.includes(WorkflowStep.FACT_CHECK)) {
+      setStaleSteps(prev => [...prev, WorkflowStep.FACT_CHECK]);
+      addLog("事实核查基于修改前的脚本，可按需重新核查。", "info");
+    }
+    setScriptView('read');
+    addLog(`脚本修改已保存，合规复检：硬性违规 ${hardViolations} 处、提示 ${reviewReport.softViolations} 处。`, "success");
+
+    if (!resynthesize) {
+      if (next.audioBuffer && !staleSteps.includes(WorkflowStep.SYNTHESIS)) {
+        setStaleSteps(prev => [...prev, WorkflowStep.SYNTHESIS]);
+        addLog("音频尚未同步本次脚本修改，可稍后刷新合成。", "info");
+      }
+    } else if (reviewReport.blocked) {
+      addLog("修改后的脚本存在硬性违规，已阻断重合成，请在合规报告中处理。", "error");
+    } else {
+      setIsRunning(true);
+      try {
+        if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
+        addLog("正在局部重合成受影响的音频分段...", "working");
+        const voice = next.voiceTrack?.buffer || next.audioBuffer;
+        const usage = collectUsage(WorkflowStep.SYNTHESIS, record => recordUsage(record, next.id));
+        const ctx = audioContextRef.current;
+        const result = await runManualStep(WorkflowStep.SYNTHESIS, async signal => {
+          const options = { ...synthesisOptions(next), onUsage: usage.onUsage, signal };
+          return voice && next.audioChunks
+            ? await gemini.resynthesizeEdited(script, { audioBuffer: voice, chunks: next.audioChunks }, ctx, options)
+            : { ...(await gemini.synthesizePodcast(script, ctx, options)), resynthesized: undefined };
+        });
+        resetPlayback();
+        setDuration(result.audioBuffer.duration);
+        next = commitContent(appendUsage(pipeline.withVoiceTrack(next, result), usage.records));
+        next = commitContent(await masterContent(next));
+        setStaleSteps(prev => prev.filter(s => s !== WorkflowStep.SYNTHESIS));
+        addLog(result.resynthesized !== undefined
+          ? `局部重合成完成：重新合成 ${result.resynthesized} / ${result.chunks.length} 个分段。`
+          : `音频已按新脚本完整合成（${result.chunks.length} 个分段）。`, "success");
+      } catch (e: any) {
+        logManualStepError("重合成", e);
+        // 音频仍是修改前的版本，标记为过期以便稍后刷新
+        if (next.audioBuffer) setStaleSteps(prev => prev.includes(WorkflowStep.SYNTHESIS) ? prev : [...prev, WorkflowStep.SYNTHESIS]);
+      } finally {
+        setIsRunning(false);
+      }
+    }
+    persistEpisode(next);
+  };
+
+  /**
+   * 处理事实核查的存疑项：按素材改写后复核、删除台词或人工确认；全部处理后继续生产
+   */
+  const resolveFactCheck = async (action: 'rewrite' | 'strike' | 'accept', lines?: number[]) => {
+    const report = content.factCheck;
+    if (!report || isRunning) return;
+    const script = content.finalScript || '';
+    let next: PodcastContent;
+
+    if (action === 'accept') {
+      addLog(`人工确认 ${flaggedItems(report).length} 处存疑事实。`, "info");
+      next = commitContent({ ...content, factCheck: { ...report, resolved: true, accepted: true } });
+    } else if (action === 'strike') {
+      const result = strikeLines(script, report, lines || flaggedLines(report));
+      addLog(`已删除 ${result.report.struck.length - report.struck.length} 行存疑台词。`, "info");
+      next = commitContent({ ...content, finalScript: result.script, factCheck: result.report });
+    } else {
+      setIsRunning(true);
+      try {
+        addLog("正在按素材改写事实存疑的台词...", "working");
+        const usage = collectUsage(WorkflowStep.FACT_CHECK, record => recordUsage(record, content.id));
+        const { rewrites, rewritten, rechecked } = await runManualStep(WorkflowStep.FACT_CHECK, async signal => {
+          const rewrites = await gemini.rewriteUnsupportedFacts(content.keyword, script, report.items, { signal, onUsage: usage.onUsage });
+          const rewritten = applyRewrites(script, rewrites);
+          return { rewrites, rewritten, rechecked: await pipeline.runFactCheck(content, rewritten, report, { signal, onUsage: usage.onUsage }) };
+        });
+        const before = script.split('\n');
+        rechecked.rewrites = [...report.rewrites, ...rewrites.map(r => ({ line: r.line, before: before[r.line], after: rewritten.split('\n')[r.line] }))];
+        addLog(`改写 ${rewrites.length} 行并复核，剩余存疑 ${flaggedItems(rechecked).length} 处。`, "success");
+        next = commitContent(appendUsage({ ...content, finalScript: rewritten, factCheck: rechecked }, usage.records));
+      } catch (e: any) {
+        logManualStepError("改写", e);
+        return;
+      } finally {
+        setIsRunning(false);
+      }
+    }
+
+    // 单步重跑核查时下游已有产出，脚本变化后标记为过期，由用户决定何时刷新
+    const outdated = action === 'accept' ? [] : downstreamOf(WorkflowStep.FACT_CHECK).filter(s => isStepComplete(s, next));
+    if (next.factCheck!.resolved && outdated.length === 0) {
+      await resumeWorkflow(next);
+      return;
+    }
+    if (outdated.length > 0) {
+      setStaleSteps(prev => PIPELINE_STEPS.filter(s => prev.includes(s) || outdated.includes(s)));
+      addLog("脚本已更新，合规审校与音频基于修改前的脚本，可按需刷新。", "info");
+    }
+    persistEpisode(next);
+  };
+
+  const overrideReview = async () => {
+    if (!content.reviewReport) return;
+    addLog(`人工确认放行 ${content.reviewReport.hardViolations} 处硬性违规。`, "info");
+    await resumeWorkflow({ ...content, reviewReport: { ...content.reviewReport, blocked: false, overridden: true } });
+  };
+
+  /**
+   * 以修改后的母带设置重新处理成片，人声轨保持不变
+   */
+  const remaster = async (mastering: MasteringSettingsType) => {
+    if (isRunning || !content.audioBuffer) return;
+    await runPipeline({ ...content, mastering }, WorkflowStep.MASTERING, true);
+  };
+
+  const rerunStep = async (step: WorkflowStep) => {
+    if (isRunning) return;
+    addLog(`单独重跑「${STEPS_CONFIG.find(s => s.step === step)?.label}」，保留其余步骤产出...`, "info");
+    await runPipeline(content, step, true);
+  };
+
+  const playFrom = (offset: number) => {
+    const ctx = audioContextRef.current;
+    if (!content.audioBuffer || !ctx) return;
+    audioSourceRef.current?.stop();
+    cancelAnimationFrame(rafIdRef.current);
+    const source = ctx.createBufferSource();
+    source.buffer = content.audioBuffer;
+    source.connect(ctx.destination);
+    offsetRef.current = offset;
+    startTimeRef.current = ctx.currentTime;
+    source.start(0, offset);
+    audioSourceRef.current = source;
+    setIsPlaying(true);
+    const update = () => {
+      const cur = offsetRef.current + (ctx.currentTime - startTimeRef.current);
+      setCurrentTime(cur);
+      if (cur >= duration) {
+        setIsPlaying(false);
+        offsetRef.current = 0;
+      }
+      else rafIdRef.current = requestAnimationFrame(update);
+    };
+    rafIdRef.current = requestAnimationFrame(update);
+  };
+
+  /**
+   * 仅重新合成此前以静音占位的分段，其余分段沿用现有音频
+   */
+  const retryMissingChunks = async () => {
+    const voice = content.voiceTrack?.buffer || content.audioBuffer;
+    if (isRunning || !voice || !content.audioChunks || !content.finalScript) return;
+    setIsRunning(true);
+    try {
+      if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
+      addLog(`正在重试 ${silencedChunks} 个缺失的音频分段...`, "working");
+      const usage = collectUsage(WorkflowStep.SYNTHESIS, record => recordUsage(record, content.id));
+      const ctx = audioContextRef.current;
+      const result = await runManualStep(WorkflowStep.SYNTHESIS, signal =>
+        gemini.resynthesizeEdited(content.finalScript!, { audioBuffer: voice, chunks: content.audioChunks! }, ctx, { ...synthesisOptions(content), onUsage: usage.onUsage, signal }));
+      resetPlayback();
+      setDuration(result.audioBuffer.duration);
+      let next = commitContent(appendUsage(pipeline.withVoiceTrack(content, result), usage.records));
+      next = commitContent(await masterContent(next));
+      const remaining = result.chunks.filter(c => c.status === 'silenced').length;
+      addLog(remaining > 0 ? `重试完成，仍有 ${remaining} 个分段缺失。` : "缺失段落已全部补齐。", remaining > 0 ? "error" : "success");
+      persistEpisode(next);
     } catch (e: any) {
-      console.error(e);
-      const errMsg = e.message || "未知错误";
-      addLog(`生成中断: ${errMsg}`, "error");
-      setErrorOccurred(true);
+      logManualStepError("重试", e);
+    } finally {
+      setIsRunning(false);
     }
   };
 
@@ -112,26 +870,47 @@ const App: React.FC = () => {
       setIsPlaying(false);
       cancelAnimationFrame(rafIdRef.current);
     } else {
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = content.audioBuffer;
-      source.connect(audioContextRef.current.destination);
-      startTimeRef.current = audioContextRef.current.currentTime;
-      source.start(0, offsetRef.current);
-      audioSourceRef.current = source;
-      setIsPlaying(true);
-      const update = () => {
-        const cur = offsetRef.current + (audioContextRef.current!.currentTime - startTimeRef.current);
-        setCurrentTime(cur);
-        if (cur >= duration) {
-          setIsPlaying(false);
-          offsetRef.current = 0;
-        }
-        else rafIdRef.current = requestAnimationFrame(update);
-      };
-      rafIdRef.current = requestAnimationFrame(update);
+      playFrom(offsetRef.current);
+    }
+  };
+
+  const seekTo = (time: number) => {
+    if (!content.audioBuffer) return;
+    const t = Math.max(0, Math.min(time, duration - 0.05));
+    if (isPlaying) playFrom(t);
+    else {
+      offsetRef.current = t;
+      setCurrentTime(t);
     }
   };
 
+  const exportAudio = async (format: 'wav' | 'mp3') => {
+    if (!content.audioBuffer || exporting) return;
+    setExporting({ format, progress: 0 });
+    try {
+      const tags = buildEpisodeTags(content);
+      const blob = format === 'wav'
+        ? encodeWav(content.audioBuffer, tags)
+        : await encodeMp3(content.audioBuffer, tags, 128, (p) => setExporting({ format, progress: p }));
+      downloadBlob(blob, exportFileName(content, format));
+      addLog(`已导出 ${format.toUpperCase()} 文件（${(blob.size / 1024 / 1024).toFixed(1)} MB）。`, "success");
+    } catch (e: any) {
+      console.error(e);
+      addLog(`导出失败: ${e.message || "未知错误"}`, "error");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const exportText = (kind: 'srt' | 'vtt' | 'chapters.json') => {
+    if (!content.timingMap?.length) return;
+    const cues = buildSubtitleCues(content.timingMap);
+    const text = kind === 'srt' ? toSrt(cues) : kind === 'vtt' ? toWebVtt(cues) : buildChaptersJson(chapters, content.title);
+    const type = kind === 'srt' ? 'application/x-subrip' : kind === 'vtt' ? 'text/vtt' : 'application/json+chapters';
+    downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), exportFileName(content, kind));
+    addLog(kind === 'chapters.json' ? `已导出章节文件（${chapters.length} 章）。` : `已导出 ${kind.toUpperCase()} 字幕（${cues.length} 条）。`, "success");
+  };
+
   const getStepProgress = () => {
     if (currentStep === WorkflowStep.IDLE) return 0;
     if (currentStep === WorkflowStep.COMPLETED) return 100;
@@ -151,6 +930,11 @@ const App: React.FC = () => {
               <h1 className="text-3xl font-black tracking-tighter uppercase leading-none">FinancePod <span className="text-blue-500">PRO</span></h1>
               <p className="text-[11px] text-slate-500 font-bold uppercase tracking-[0.3em] mt-2">Smart Audio Production Hub</p>
             </div>
+            {currentStep !== WorkflowStep.IDLE && !isRunning && (
+              <button onClick={backToHome} className="ml-4 px-4 py-2 border border-slate-800 hover:border-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-200 transition-all flex items-center gap-2">
+                <i className="fa-solid fa-arrow-left"></i> 返回首页
+              </button>
+            )}
           </div>
           <div className="text-right flex flex-col items-end">
             <div className="flex items-center gap-4">
@@ -183,6 +967,15 @@ const App: React.FC = () => {
                   </button>
                 </div>
               </div>
+              <FormatPicker format={format} cast={cast} onChange={updateFormat} />
+              <VariantLanguagePicker languages={variantLanguages} onChange={updateVariantLanguages} />
+              <CastEditor cast={cast} onChange={updateCast} />
+              <SynthesisSettings policy={synthesisPolicy} onChange={updateSynthesisPolicy} />
+              <StepTimeoutSettings timeouts={stepTimeouts} onChange={updateStepTimeouts} />
+              <MasteringSettings settings={masteringDefaults} onChange={updateMasteringDefaults} />
+              <PromptEditor registry={promptRegistry} onChange={updatePromptRegistry} />
+              <ModelPriceSettings prices={modelPrices} onChange={updateModelPrices} />
+              <ResponseCacheSettings settings={cacheSettings} onChange={updateCacheSettings} />
             </div>
 
             <div className="bg-slate-900/50 border border-slate-800 rounded-[2.5rem] p-8 mb-16 overflow-hidden relative">
@@ -202,42 +995,42 @@ const App: React.FC = () => {
                       </div>
                     )) : <span className="text-sm text-slate-600">正在追踪实时财经大事...</span>}
                   </div>
+                  <button onClick={startBriefing} disabled={briefingLoading} className="flex-shrink-0 px-4 py-2 bg-indigo-600/10 border border-indigo-500/40 rounded-xl text-[10px] font-black text-indigo-300 hover:bg-indigo-600/20 disabled:opacity-50 transition-all z-20">
+                    <i className={`fa-solid ${briefingLoading ? 'fa-spinner animate-spin' : 'fa-sun'} mr-2`}></i>生成今日早报
+                  </button>
                </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-              {[
-                { key: 'ths', name: '同花顺热榜', icon: 'fa-chart-line', color: 'text-orange-500', bg: 'bg-orange-500/5' },
-                { key: 'xq', name: '雪球讨论榜', icon: 'fa-snowflake', color: 'text-blue-400', bg: 'bg-blue-400/5' },
-                { key: 'dfcf', name: '东财人气榜', icon: 'fa-fire', color: 'text-red-500', bg: 'bg-red-500/5' }
-              ].map((source) => (
-                <div key={source.key} className="bg-slate-900/30 border border-slate-800/80 rounded-[2.5rem] p-8 hover:border-slate-700 transition-all flex flex-col h-full">
-                  <div className="flex items-center justify-between mb-8 px-2">
-                    <div className="flex items-center gap-4">
-                      <div className={`w-10 h-10 ${source.bg} rounded-xl flex items-center justify-center`}>
-                        <i className={`fa-solid ${source.icon} ${source.color} text-lg`}></i>
-                      </div>
-                      <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">{source.name}</h4>
-                    </div>
-                  </div>
-                  <div className="space-y-4 flex-1">
-                    {trending[source.key]?.map((t, i) => (
-                      <button 
-                        key={i} 
-                        onClick={() => startWorkflow(t)}
-                        className="w-full flex items-center justify-between p-5 bg-slate-900 hover:bg-blue-600/10 border border-slate-800/50 rounded-2xl group transition-all"
-                      >
-                        <div className="flex items-center gap-5">
-                          <span className="text-[11px] font-mono text-slate-600 font-black">{i+1}</span>
-                          <span className="text-sm font-bold text-slate-200 group-hover:text-blue-400 tracking-tight">{t}</span>
-                        </div>
-                        <i className="fa-solid fa-chevron-right text-[10px] text-slate-800 group-hover:text-blue-500 group-hover:translate-x-1 transition-all"></i>
-                      </button>
-                    ))}
-                  </div>
-                </div>
-              ))}
-            </div>
+            <BatchQueuePanel
+              jobs={batchJobs}
+              concurrency={batchConcurrency}
+              paused={batchPaused}
+              onEnqueue={enqueueBatch}
+              onConcurrencyChange={updateBatchConcurrency}
+              onTogglePaused={() => setBatchPaused(p => !p)}
+              onMove={(id, delta) => setBatchJobs(prev => moveJob(prev, id, delta))}
+              onPause={job => stopBatchJob(job, 'pause')}
+              onResume={resumeBatchJob}
+              onCancel={job => stopBatchJob(job, 'cancel')}
+              onRemove={job => {
+                batchDraftsRef.current.delete(job.id);
+                setBatchJobs(prev => prev.filter(j => j.id !== job.id));
+              }}
+              onClearFinished={() => setBatchJobs(prev => prev.filter(j => j.status !== 'done' && j.status !== 'cancelled'))}
+              onOpen={job => openEpisode(job.episodeId)}
+            />
+
+            <TrendingBoards snapshot={trending} loading={trendingLoading} onRefresh={() => refreshTrending(true)} onSelect={startWorkflow} onEnqueue={enqueueBatch} />
+
+            <EpisodeLibrary refreshKey={libraryVersion} onOpen={openEpisode} onError={msg => addLog(msg, "error")} />
+
+            <FeedPublisher
+              refreshKey={libraryVersion}
+              getAudioContext={() => {
+                if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
+                return audioContextRef.current;
+              }}
+            />
           </div>
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-10 animate-in fade-in duration-500">
@@ -246,11 +1039,21 @@ const App: React.FC = () => {
                 <div className="flex justify-between items-center mb-10">
                   <h4 className="text-[11px] font-black uppercase text-slate-500 tracking-[0.2em]">生产控制台</h4>
                   <div className="flex items-center gap-3">
-                    {errorOccurred && (
-                       <button onClick={() => startWorkflow()} className="px-3 py-1 bg-red-500/20 border border-red-500/40 text-red-500 rounded-lg text-[10px] font-black hover:bg-red-500/30 transition-all flex items-center gap-2">
+                    {isRunning && abortRef.current && (
+                       <button onClick={cancelRun} className="px-3 py-1 bg-slate-800 border border-slate-700 text-slate-300 rounded-lg text-[10px] font-black hover:text-red-400 hover:border-red-500/40 transition-all flex items-center gap-2">
+                         <i className="fa-solid fa-stop"></i> 取消生产
+                       </button>
+                    )}
+                    {errorOccurred && !isRunning && (
+                       <button onClick={() => resumeWorkflow()} className="px-3 py-1 bg-red-500/20 border border-red-500/40 text-red-500 rounded-lg text-[10px] font-black hover:bg-red-500/30 transition-all flex items-center gap-2">
                          <i className="fa-solid fa-rotate-right"></i> 重新尝试
                        </button>
                     )}
+                    {!errorOccurred && !isRunning && staleSteps.length > 0 && (
+                       <button onClick={() => resumeWorkflow()} className="px-3 py-1 bg-amber-500/20 border border-amber-500/40 text-amber-400 rounded-lg text-[10px] font-black hover:bg-amber-500/30 transition-all flex items-center gap-2">
+                         <i className="fa-solid fa-arrows-rotate"></i> 刷新下游
+                       </button>
+                    )}
                     <span className="text-lg font-mono font-bold text-blue-400">{Math.round(getStepProgress())}%</span>
                   </div>
                 </div>
@@ -258,18 +1061,28 @@ const App: React.FC = () => {
                   <div className={`h-full transition-all duration-700 ${errorOccurred ? 'bg-red-500' : 'bg-blue-500'}`} style={{ width: `${getStepProgress()}%` }}></div>
                 </div>
                 <div className="space-y-8">
-                  {STEPS_CONFIG.map((s, i) => {
-                    const stepIndex = STEPS_CONFIG.findIndex(sc => sc.step === currentStep);
-                    const isDone = i < stepIndex || currentStep === WorkflowStep.COMPLETED;
+                  {STEPS_CONFIG.map((s) => {
                     const isCurrent = s.step === currentStep;
+                    const isDone = !isCurrent && isStepComplete(s.step, content);
+                    const isStale = staleSteps.includes(s.step);
                     const isStepError = errorOccurred && isCurrent;
+                    const pipelineIndex = PIPELINE_STEPS.indexOf(s.step);
+                    const canRerun = !isRunning && pipelineIndex >= 0 && PIPELINE_STEPS.slice(0, pipelineIndex).every(p => isStepComplete(p, content));
                     return (
-                      <div key={s.step} className={`flex items-start gap-6 transition-all duration-300 ${isCurrent ? 'opacity-100 scale-[1.02]' : isDone ? 'opacity-60' : 'opacity-20'}`}>
-                        <div className={`w-10 h-10 rounded-xl flex-shrink-0 flex items-center justify-center text-xs shadow-lg ${isStepError ? 'bg-red-500 text-white' : isDone ? 'bg-green-500 text-white' : isCurrent ? 'bg-blue-600 text-white animate-pulse' : 'bg-slate-800 text-slate-600'}`}>
-                          {isStepError ? <i className="fa-solid fa-triangle-exclamation"></i> : isDone ? <i className="fa-solid fa-check"></i> : <i className={`fa-solid ${s.icon}`}></i>}
+                      <div key={s.step} className={`group flex items-start gap-6 transition-all duration-300 ${isCurrent ? 'opacity-100 scale-[1.02]' : isDone ? 'opacity-60 hover:opacity-100' : 'opacity-20'}`}>
+                        <div className={`w-10 h-10 rounded-xl flex-shrink-0 flex items-center justify-center text-xs shadow-lg ${isStepError ? 'bg-red-500 text-white' : isStale ? 'bg-amber-500 text-white' : isDone ? 'bg-green-500 text-white' : isCurrent && isRunning ? 'bg-blue-600 text-white animate-pulse' : 'bg-slate-800 text-slate-600'}`}>
+                          {isStepError ? <i className="fa-solid fa-triangle-exclamation"></i> : isStale ? <i className="fa-solid fa-clock-rotate-left"></i> : isDone ? <i className="fa-solid fa-check"></i> : <i className={`fa-solid ${s.icon}`}></i>}
                         </div>
-                        <div className="flex-1 pt-1">
-                          <h5 className={`text-[11px] font-black uppercase tracking-widest ${isStepError ? 'text-red-400' : 'text-slate-300'}`}>{s.label}</h5>
+                        <div className="flex-1 pt-1 flex items-center justify-between">
+                          <h5 className={`text-[11px] font-black uppercase tracking-widest ${isStepError ? 'text-red-400' : isStale ? 'text-amber-400' : 'text-slate-300'}`}>
+                            {s.label}
+                            {isStale && <span className="ml-3 text-[9px] text-amber-500/80 normal-case tracking-normal">上游已更新</span>}
+                          </h5>
+                          {canRerun && (isDone || isStepError) && (
+                            <button onClick={() => rerunStep(s.step)} title="仅重跑此步骤" className="opacity-0 group-hover:opacity-100 px-2 py-1 text-[9px] font-black text-slate-400 hover:text-blue-400 border border-slate-700 rounded-lg transition-all">
+                              <i className="fa-solid fa-rotate-right mr-1"></i>重跑
+                            </button>
+                          )}
                         </div>
                       </div>
                     );
@@ -295,6 +1108,8 @@ const App: React.FC = () => {
                   <div ref={logEndRef} />
                 </div>
               </div>
+
+              <UsagePanel records={content.usage || []} stats={usageStats} prices={modelPrices} onResetStats={resetUsageStats} />
             </div>
 
             <div className="lg:col-span-8">
@@ -308,15 +1123,68 @@ const App: React.FC = () => {
                       <i className={`fa-solid ${isPlaying ? 'fa-pause' : 'fa-play'}`}></i>
                     </button>
                     <div className="flex-1 space-y-6 z-10 text-center md:text-left">
-                      <h2 className="text-5xl font-black text-white leading-[1.1] tracking-tight">{content.title}</h2>
+                      <h2 className="text-5xl font-black text-white leading-[1.1] tracking-tight">
+                        {content.language && content.language !== 'zh' && (
+                          <span className="mr-4 px-3 py-1 rounded-xl bg-indigo-500/10 text-indigo-300 text-base align-middle">{languagePreset(content.language).label}</span>
+                        )}
+                        {content.title}
+                      </h2>
                       <div className="flex items-center gap-8">
-                        <div className="flex-1 h-2 bg-slate-800/80 rounded-full overflow-hidden">
+                        <div
+                          className="relative flex-1 h-2 bg-slate-800/80 rounded-full overflow-hidden cursor-pointer"
+                          onClick={e => {
+                            const rect = e.currentTarget.getBoundingClientRect();
+                            seekTo(((e.clientX - rect.left) / rect.width) * duration);
+                          }}
+                        >
                           <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${(currentTime / duration) * 100}%` }}></div>
+                          {chapters.slice(1).map((c, i) => (
+                            <span key={i} className="absolute top-0 h-full w-0.5 bg-slate-950/80" style={{ left: `${(c.start / duration) * 100}%` }}></span>
+                          ))}
                         </div>
                         <span className="text-sm font-mono font-black text-slate-500">
                           {Math.floor(currentTime / 60)}:{Math.floor(currentTime % 60).toString().padStart(2, '0')} / {Math.floor(duration / 60)}:{Math.floor(duration % 60).toString().padStart(2, '0')}
                         </span>
                       </div>
+                      <ChapterNav chapters={chapters} currentTime={currentTime} onSeek={seekTo} />
+                      <div className="flex flex-wrap items-center gap-3 justify-center md:justify-start">
+                        {(['wav', 'mp3'] as const).map(f => (
+                          <button
+                            key={f}
+                            onClick={() => exportAudio(f)}
+                            disabled={!!exporting}
+                            className="px-4 py-2 bg-slate-800 hover:bg-blue-600/20 border border-slate-700 hover:border-blue-500/50 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-300 disabled:opacity-40 transition-all flex items-center gap-2"
+                          >
+                            <i className={`fa-solid ${exporting?.format === f ? 'fa-spinner animate-spin' : 'fa-download'}`}></i>
+                            {exporting?.format === f && f === 'mp3' ? `编码中 ${Math.round(exporting.progress * 100)}%` : `导出 ${f.toUpperCase()}`}
+                          </button>
+                        ))}
+                        {content.timingMap && content.timingMap.length > 0 && ([
+                          { kind: 'srt', label: '字幕 SRT' },
+                          { kind: 'vtt', label: '字幕 VTT' },
+                          { kind: 'chapters.json', label: '章节 JSON' }
+                        ] as const).filter(x => x.kind !== 'chapters.json' || chapters.length > 0).map(x => (
+                          <button
+                            key={x.kind}
+                            onClick={() => exportText(x.kind)}
+                            className="px-4 py-2 bg-slate-800 hover:bg-blue-600/20 border border-slate-700 hover:border-blue-500/50 rounded-xl text-[10px] font-black tracking-widest text-slate-300 transition-all flex items-center gap-2"
+                          >
+                            <i className={`fa-solid ${x.kind === 'chapters.json' ? 'fa-list-ol' : 'fa-closed-captioning'}`}></i>
+                            {x.label}
+                          </button>
+                        ))}
+                        {silencedChunks > 0 && (
+                          <button
+                            onClick={retryMissingChunks}
+                            disabled={isRunning}
+                            title="部分分段合成失败，已以静音占位"
+                            className="px-4 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 rounded-xl text-[10px] font-black tracking-widest text-amber-400 disabled:opacity-40 transition-all flex items-center gap-2"
+                          >
+                            <i className={`fa-solid ${isRunning ? 'fa-spinner animate-spin' : 'fa-triangle-exclamation'}`}></i>
+                            {silencedChunks} 段缺失 · 重试缺失段落
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
 
@@ -324,8 +1192,12 @@ const App: React.FC = () => {
                     <div className="flex border-b border-slate-800 bg-slate-950/60 px-10">
                       {[
                         { id: 'script', label: '精选对话脚本', icon: 'fa-feather' },
+                        { id: 'factcheck', label: '事实核查', icon: 'fa-magnifying-glass-chart' },
+                        { id: 'review', label: '合规报告', icon: 'fa-shield-halved' },
+                        { id: 'mastering', label: '母带处理', icon: 'fa-wave-square' },
                         { id: 'process', label: '素材总结', icon: 'fa-database' },
-                        { id: 'sources', label: '引用数据源', icon: 'fa-link' }
+                        { id: 'sources', label: '引用数据源', icon: 'fa-link' },
+                        { id: 'languages', label: '语言版本', icon: 'fa-language' }
                       ].map(t => (
                         <button 
                           key={t.id} 
@@ -349,29 +1221,167 @@ const App: React.FC = () => {
                             ))}
                           </div>
 
-                          <div className="space-y-12 pt-16 border-t border-slate-800">
-                            {content.finalScript?.split('\n').map((line, i) => {
-                              const [s, ...txt] = line.split(/[：:]/);
-                              if (!s || txt.length === 0) return null;
-                              const isGuest = s.includes('嘉宾') || s.includes('张老师');
-                              return (
-                                <div key={i} className="group flex flex-col gap-4">
-                                  <span className={`text-[10px] font-black uppercase tracking-[0.3em] ${isGuest ? 'text-indigo-400' : 'text-blue-400'}`}>
-                                    {s}
+                          <div className="flex items-center gap-2 pt-16 border-t border-slate-800">
+                            {([
+                              { id: 'read', label: '阅读', icon: 'fa-book-open' },
+                              { id: 'edit', label: '编辑', icon: 'fa-pen' },
+                              { id: 'diff', label: '初稿对比', icon: 'fa-code-compare' }
+                            ] as const).map(v => (
+                              <button
+                                key={v.id}
+                                onClick={() => setScriptView(v.id)}
+                                disabled={isRunning && v.id === 'edit'}
+                                className={`px-4 py-2 rounded-xl text-[10px] font-black tracking-widest flex items-center gap-2 transition-all disabled:opacity-40 ${scriptView === v.id ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300 border border-slate-800'}`}
+                              >
+                                <i className={`fa-solid ${v.icon}`}></i>{v.label}
+                              </button>
+                            ))}
+                          </div>
+
+                          {scriptView === 'edit' && (
+                            <ScriptEditor
+                              script={content.finalScript || ''}
+                              speakerNames={content.cast?.map(m => m.name)}
+                              busy={isRunning}
+                              hasAudio={!!content.audioBuffer}
+                              onSave={saveScriptEdits}
+                              onCancel={() => setScriptView('read')}
+                            />
+                          )}
+
+                          {scriptView === 'diff' && (
+                            <ScriptDiff before={content.draftScript || content.finalScript || ''} after={content.finalScript || ''} />
+                          )}
+
+                          {scriptView === 'read' && (
+                            <div className="space-y-12">
+                              <div className="flex items-center gap-4 text-[10px] font-black tracking-widest">
+                                <span className="px-3 py-1.5 rounded-lg bg-blue-500/10 text-blue-400"><i className="fa-solid fa-quote-right mr-2"></i>{citations.cited} 处已标注来源</span>
+                                {citations.unsourced > 0 && (
+                                  <span className="px-3 py-1.5 rounded-lg bg-amber-500/10 text-amber-400"><i className="fa-solid fa-circle-question mr-2"></i>{citations.unsourced} 处事实陈述未标注来源</span>
+                                )}
+                                {content.lengthCheck && (
+                                  <span className={`px-3 py-1.5 rounded-lg ${content.lengthCheck.withinTolerance ? 'bg-slate-800 text-slate-400' : 'bg-amber-500/10 text-amber-400'}`}>
+                                    <i className="fa-solid fa-ruler-horizontal mr-2"></i>{formatPreset(content.format).label} · 约 {content.lengthCheck.chars} 字 / 目标 {content.lengthCheck.target.join('–')}
+                                    {content.lengthCheck.draftChars !== undefined && `（初稿 ${content.lengthCheck.draftChars} 字，已自动改写）`}
                                   </span>
-                                  <p className="text-2xl text-slate-200 leading-[1.8] font-medium">
-                                    {txt.join('：').trim()}
-                                  </p>
+                                )}
+                              </div>
+                              {content.finalScript?.split('\n').map((line, i) => {
+                                const segment = parseSegmentHeading(line);
+                                if (segment) return (
+                                  <div key={i} className="flex items-center gap-4 pt-6">
+                                    <span className="text-xs font-black tracking-widest text-indigo-400">{segment}</span>
+                                    <div className="flex-1 h-px bg-slate-800"></div>
+                                  </div>
+                                );
+                                const [, s, body] = line.match(/^([^：:]*)[：:](.*)$/) || [];
+                                if (!s) return null;
+                                const member = content.cast && content.cast.find(m => m.name === matchSpeaker(s, content.cast!));
+                                const speakerColor = member ? CAST_COLOR_CLASSES[member.color].text : s.includes('嘉宾') ? 'text-indigo-400' : 'text-blue-400';
+                                const timingIndex = lineTimingIndex[i];
+                                // 脚本修改但尚未重合成时时间轴已失效，仅在台词一致时同步
+                                const entry = content.timingMap?.[timingIndex];
+                                const timing = entry && entry.text === stripCitations(body.replace(/\*\*/g, '')).trim() ? entry : undefined;
+                                const isActive = timingIndex >= 0 && timingIndex === activeLine;
+                                return (
+                                  <div
+                                    key={i}
+                                    ref={el => { if (timingIndex >= 0) scriptLineRefs.current[timingIndex] = el; }}
+                                    onClick={() => timing && seekTo(timing.start)}
+                                    className={`group flex flex-col gap-4 rounded-[2rem] -mx-8 px-8 py-4 transition-all ${timing ? 'cursor-pointer hover:bg-slate-800/30' : ''} ${isActive ? 'bg-blue-500/10 ring-1 ring-blue-500/30' : ''}`}
+                                  >
+                                    <span className={`text-[10px] font-black uppercase tracking-[0.3em] ${speakerColor}`}>
+                                      {s}
+                                      {timing && <span className="ml-4 font-mono text-slate-600 opacity-0 group-hover:opacity-100 transition-all">{Math.floor(timing.start / 60)}:{Math.floor(timing.start % 60).toString().padStart(2, '0')}</span>}
+                                    </span>
+                                    <p className={`text-2xl leading-[1.8] font-medium transition-colors ${isActive ? 'text-white' : activeLine >= 0 ? 'text-slate-400' : 'text-slate-200'}`}>
+                                      <CitedText text={body.trim()} links={content.groundingLinks || []} />
+                                    </p>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {activeTab === 'factcheck' && (
+                        <FactCheckPanel
+                          report={content.factCheck}
+                          script={content.finalScript || ''}
+                          busy={isRunning}
+                          onRerun={() => rerunStep(WorkflowStep.FACT_CHECK)}
+                          onRewrite={() => resolveFactCheck('rewrite')}
+                          onStrike={lines => resolveFactCheck('strike', lines)}
+                          onAccept={() => resolveFactCheck('accept')}
+                        />
+                      )}
+                      {activeTab === 'review' && (
+                        <ReviewReportPanel report={content.reviewReport} busy={isRunning} onRerun={() => rerunStep(WorkflowStep.REVIEW)} onOverride={overrideReview} />
+                      )}
+                      {activeTab === 'mastering' && (
+                        <div className="space-y-8">
+                          {content.masteringReport ? (
+                            <div className="grid grid-cols-3 gap-4">
+                              {[
+                                { label: '处理前响度', value: Number.isFinite(content.masteringReport.inputLufs) ? `${content.masteringReport.inputLufs.toFixed(1)} LUFS` : '—' },
+                                { label: '成片响度', value: `${content.masteringReport.outputLufs.toFixed(1)} LUFS` },
+                                { label: '峰值', value: `${content.masteringReport.peakDb.toFixed(1)} dBFS` }
+                              ].map(m => (
+                                <div key={m.label} className="p-6 bg-slate-950/50 border border-slate-800 rounded-2xl">
+                                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{m.label}</p>
+                                  <p className="text-xl font-black text-slate-200 mt-2 font-mono">{m.value}</p>
                                 </div>
-                              );
-                            })}
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-slate-500">本期成片尚未经过母带处理。</p>
+                          )}
+                          <MasteringForm
+                            settings={masteringDraft || content.mastering || masteringDefaults}
+                            onChange={setMasteringDraft}
+                          />
+                          <div className="flex justify-end">
+                            <button
+                              onClick={() => remaster(masteringDraft || content.mastering || masteringDefaults)}
+                              disabled={isRunning}
+                              className="px-6 py-3 bg-blue-600 hover:bg-blue-500 rounded-xl text-xs font-black text-white disabled:opacity-40 transition-all"
+                            >
+                              <i className={`fa-solid ${isRunning ? 'fa-spinner animate-spin' : 'fa-wave-square'} mr-2`}></i>{masteringDraft ? '应用修改并重新处理' : '按当前设置重新处理'}
+                            </button>
                           </div>
                         </div>
                       )}
-                      {activeTab === 'process' && (
-                        <div className="bg-black/40 p-12 rounded-[3rem] border border-slate-800/60 text-blue-400 font-mono text-xs overflow-x-auto">
-                          <pre>{content.materials ? JSON.stringify(JSON.parse(content.materials), null, 2) : 'No data.'}</pre>
+                      {activeTab === 'process' && content.promptVersions && (
+                        <div className="flex flex-wrap items-center gap-3 mb-10 text-[10px] text-slate-500">
+                          <span className="font-black uppercase tracking-widest"><i className="fa-solid fa-file-pen mr-2"></i>提示词版本</span>
+                          {PROMPT_DEFINITIONS.filter(d => content.promptVersions?.[d.id] !== undefined).map(d => (
+                            <span key={d.id} className="px-2 py-1 rounded-lg bg-slate-800 text-slate-400">
+                              {d.label} <span className="font-mono text-blue-400">{promptVersionLabel(content.promptVersions![d.id])}</span>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {activeTab === 'process' && (content.briefing ? (
+                        <div className="space-y-12">
+                          {content.briefing.segments.map((seg, i) => (
+                            <div key={i}>
+                              <h4 className="text-sm font-black text-indigo-400 mb-6">第 {i + 1} 条 · {seg.title}</h4>
+                              <MaterialPoolView materials={seg.materials} />
+                            </div>
+                          ))}
                         </div>
+                      ) : (
+                        <MaterialPoolView materials={content.materials} />
+                      ))}
+                      {activeTab === 'languages' && (
+                        <LanguageVariants
+                          content={content}
+                          ready={!findResumeStep(content)}
+                          busy={isRunning}
+                          onProduce={language => publishVariants([language])}
+                          onOpen={openEpisode}
+                        />
                       )}
                       {activeTab === 'sources' && (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -381,7 +1391,9 @@ const App: React.FC = () => {
                                 <i className={`fa-solid ${l.type === 'video' ? 'fa-play-circle' : l.type === 'news' ? 'fa-newspaper' : 'fa-link'}`}></i>
                               </div>
                               <div className="flex-1 overflow-hidden">
-                                <h4 className="text-base font-black text-slate-200 truncate group-hover:text-blue-400">{l.title}</h4>
+                                <h4 className="text-base font-black text-slate-200 truncate group-hover:text-blue-400">
+                                  <span className="mr-3 px-1.5 rounded bg-blue-500/10 text-[10px] font-mono text-blue-400 align-middle">{sourceId(i)}</span>{l.title}
+                                </h4>
                                 <p className="text-[10px] text-slate-600 truncate mt-2 font-mono">{l.uri}</p>
                                 <span className="inline-block mt-3 px-2 py-0.5 rounded text-[8px] font-black uppercase bg-slate-800 text-slate-400 tracking-widest">
                                   {l.type === 'video' ? '视频源' : l.type === 'news' ? '新闻报道' : '网页资料'}
@@ -396,16 +1408,44 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 <div className="bg-slate-900/40 border border-slate-800/60 rounded-[3.5rem] p-24 flex flex-col items-center justify-center min-h-[700px] text-center shadow-2xl backdrop-blur-sm relative">
-                  {errorOccurred && (
+                  {!isRunning && content.reviewReport?.blocked && currentStep === WorkflowStep.REVIEW ? (
+                    <div className="absolute inset-0 bg-[#020617]/95 backdrop-blur-md rounded-[3.5rem] z-20 p-16 overflow-y-auto custom-scrollbar">
+                      <h4 className="text-3xl font-black text-white mb-4 text-left">合规审校未通过</h4>
+                      <p className="text-slate-400 mb-10 text-left">以下台词仍含投资暗示或涨跌评价，音频合成已暂停。你可以调整规则后重新审校，或在人工核对后放行。</p>
+                      <ReviewReportPanel report={content.reviewReport} busy={isRunning} onRerun={() => rerunStep(WorkflowStep.REVIEW)} onOverride={overrideReview} />
+                    </div>
+                  ) : !isRunning && content.factCheck && !content.factCheck.resolved && currentStep === WorkflowStep.FACT_CHECK ? (
+                    <div className="absolute inset-0 bg-[#020617]/95 backdrop-blur-md rounded-[3.5rem] z-20 p-16 overflow-y-auto custom-scrollbar">
+                      <h4 className="text-3xl font-black text-white mb-4 text-left">事实核查待处理</h4>
+                      <p className="text-slate-400 mb-10 text-left">以下台词中的数字、日期或名称在素材中找不到依据，音频合成已暂停。你可以按素材自动改写、删除存疑台词，或在人工核对后确认继续。</p>
+                      <FactCheckPanel
+                        report={content.factCheck}
+                        script={content.finalScript || ''}
+                        busy={isRunning}
+                        onRerun={() => rerunStep(WorkflowStep.FACT_CHECK)}
+                        onRewrite={() => resolveFactCheck('rewrite')}
+                        onStrike={lines => resolveFactCheck('strike', lines)}
+                        onAccept={() => resolveFactCheck('accept')}
+                      />
+                    </div>
+                  ) : !isRunning && (
                     <div className="absolute inset-0 bg-[#020617]/80 backdrop-blur-md rounded-[3.5rem] flex flex-col items-center justify-center z-20 p-12">
-                      <div className="w-24 h-24 bg-red-500/20 text-red-500 rounded-full flex items-center justify-center text-4xl mb-8 border border-red-500/40">
-                        <i className="fa-solid fa-triangle-exclamation"></i>
+                      <div className={`w-24 h-24 rounded-full flex items-center justify-center text-4xl mb-8 border ${errorOccurred ? 'bg-red-500/20 text-red-500 border-red-500/40' : 'bg-blue-500/20 text-blue-400 border-blue-500/40'}`}>
+                        <i className={`fa-solid ${errorOccurred ? 'fa-triangle-exclamation' : 'fa-pause'}`}></i>
+                      </div>
+                      <h4 className="text-3xl font-black text-white mb-4">{errorOccurred ? '生产链路中断' : '生产已暂停'}</h4>
+                      <p className="text-slate-400 max-w-md mb-12">
+                        {errorOccurred ? '由于网络波动或 API 限制，当前的生产流程已中断。别担心，你的素材已保存，' : '已完成步骤的产出均已保存，'}
+                        将从「{STEPS_CONFIG.find(s => s.step === currentStep)?.label}」继续，已完成的步骤不会重复调用。
+                      </p>
+                      <div className="flex items-center gap-4">
+                        <button onClick={() => resumeWorkflow()} className="bg-blue-600 hover:bg-blue-500 px-12 py-4 rounded-2xl font-black text-white shadow-xl shadow-blue-600/30 active:scale-95 transition-all flex items-center gap-4">
+                          <i className="fa-solid fa-rotate-right"></i> {errorOccurred ? '从中断处继续' : '继续生产'}
+                        </button>
+                        <button onClick={() => startWorkflow(content.keyword)} className="px-8 py-4 rounded-2xl font-black text-slate-400 border border-slate-700 hover:text-white hover:border-slate-500 transition-all">
+                          从头开始
+                        </button>
                       </div>
-                      <h4 className="text-3xl font-black text-white mb-4">生产链路中断</h4>
-                      <p className="text-slate-400 max-w-md mb-12">由于网络波动或 API 限制，当前的生产流程已中断。别担心，你的素材已保存，你可以尝试重新运行。</p>
-                      <button onClick={() => startWorkflow()} className="bg-blue-600 hover:bg-blue-500 px-12 py-4 rounded-2xl font-black text-white shadow-xl shadow-blue-600/30 active:scale-95 transition-all flex items-center gap-4">
-                        <i className="fa-solid fa-rotate-right"></i> 重新尝试生产
-                      </button>
                     </div>
                   )}
                   
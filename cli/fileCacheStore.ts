@@ -0,0 +1,35 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CacheStore } from '../services/responseCache';
+
+/**
+ * 命令行的响应缓存存储：每个条目一个 JSON 文件，文件名为编码后的键
+ */
+export function createFileCacheStore(dir: string): CacheStore {
+  const file = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`);
+  const keys = async (prefix: string) => {
+    const names = await readdir(dir).catch(() => [] as string[]);
+    return names
+      .filter(name => name.endsWith('.json'))
+      .map(name => decodeURIComponent(name.slice(0, -'.json'.length)))
+      .filter(key => key.startsWith(prefix));
+  };
+
+  return {
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(await readFile(file(key), 'utf8')) as T;
+      } catch {
+        return undefined;
+      }
+    },
+    async put(key, value) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(file(key), JSON.stringify(value));
+    },
+    async clear(prefix) {
+      await Promise.all((await keys(prefix)).map(key => rm(file(key), { force: true })));
+    },
+    count: async prefix => (await keys(prefix)).length
+  };
+}
@@ -0,0 +1,253 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { CacheMode, EpisodeFormat, PodcastContent, WorkflowStep } from '../types';
+import { DEFAULT_CAST, DEFAULT_MASTERING_SETTINGS, DEFAULT_MODEL_PRICES, DEFAULT_STEP_TIMEOUTS, DEFAULT_SYNTHESIS_POLICY, FORMAT_PRESETS, STEPS_CONFIG } from '../constants';
+import { createGeminiProvider, createMockProvider, setProvider } from '../services/providers';
+import { CancelledError, createOrchestrator } from '../services/orchestrator';
+import { createPcmContext } from '../services/pcm';
+import { castForFormat, formatPreset } from '../services/formats';
+import { newEpisodeId } from '../services/episodeLibrary';
+import { buildEpisodeTags, encodeWav } from '../services/audioExport';
+import { buildChapters, buildChaptersJson } from '../services/chapters';
+import { buildSubtitleCues, toSrt } from '../services/subtitles';
+import { stripCitations } from '../services/citations';
+import { ReviewBlockedError } from '../services/compliance';
+import { FactCheckPendingError, flaggedItems, flaggedLines, strikeLines } from '../services/factCheck';
+import { PIPELINE_STEPS } from '../services/checkpoint';
+import { formatCost, formatTokens, summarizeUsage, usageByStep } from '../services/usage';
+import { ReplayMissError, openCacheContext } from '../services/responseCache';
+import { createFileCacheStore } from './fileCacheStore';
+
+const USAGE = `用法：financepod generate <关键词> [选项]
+
+选项：
+  -o, --out <目录>        输出目录（默认 ./out/<关键词>）
+  -f, --format <形态>     节目形态：${FORMAT_PRESETS.map(p => p.id).join(' / ')}（默认 standard）
+  -p, --provider <名称>   模型服务：gemini / mock（默认读取 LLM_PROVIDER，未设置时为 gemini）
+  --unverified <处理>     事实核查存疑时：stop 暂停 / strike 删除存疑台词 / accept 确认后继续（默认 stop）
+  --cache <模式>          响应缓存：off 关闭 / cache 当天复用 / record 录制 / replay 回放录制（默认 cache）
+  --bypass <步骤,...>     不读取缓存的步骤，如 OUTLINE,DRAFTING
+  --cache-dir <目录>      缓存与录制的存放目录（默认 ./.financepod-cache）
+  -h, --help              显示帮助
+
+gemini 需要设置环境变量 GEMINI_API_KEY（或 API_KEY）。各步骤按默认时限运行，Ctrl+C 取消并写出已完成的产出。
+结束时按默认价目表输出各步骤的模型用量与费用。`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type UnverifiedPolicy = 'stop' | 'strike' | 'accept';
+
+const UNVERIFIED_POLICIES: UnverifiedPolicy[] = ['stop', 'strike', 'accept'];
+
+const CACHE_MODES: CacheMode[] = ['off', 'cache', 'record', 'replay'];
+
+const LOG_PREFIX = { info: '·', success: '✓', error: '✗', working: '…' } as const;
+
+/**
+ * 将已产出的内容写入输出目录；中断时也会写出中断前的产出
+ */
+async function writeOutputs(dir: string, draft: PodcastContent): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+  const written: string[] = [];
+  const save = async (name: string, data: string | Uint8Array) => {
+    await writeFile(path.join(dir, name), data);
+    written.push(name);
+  };
+
+  if (draft.materials) {
+    let materials = draft.materials;
+    try { materials = JSON.stringify(JSON.parse(materials), null, 2); } catch { /* 保留原文 */ }
+    await save('materials.json', materials);
+  }
+  if (draft.outline) await save('outline.md', draft.outline);
+  if (draft.finalScript || draft.draftScript) await save('script.txt', stripCitations(draft.finalScript || draft.draftScript!));
+  if (draft.groundingLinks) await save('links.json', JSON.stringify(draft.groundingLinks, null, 2));
+  await save('episode.json', JSON.stringify({
+    id: draft.id,
+    keyword: draft.keyword,
+    title: draft.title,
+    format: draft.format,
+    createdAt: draft.createdAt,
+    hooks: draft.hooks,
+    highlights: draft.highlights,
+    lengthCheck: draft.lengthCheck,
+    promptVersions: draft.promptVersions,
+    usage: draft.usage,
+    factCheck: draft.factCheck,
+    reviewReport: draft.reviewReport,
+    duration: draft.audioBuffer?.duration
+  }, null, 2));
+  if (draft.audioBuffer) {
+    const wav = encodeWav(draft.audioBuffer, buildEpisodeTags(draft));
+    await save('episode.wav', new Uint8Array(await wav.arrayBuffer()));
+    if (draft.timingMap?.length) {
+      await save('episode.srt', toSrt(buildSubtitleCues(draft.timingMap)));
+      const chapters = buildChapters(draft);
+      if (chapters.length > 0) await save('chapters.json', buildChaptersJson(chapters, draft.title));
+    }
+  }
+  return written;
+}
+
+/**
+ * 按步骤输出模型用量与费用（默认价目表）
+ */
+function printUsage(draft: PodcastContent) {
+  const records = draft.usage || [];
+  if (records.length === 0) return;
+  const line = (label: string, summary: ReturnType<typeof summarizeUsage>) => {
+    const { calls, cached, promptTokens, outputTokens, thinkingTokens, latencyMs, retries } = summary.totals;
+    console.error(`  ${label.padEnd(10, '　')} ${String(calls).padStart(3)} 次  输入 ${formatTokens(promptTokens).padStart(6)}  输出 ${formatTokens(outputTokens + thinkingTokens).padStart(6)}  ${(latencyMs / 1000).toFixed(1).padStart(6)}s${cached > 0 ? `  缓存 ${cached}` : ''}${retries > 0 ? `  重试 ${retries}` : ''}  ${formatCost(summary.cost)}${summary.unpriced ? '*' : ''}`);
+  };
+  console.error('\n模型用量：');
+  usageByStep(records, PIPELINE_STEPS, DEFAULT_MODEL_PRICES).forEach(({ step, summary }) =>
+    line(step ? STEPS_CONFIG.find(s => s.step === step)?.label || step : '其他调用', summary));
+  line('合计', summarizeUsage(records, DEFAULT_MODEL_PRICES));
+}
+
+/**
+ * 无人值守时按策略处理事实核查存疑项，与界面中的「删除」「确认」操作一致
+ */
+function resolveUnverified(draft: PodcastContent, policy: Exclude<UnverifiedPolicy, 'stop'>): PodcastContent {
+  const report = draft.factCheck!;
+  if (policy === 'accept') {
+    console.error(`  · 按 --unverified accept 确认 ${flaggedItems(report).length} 处存疑事实。`);
+    return { ...draft, factCheck: { ...report, resolved: true, accepted: true } };
+  }
+  const result = strikeLines(draft.finalScript || '', report, flaggedLines(report));
+  console.error(`  · 按 --unverified strike 删除 ${result.report.struck.length - report.struck.length} 行存疑台词。`);
+  return { ...draft, finalScript: result.script, factCheck: result.report };
+}
+
+async function generate(keyword: string, options: { out?: string; format?: string; provider?: string; unverified?: string; cache?: string; bypass?: string; 'cache-dir'?: string }) {
+  const { GEMINI_API_KEY, API_KEY, LLM_PROVIDER } = process.env;
+  const provider = options.provider || LLM_PROVIDER || 'gemini';
+  if (provider === 'mock') {
+    setProvider(createMockProvider(0));
+  } else if (provider === 'gemini') {
+    const apiKey = GEMINI_API_KEY || API_KEY;
+    if (!apiKey) throw new UsageError('未设置 GEMINI_API_KEY，或使用 --provider mock 离线运行。');
+    setProvider(createGeminiProvider(apiKey));
+  } else {
+    throw new UsageError(`未知的模型服务「${provider}」。`);
+  }
+
+  const unverified = (options.unverified || 'stop') as UnverifiedPolicy;
+  if (!UNVERIFIED_POLICIES.includes(unverified)) throw new UsageError(`未知的存疑处理方式「${unverified}」。`);
+  const format = (options.format || 'standard') as EpisodeFormat;
+  if (!FORMAT_PRESETS.some(p => p.id === format)) throw new UsageError(`未知的节目形态「${format}」。`);
+  const cacheMode = (options.cache || 'cache') as CacheMode;
+  if (!CACHE_MODES.includes(cacheMode)) throw new UsageError(`未知的缓存模式「${cacheMode}」。`);
+  const bypassSteps = (options.bypass || '').split(',').map(s => s.trim().toUpperCase()).filter(Boolean) as WorkflowStep[];
+  const unknownStep = bypassSteps.find(s => !PIPELINE_STEPS.includes(s));
+  if (unknownStep) throw new UsageError(`未知的步骤「${unknownStep}」，可选：${PIPELINE_STEPS.join(' / ')}。`);
+  const cache = await openCacheContext({ mode: cacheMode, bypassSteps }, createFileCacheStore(path.resolve(options['cache-dir'] || '.financepod-cache')));
+  const dir = path.resolve(options.out || path.join('out', keyword.replace(/[\\/:*?"<>|\s]+/g, '_')));
+
+  const draft: PodcastContent = {
+    id: newEpisodeId(),
+    keyword,
+    createdAt: new Date().toISOString(),
+    cast: castForFormat(formatPreset(format), DEFAULT_CAST),
+    format,
+    // 母带处理依赖 Web Audio 离线渲染，命令行直接输出合成后的人声轨
+    mastering: { ...DEFAULT_MASTERING_SETTINGS, enabled: false }
+  };
+
+  const orchestrator = createOrchestrator();
+  let latest = draft;
+  orchestrator.subscribe(event => {
+    switch (event.type) {
+      case 'step':
+        console.error(`\n[${event.index + 1}/${event.total}] ${STEPS_CONFIG.find(s => s.step === event.step)?.label || event.step}`);
+        break;
+      case 'log':
+        console.error(`  ${LOG_PREFIX[event.entry.type]} ${event.entry.msg}`);
+        break;
+      case 'progress':
+        if (process.stderr.isTTY) process.stderr.write(`\r  … 已合成 ${event.current}/${event.total} 段${event.current === event.total ? '\n' : ''}`);
+        break;
+      case 'commit':
+        latest = event.draft;
+        break;
+    }
+  });
+
+  console.error(`启动 "${keyword}" 生产链路（${formatPreset(format).label}，模型服务 ${provider}，缓存 ${cacheMode}${cache && cache.date !== new Date().toISOString().slice(0, 10) ? ` @ ${cache.date}` : ''}）`);
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort(new CancelledError()));
+  const runOptions = {
+    audioContext: createPcmContext(),
+    synthesis: { chunkCache: new Map(), policy: DEFAULT_SYNTHESIS_POLICY },
+    signal: controller.signal,
+    timeouts: DEFAULT_STEP_TIMEOUTS,
+    cache
+  };
+  try {
+    try {
+      latest = (await orchestrator.run(draft, runOptions)).draft;
+    } catch (e) {
+      if (!(e instanceof FactCheckPendingError) || unverified === 'stop') throw e;
+      latest = (await orchestrator.run(resolveUnverified(latest, unverified), runOptions)).draft;
+    }
+  } finally {
+    printUsage(latest);
+    const written = await writeOutputs(dir, latest);
+    console.error(`\n已写入 ${dir}：${written.join('、')}`);
+  }
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      provider: { type: 'string', short: 'p' },
+      unverified: { type: 'string' },
+      cache: { type: 'string' },
+      bypass: { type: 'string' },
+      'cache-dir': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'generate') throw new UsageError(`未知命令「${command}」。`);
+  const keyword = rest.join(' ').trim();
+  if (!keyword) throw new UsageError('请提供关键词。');
+  await generate(keyword, values);
+}
+
+/** parseArgs 的参数错误（未知选项、缺少取值等）同样按用法错误处理 */
+const isParseArgsError = (e: unknown) =>
+  e instanceof Error && 'code' in e && typeof e.code === 'string' && e.code.startsWith('ERR_PARSE_ARGS_');
+
+main(process.argv.slice(2)).catch(e => {
+  if (e instanceof UsageError || isParseArgsError(e)) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    process.exitCode = 64;
+  } else if (e instanceof ReviewBlockedError || e instanceof FactCheckPendingError) {
+    console.error(`生产暂停：${e.message}已写出中断前的产出，可人工处理后重新运行。`);
+    process.exitCode = 2;
+  } else if (e instanceof ReplayMissError) {
+    console.error(`回放中断：${e.message}已写出中断前的产出。`);
+    process.exitCode = 1;
+  } else if (e instanceof CancelledError) {
+    console.error(`${e.message}已写出中断前的产出。`);
+    process.exitCode = 130;
+  } else {
+    console.error(`生成中断：${e?.message || e}`);
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { PodcastContent } from '../types';
+import { DEFAULT_CAST, DEFAULT_MASTERING_SETTINGS, DEFAULT_SYNTHESIS_POLICY, FORMAT_PRESETS } from '../constants';
+import { createMockProvider, setProvider } from '../services/providers';
+import { createOrchestrator } from '../services/orchestrator';
+import { createPcmContext } from '../services/pcm';
+import { castForFormat, formatPreset } from '../services/formats';
+import { findResumeStep } from '../services/checkpoint';
+import { newEpisodeId } from '../services/episodeLibrary';
+
+// 分别落在模拟素材的三类热词上
+const KEYWORDS = ['降准', '人工智能', '宁德时代'];
+
+/**
+ * 以模拟模型服务离线跑通整条生产链路：每类热词、每种节目形态都应产出完整脚本、时间轴与音频
+ */
+async function checkEpisode(keyword: string, format: PodcastContent['format']) {
+  const draft: PodcastContent = {
+    id: newEpisodeId(),
+    keyword,
+    createdAt: new Date().toISOString(),
+    cast: castForFormat(formatPreset(format), DEFAULT_CAST),
+    format,
+    // 母带处理依赖 Web Audio 离线渲染，与命令行一致只检查人声轨
+    mastering: { ...DEFAULT_MASTERING_SETTINGS, enabled: false }
+  };
+  const { draft: episode } = await createOrchestrator().run(draft, {
+    audioContext: createPcmContext(),
+    synthesis: { chunkCache: new Map(), policy: DEFAULT_SYNTHESIS_POLICY }
+  });
+
+  assert.equal(findResumeStep(episode), undefined, '仍有未完成的步骤');
+  const lines = (episode.finalScript || '').split('\n').filter(l => l.trim());
+  assert.ok(lines.length > 0, '脚本为空');
+
+  const timing = episode.timingMap || [];
+  assert.equal(timing.length, lines.length, '时间轴与脚本行数不一致');
+  timing.forEach((entry, i) => {
+    assert.ok(entry.end > entry.start, `第 ${i + 1} 行时长为零`);
+    if (i > 0) assert.ok(entry.start >= timing[i - 1].end, `第 ${i + 1} 行与上一行重叠`);
+  });
+
+  const audio = episode.audioBuffer;
+  assert.ok(audio && audio.duration > 0, '没有合成音频');
+  const chunks = episode.audioChunks || [];
+  assert.ok(chunks.every(c => c.status === 'ok'), '存在以静音占位的分段');
+  assert.equal(audio.length, chunks.reduce((sum, c) => sum + c.samples, 0), '音频长度与分段采样数不一致');
+  assert.ok(Math.abs(timing[timing.length - 1].end - audio.duration) < 0.05, '时间轴与音频时长不一致');
+}
+
+async function main() {
+  setProvider(createMockProvider(0));
+  let failed = 0;
+  for (const keyword of KEYWORDS) {
+    for (const { id: format } of FORMAT_PRESETS) {
+      try {
+        await checkEpisode(keyword, format);
+        console.log(`✓ ${keyword} · ${format}`);
+      } catch (e: any) {
+        failed++;
+        console.error(`✗ ${keyword} · ${format}：${e.message || e}`);
+      }
+    }
+  }
+  if (failed > 0) {
+    console.error(`\n${failed} 项检查未通过`);
+    process.exitCode = 1;
+  }
+}
+
+main();
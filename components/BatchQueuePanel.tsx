@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { STEPS_CONFIG } from '../constants';
+
+interface BatchQueuePanelProps {
+  jobs: BatchJob[];
+  concurrency: number;
+  paused: boolean;
+  onEnqueue: (keywords: string[]) => { added: string[]; skipped: string[] };
+  onConcurrencyChange: (concurrency: number) => void;
+  onTogglePaused: () => void;
+  onMove: (id: string, delta: -1 | 1) => void;
+  onPause: (job: BatchJob) => void;
+  onResume: (job: BatchJob) => void;
+  onCancel: (job: BatchJob) => void;
+  onRemove: (job: BatchJob) => void;
+  onClearFinished: () => void;
+  onOpen: (job: BatchJob) => void;
+}
+
+const STATUS_STYLE: Record<BatchJobStatus, { label: string; style: string }> = {
+  queued: { label: '等待中', style: 'bg-slate-800 text-slate-400 border-slate-700' },
+  running: { label: '生产中', style: 'bg-blue-500/10 text-blue-400 border-blue-500/30' },
+  paused: { label: '已暂停', style: 'bg-slate-800 text-slate-300 border-slate-600' },
+  blocked: { label: '待处理', style: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  failed: { label: '失败', style: 'bg-red-500/10 text-red-400 border-red-500/30' },
+  cancelled: { label: '已取消', style: 'bg-slate-800 text-slate-500 border-slate-700' },
+  done: { label: '已完成', style: 'bg-green-500/10 text-green-400 border-green-500/30' }
+};
+
+const LOG_COLOR: Record<string, string> = {
+  info: 'text-slate-500',
+  working: 'text-blue-400',
+  success: 'text-green-400',
+  error: 'text-red-400'
+};
+
+const IconButton: React.FC<{ icon: string; title: string; onClick: () => void; disabled?: boolean; tone?: string }> = ({ icon, title, onClick, disabled, tone = 'hover:text-blue-400' }) => (
+  <button onClick={onClick} disabled={disabled} title={title} className={`w-8 h-8 rounded-lg text-slate-500 ${tone} hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-all`}>
+    <i className={`fa-solid ${icon} text-xs`}></i>
+  </button>
+);
+
+/**
+ * 批量生产队列：多个热词按顺序与并发上限在后台生产，逐个任务展示进度与日志
+ */
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+  jobs, concurrency, paused, onEnqueue, onConcurrencyChange, onTogglePaused,
+  onMove, onPause, onResume, onCancel, onRemove, onClearFinished, onOpen
+}) => {
+  const [input, setInput] = useState('');
+  const [notice, setNotice] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const submit = () => {
+    const { added, skipped } = onEnqueue(input.split(/[\n,，、;；]/));
+    setNotice(skipped.length > 0 ? `已加入 ${added.length} 个，跳过队列中已有的：${skipped.join('、')}` : '');
+    if (added.length > 0) setInput('');
+  };
+
+  const counts = jobs.reduce((acc, j) => ({ ...acc, [j.status]: (acc[j.status] || 0) + 1 }), {} as Partial<Record<BatchJobStatus, number>>);
+  const stepLabel = (job: BatchJob) => STEPS_CONFIG.find(s => s.step === job.step)?.label;
+
+  return (
+    <div className="bg-slate-900/30 border border-slate-800/80 rounded-[2.5rem] p-8 mb-16">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-8 px-2">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 bg-indigo-500/5 rounded-xl flex items-center justify-center">
+            <i className="fa-solid fa-layer-group text-indigo-400 text-lg"></i>
+          </div>
+          <div>
+            <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">批量生产队列</h4>
+            {jobs.length > 0 && (
+              <p className="text-[10px] text-slate-600 font-mono mt-1">
+                生产中 {counts.running || 0} · 等待 {counts.queued || 0} · 完成 {counts.done || 0}
+                {(counts.blocked || 0) + (counts.failed || 0) > 0 && ` · 需处理 ${(counts.blocked || 0) + (counts.failed || 0)}`}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-3 text-[10px] font-black text-slate-500">
+            并发
+            <input type="range" min={1} max={5} step={1} value={concurrency} onChange={e => onConcurrencyChange(Number(e.target.value))} className="w-24 accent-blue-500" />
+            <span className="font-mono text-slate-300 w-3">{concurrency}</span>
+          </label>
+          <button onClick={onTogglePaused} className={`px-4 py-2 border rounded-xl text-[10px] font-black transition-all ${paused ? 'border-amber-500/40 text-amber-400 bg-amber-500/10' : 'border-slate-700 text-slate-300 hover:text-blue-400 hover:border-blue-500/50'}`}>
+            <i className={`fa-solid ${paused ? 'fa-play' : 'fa-pause'} mr-2`}></i>{paused ? '继续队列' : '暂停队列'}
+          </button>
+          {jobs.some(j => j.status === 'done' || j.status === 'cancelled') && (
+            <button onClick={onClearFinished} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-slate-200 transition-all">
+              <i className="fa-solid fa-broom mr-2"></i>清除已结束
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-3 px-2">
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && submit()}
+          placeholder="输入多个热词，用逗号或顿号分隔，或从下方热榜一键入队"
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-2xl px-5 py-3 text-sm outline-none focus:border-blue-500/50 placeholder:text-slate-600"
+        />
+        <button onClick={submit} disabled={!input.trim()} className="px-6 bg-blue-600/10 border border-blue-500/40 rounded-2xl text-xs font-black text-blue-400 hover:bg-blue-600/20 disabled:opacity-40 transition-all">
+          <i className="fa-solid fa-plus mr-2"></i>加入队列
+        </button>
+      </div>
+      {notice && <p className="text-[11px] text-amber-400/80 mt-3 px-2">{notice}</p>}
+      {paused && <p className="text-[11px] text-amber-400/80 mt-3 px-2">队列已暂停：运行中的任务会继续，新任务暂不启动。</p>}
+
+      {jobs.length > 0 && (
+        <div className="mt-8 space-y-3">
+          {jobs.map(job => {
+            const status = STATUS_STYLE[job.status];
+            const waiting = job.status === 'queued' || job.status === 'paused';
+            const finished = job.status === 'done' || job.status === 'cancelled' || job.status === 'failed';
+            const lastLog = job.logs[job.logs.length - 1];
+            return (
+              <div key={job.id} className="p-5 bg-slate-950/60 border border-slate-800 rounded-2xl">
+                <div className="flex items-center gap-4">
+                  <span className={`px-2 py-1 rounded-lg border text-[10px] font-black ${status.style}`}>{status.label}</span>
+                  <button onClick={() => setExpanded(expanded === job.id ? null : job.id)} className="flex-1 min-w-0 text-left">
+                    <p className="text-sm font-bold text-slate-200 truncate">{job.keyword}</p>
+                    <p className="text-[10px] text-slate-600 truncate mt-0.5">
+                      {job.stopRequested
+                        ? `正在${job.stopRequested === 'pause' ? '暂停' : '取消'}「${stepLabel(job)}」...`
+                        : job.error || (job.status === 'running' && stepLabel(job) ? `${stepLabel(job)} · ${lastLog?.msg || ''}` : lastLog?.msg || '等待调度')}
+                    </p>
+                  </button>
+                  <span className="text-[10px] font-mono text-slate-500 w-10 text-right">{Math.round(job.progress * 100)}%</span>
+                  <div className="flex items-center">
+                    {waiting && <IconButton icon="fa-arrow-up" title="上移" onClick={() => onMove(job.id, -1)} />}
+                    {waiting && <IconButton icon="fa-arrow-down" title="下移" onClick={() => onMove(job.id, 1)} />}
+                    {(job.status === 'queued' || job.status === 'running') && (
+                      <IconButton icon="fa-pause" title="暂停" onClick={() => onPause(job)} disabled={!!job.stopRequested} />
+                    )}
+                    {(job.status === 'paused' || job.status === 'failed') && (
+                      <IconButton icon={job.status === 'failed' ? 'fa-rotate-right' : 'fa-play'} title={job.status === 'failed' ? '从检查点重试' : '继续'} onClick={() => onResume(job)} />
+                    )}
+                    {(job.status === 'done' || job.status === 'blocked') && (
+                      <IconButton icon="fa-up-right-from-square" title={job.status === 'blocked' ? '打开节目处理' : '打开节目'} onClick={() => onOpen(job)} />
+                    )}
+                    {(waiting || job.status === 'running') && (
+                      <IconButton icon="fa-xmark" title="取消" onClick={() => onCancel(job)} disabled={job.stopRequested === 'cancel'} tone="hover:text-red-400" />
+                    )}
+                    {(finished || job.status === 'blocked') && (
+                      <IconButton icon="fa-trash" title="移出队列" onClick={() => onRemove(job)} tone="hover:text-red-400" />
+                    )}
+                  </div>
+                </div>
+                <div className="mt-3 h-1 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all duration-500 ${job.status === 'failed' ? 'bg-red-500' : job.status === 'blocked' ? 'bg-amber-500' : job.status === 'done' ? 'bg-green-500' : 'bg-blue-500'}`}
+                    style={{ width: `${job.progress * 100}%` }}
+                  ></div>
+                </div>
+                {expanded === job.id && (
+                  <div className="mt-4 max-h-48 overflow-y-auto custom-scrollbar space-y-1 font-mono text-[11px]">
+                    {job.logs.length === 0
+                      ? <p className="text-slate-600">暂无日志。</p>
+                      : job.logs.map((log, i) => <p key={i} className={LOG_COLOR[log.type]}>{log.msg}</p>)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
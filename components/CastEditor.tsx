@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { CastColor, CastMember } from '../types';
+import { CAST_COLOR_CLASSES, CAST_PRESETS, PREBUILT_VOICES } from '../constants';
+import { validateCast } from '../services/cast';
+
+interface CastEditorProps {
+  cast: CastMember[];
+  onChange: (cast: CastMember[]) => void;
+}
+
+const MAX_SPEAKERS = 4;
+const COLORS = Object.keys(CAST_COLOR_CLASSES) as CastColor[];
+
+/**
+ * 节目阵容配置：说话人名字、角色定位、人设与预置音色
+ */
+const CastEditor: React.FC<CastEditorProps> = ({ cast, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const error = validateCast(cast);
+
+  const update = (index: number, patch: Partial<CastMember>) =>
+    onChange(cast.map((m, i) => i === index ? { ...m, ...patch } : m));
+
+  const addMember = () => {
+    const usedVoices = new Set(cast.map(m => m.voice));
+    onChange([...cast, {
+      name: `嘉宾${cast.length}`,
+      role: 'guest',
+      description: '',
+      persona: '',
+      voice: PREBUILT_VOICES.find(v => !usedVoices.has(v.name))?.name || PREBUILT_VOICES[0].name,
+      color: COLORS[cast.length % COLORS.length]
+    }]);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto mt-6 text-left">
+      <button onClick={() => setOpen(v => !v)} className="flex items-center gap-3 mx-auto text-xs text-slate-500 hover:text-slate-300 transition-all">
+        <i className="fa-solid fa-users"></i>
+        <span className="font-bold">节目阵容：</span>
+        {cast.map(m => <span key={m.name} className={`font-black ${CAST_COLOR_CLASSES[m.color].text}`}>{m.name}</span>)}
+        <i className={`fa-solid ${open ? 'fa-chevron-up' : 'fa-chevron-down'} text-[10px]`}></i>
+      </button>
+
+      {open && (
+        <div className="mt-6 bg-slate-900/60 border border-slate-800 rounded-[2rem] p-8 space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 mr-2">预设</span>
+            {CAST_PRESETS.map(p => (
+              <button key={p.id} onClick={() => onChange(p.members)} className="px-3 py-1.5 border border-slate-700 rounded-lg text-[10px] font-black text-slate-400 hover:text-blue-400 hover:border-blue-500/50 transition-all">
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          {cast.map((m, i) => (
+            <div key={i} className="p-5 bg-slate-950 border border-slate-800 rounded-2xl space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex gap-1">
+                  {COLORS.map(c => (
+                    <button key={c} onClick={() => update(i, { color: c })} className={`w-4 h-4 rounded-full ${CAST_COLOR_CLASSES[c].bg} ${m.color === c ? 'ring-2 ring-slate-400' : ''}`}>
+                      <span className={`block w-2 h-2 m-auto rounded-full bg-current ${CAST_COLOR_CLASSES[c].text}`}></span>
+                    </button>
+                  ))}
+                </div>
+                <input
+                  value={m.name}
+                  onChange={e => update(i, { name: e.target.value })}
+                  className={`w-28 bg-transparent border-b border-slate-800 px-1 py-1 text-sm font-black outline-none ${CAST_COLOR_CLASSES[m.color].text}`}
+                />
+                <select value={m.role} onChange={e => update(i, { role: e.target.value as CastMember['role'] })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-300">
+                  <option value="host">主持</option>
+                  <option value="guest">嘉宾</option>
+                </select>
+                <select value={m.voice} onChange={e => update(i, { voice: e.target.value })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-300">
+                  {PREBUILT_VOICES.map(v => <option key={v.name} value={v.name}>{v.name} · {v.style}</option>)}
+                </select>
+                <div className="flex-1"></div>
+                {cast.length > 1 && (
+                  <button onClick={() => onChange(cast.filter((_, j) => j !== i))} className="text-slate-600 hover:text-red-400"><i className="fa-solid fa-xmark"></i></button>
+                )}
+              </div>
+              <input
+                value={m.description}
+                onChange={e => update(i, { description: e.target.value })}
+                placeholder="角色定位，如：普通听众的代言人，负责追问与澄清"
+                className="w-full bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none placeholder:text-slate-600"
+              />
+              <textarea
+                value={m.persona}
+                onChange={e => update(i, { persona: e.target.value })}
+                placeholder="人设补充（可选）：表达风格、口头禅、关注视角"
+                rows={2}
+                className="w-full bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-xs outline-none placeholder:text-slate-600 resize-y"
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button onClick={addMember} disabled={cast.length >= MAX_SPEAKERS} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400 disabled:opacity-40">
+              <i className="fa-solid fa-plus mr-2"></i>添加说话人
+            </button>
+            {error && <span className="text-[11px] text-red-400">{error}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CastEditor;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Chapter } from '../types';
+import { findActiveChapter } from '../services/chapters';
+
+interface ChapterNavProps {
+  chapters: Chapter[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * 播放器章节导航：点击跳转到章节开头，当前章节高亮
+ */
+const ChapterNav: React.FC<ChapterNavProps> = ({ chapters, currentTime, onSeek }) => {
+  if (chapters.length === 0) return null;
+  const active = findActiveChapter(chapters, currentTime);
+
+  return (
+    <div className="flex flex-wrap gap-2 justify-center md:justify-start">
+      {chapters.map((c, i) => (
+        <button
+          key={i}
+          onClick={() => onSeek(c.start)}
+          title={`${formatTime(c.start)} – ${formatTime(c.end)}`}
+          className={`max-w-[220px] px-3 py-1.5 border rounded-lg text-[10px] font-bold truncate transition-all ${i === active ? 'border-blue-500/50 bg-blue-500/10 text-blue-300' : 'border-slate-800 text-slate-500 hover:text-slate-300 hover:border-slate-600'}`}
+        >
+          <span className="font-mono mr-2 opacity-60">{formatTime(c.start)}</span>{c.title}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ChapterNav;
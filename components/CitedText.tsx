@@ -0,0 +1,45 @@
+import React from 'react';
+import { PodcastContent } from '../types';
+import { sourceId, splitCitedSentences } from '../services/citations';
+
+interface CitedTextProps {
+  text: string;
+  links: NonNullable<PodcastContent['groundingLinks']>;
+}
+
+/**
+ * 带来源脚注的台词：已标注的句子附可点击的来源编号，缺少来源的事实陈述以虚线标出
+ */
+const CitedText: React.FC<CitedTextProps> = ({ text, links }) => (
+  <>
+    {splitCitedSentences(text, links.length).map((sentence, i) => {
+      const unsourced = sentence.factual && sentence.sourceIndices.length === 0;
+      return (
+        <React.Fragment key={i}>
+          <span
+            className={unsourced ? 'underline decoration-dotted decoration-amber-500/70 underline-offset-8' : ''}
+            title={unsourced ? '该事实陈述未标注来源' : undefined}
+          >
+            {sentence.text}
+          </span>
+          {unsourced && <i className="fa-solid fa-circle-question text-xs text-amber-500/80 align-super ml-1" title="该事实陈述未标注来源"></i>}
+          {sentence.sourceIndices.map(index => (
+            <a
+              key={index}
+              href={links[index].uri}
+              target="_blank"
+              rel="noreferrer"
+              onClick={e => e.stopPropagation()}
+              title={links[index].title}
+              className="inline-block align-super ml-1 px-1.5 rounded bg-blue-500/10 text-[10px] font-mono font-black text-blue-400 hover:bg-blue-500/30 leading-4"
+            >
+              {sourceId(index)}
+            </a>
+          ))}
+        </React.Fragment>
+      );
+    })}
+  </>
+);
+
+export default CitedText;
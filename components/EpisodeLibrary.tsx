@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StoredEpisode, deleteEpisode, duplicateEpisode, listEpisodes } from '../services/episodeLibrary';
+import { languagePreset } from '../services/localization';
+
+type DateRange = 'all' | 'today' | 'week' | 'month';
+
+const DATE_RANGES: { id: DateRange; label: string; days: number }[] = [
+  { id: 'all', label: '全部', days: Infinity },
+  { id: 'today', label: '今日', days: 1 },
+  { id: 'week', label: '近7天', days: 7 },
+  { id: 'month', label: '近30天', days: 30 }
+];
+
+interface EpisodeLibraryProps {
+  refreshKey: number;
+  onOpen: (id: string) => void;
+  /** 复制、删除失败时写入执行日志 */
+  onError: (message: string) => void;
+}
+
+const formatDuration = (seconds?: number) =>
+  seconds ? `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}` : '未合成';
+
+const EpisodeLibrary: React.FC<EpisodeLibraryProps> = ({ refreshKey, onOpen, onError }) => {
+  const [episodes, setEpisodes] = useState<StoredEpisode[]>([]);
+  const [query, setQuery] = useState('');
+  const [range, setRange] = useState<DateRange>('all');
+
+  const reload = () => listEpisodes().then(setEpisodes).catch(e => console.warn('节目库读取失败', e));
+
+  useEffect(() => { reload(); }, [refreshKey]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const days = DATE_RANGES.find(r => r.id === range)!.days;
+    const startOfToday = new Date().setHours(0, 0, 0, 0);
+    const since = days === Infinity ? 0 : startOfToday - (days - 1) * 86400000;
+    return episodes.filter(ep =>
+      new Date(ep.createdAt).getTime() >= since &&
+      (!q || ep.keyword.toLowerCase().includes(q) || (ep.title || '').toLowerCase().includes(q))
+    );
+  }, [episodes, query, range]);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateEpisode(id);
+    } catch (e: any) {
+      console.error(e);
+      onError(`节目复制失败: ${e.message || "未知错误"}`);
+    }
+    reload();
+  };
+
+  const handleDelete = async (ep: StoredEpisode) => {
+    if (!window.confirm(`确定删除「${ep.title || ep.keyword}」？该操作不可恢复。`)) return;
+    try {
+      await deleteEpisode(ep.id);
+    } catch (e: any) {
+      console.error(e);
+      onError(`节目删除失败: ${e.message || "未知错误"}`);
+    }
+    reload();
+  };
+
+  return (
+    <div className="bg-slate-900/30 border border-slate-800/80 rounded-[2.5rem] p-8 mt-16">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-8 px-2">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 bg-indigo-500/5 rounded-xl flex items-center justify-center">
+            <i className="fa-solid fa-box-archive text-indigo-400 text-lg"></i>
+          </div>
+          <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">节目库</h4>
+          <span className="text-[10px] font-mono text-slate-600">{filtered.length}/{episodes.length}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-900 border border-slate-800 rounded-xl p-1">
+            {DATE_RANGES.map(r => (
+              <button
+                key={r.id}
+                onClick={() => setRange(r.id)}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-black tracking-widest transition-all ${range === r.id ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center bg-slate-900 border border-slate-800 rounded-xl px-4">
+            <i className="fa-solid fa-magnifying-glass text-[10px] text-slate-600"></i>
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="搜索关键词或标题"
+              className="bg-transparent px-3 py-2 outline-none text-xs placeholder:text-slate-600 w-48"
+            />
+          </div>
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-slate-600 text-center py-10">{episodes.length === 0 ? '暂无历史节目，完成一次生产后会自动保存到这里。' : '没有符合条件的节目。'}</p>
+      ) : (
+        <div className="space-y-3 max-h-[420px] overflow-y-auto custom-scrollbar pr-2">
+          {filtered.map(ep => (
+            <div key={ep.id} className="flex items-center justify-between p-5 bg-slate-900 border border-slate-800/50 rounded-2xl group hover:border-slate-700 transition-all">
+              <button onClick={() => onOpen(ep.id)} className="flex-1 flex items-center gap-5 text-left overflow-hidden">
+                <div className={`w-10 h-10 rounded-xl flex-shrink-0 flex items-center justify-center ${ep.duration ? 'bg-blue-500/10 text-blue-400' : 'bg-slate-800 text-slate-600'}`}>
+                  <i className={`fa-solid ${ep.duration ? 'fa-headphones' : 'fa-hourglass-half'} text-sm`}></i>
+                </div>
+                <div className="overflow-hidden">
+                  <h5 className="text-sm font-bold text-slate-200 group-hover:text-blue-400 truncate">
+                    {ep.variantOf && <span className="mr-2 px-1.5 py-0.5 rounded bg-indigo-500/10 text-[10px] font-black text-indigo-300">{languagePreset(ep.language).short}</span>}
+                    {ep.title || ep.keyword}
+                  </h5>
+                  <p className="text-[10px] text-slate-600 font-mono mt-1">
+                    {ep.keyword} · {new Date(ep.createdAt).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })} · {formatDuration(ep.duration)}
+                    {ep.variants && ep.variants.length > 0 && ` · ${ep.variants.length} 个语言版本`}
+                  </p>
+                </div>
+              </button>
+              <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-all">
+                <button onClick={() => onOpen(ep.id)} title="打开" className="w-8 h-8 rounded-lg text-slate-500 hover:text-blue-400 hover:bg-blue-500/10"><i className="fa-solid fa-folder-open text-xs"></i></button>
+                <button onClick={() => handleDuplicate(ep.id)} title="复制" className="w-8 h-8 rounded-lg text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10"><i className="fa-solid fa-clone text-xs"></i></button>
+                <button onClick={() => handleDelete(ep)} title="删除" className="w-8 h-8 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10"><i className="fa-solid fa-trash text-xs"></i></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EpisodeLibrary;
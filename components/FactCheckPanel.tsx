@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { FactCheckReport, FactKind, FactVerdict } from '../types';
+import { stripCitations } from '../services/citations';
+import { flaggedItems, flaggedLines } from '../services/factCheck';
+
+interface FactCheckPanelProps {
+  report?: FactCheckReport;
+  script: string;
+  busy: boolean;
+  onRerun: () => void;
+  onRewrite: () => void;
+  onStrike: (lines: number[]) => void;
+  onAccept: () => void;
+}
+
+const KIND_LABEL: Record<FactKind, string> = {
+  number: '数字',
+  percent: '百分比',
+  date: '日期',
+  company: '公司',
+  person: '人物'
+};
+
+const VERDICT_STYLE: Record<FactVerdict, { label: string; style: string }> = {
+  supported: { label: '有依据', style: 'bg-green-500/10 text-green-400 border-green-500/30' },
+  unsupported: { label: '缺少依据', style: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  contradicted: { label: '与素材矛盾', style: 'bg-red-500/10 text-red-400 border-red-500/30' }
+};
+
+const FactCheckPanel: React.FC<FactCheckPanelProps> = ({ report, script, busy, onRerun, onRewrite, onStrike, onAccept }) => {
+  const [showSupported, setShowSupported] = useState(false);
+
+  if (!report) {
+    return (
+      <div className="flex items-center justify-between text-left">
+        <p className="text-sm text-slate-500">本期脚本尚未进行事实核查。</p>
+        <button onClick={onRerun} disabled={busy} className="px-4 py-2 border border-slate-700 hover:border-blue-500/50 rounded-xl text-[10px] font-black text-slate-300 hover:text-blue-400 disabled:opacity-40 transition-all">
+          <i className="fa-solid fa-magnifying-glass-chart mr-2"></i>开始核查
+        </button>
+      </div>
+    );
+  }
+
+  const lines = script.split('\n');
+  const flagged = flaggedItems(report);
+  const supported = report.items.filter(i => i.verdict === 'supported');
+  const status = flagged.length === 0
+    ? { label: '核查通过', icon: 'fa-circle-check', style: 'bg-green-500/10 text-green-400 border-green-500/30' }
+    : report.accepted
+      ? { label: '人工确认', icon: 'fa-user-check', style: 'bg-amber-500/10 text-amber-400 border-amber-500/30' }
+      : { label: '待处理', icon: 'fa-hourglass-half', style: 'bg-red-500/10 text-red-400 border-red-500/30' };
+
+  return (
+    <div className="space-y-10 text-left">
+      <div className="flex flex-wrap items-center gap-6">
+        <span className={`px-4 py-2 rounded-xl border text-[11px] font-black tracking-widest flex items-center gap-2 ${status.style}`}>
+          <i className={`fa-solid ${status.icon}`}></i>{status.label}
+        </span>
+        <span className="text-xs text-slate-500 font-mono">
+          核验 {report.items.length} 处 · 有依据 {supported.length} · 缺少依据 {flagged.filter(i => i.verdict === 'unsupported').length} · 矛盾 {flagged.filter(i => i.verdict === 'contradicted').length}
+        </span>
+        <div className="flex-1"></div>
+        <button onClick={onRerun} disabled={busy} className="px-4 py-2 border border-slate-700 hover:border-blue-500/50 rounded-xl text-[10px] font-black text-slate-300 hover:text-blue-400 disabled:opacity-40 transition-all">
+          <i className="fa-solid fa-rotate-right mr-2"></i>重新核查
+        </button>
+      </div>
+
+      {flagged.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <h5 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 mr-auto">存疑台词</h5>
+            <button onClick={onRewrite} disabled={busy} className="px-4 py-2 bg-blue-600/10 border border-blue-500/40 rounded-xl text-[10px] font-black text-blue-400 hover:bg-blue-600/20 disabled:opacity-40 transition-all">
+              <i className="fa-solid fa-wand-magic-sparkles mr-2"></i>按素材自动改写
+            </button>
+            <button onClick={() => onStrike(flaggedLines(report))} disabled={busy} className="px-4 py-2 bg-red-500/10 border border-red-500/40 rounded-xl text-[10px] font-black text-red-400 hover:bg-red-500/20 disabled:opacity-40 transition-all">
+              <i className="fa-solid fa-strikethrough mr-2"></i>删除全部存疑台词
+            </button>
+            {!report.accepted && (
+              <button onClick={onAccept} disabled={busy} className="px-4 py-2 bg-amber-500/10 border border-amber-500/40 rounded-xl text-[10px] font-black text-amber-400 hover:bg-amber-500/20 disabled:opacity-40 transition-all">
+                <i className="fa-solid fa-user-check mr-2"></i>人工确认并继续
+              </button>
+            )}
+          </div>
+          {flaggedLines(report).map(line => (
+            <div key={line} className="p-6 bg-slate-950 border border-slate-800 rounded-2xl">
+              <div className="flex items-start gap-4">
+                <p className="flex-1 text-sm text-slate-300 leading-relaxed">
+                  <span className="text-slate-500 font-black mr-2">#{line + 1}</span>{stripCitations(lines[line] || '')}
+                </p>
+                <button onClick={() => onStrike([line])} disabled={busy} title="删除此行" className="text-slate-600 hover:text-red-400 disabled:opacity-40">
+                  <i className="fa-solid fa-trash text-xs"></i>
+                </button>
+              </div>
+              <div className="mt-4 space-y-2">
+                {flagged.filter(i => i.line === line).map((item, i) => (
+                  <div key={i} className="flex flex-wrap items-center gap-2 text-[11px]">
+                    <span className={`px-2 py-1 rounded-lg border font-bold ${VERDICT_STYLE[item.verdict].style}`}>{VERDICT_STYLE[item.verdict].label}</span>
+                    <span className="text-slate-400">{KIND_LABEL[item.kind]}「{item.value}」</span>
+                    {item.evidence && <span className="text-slate-600">{item.evidence}</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.rewrites.length > 0 && (
+        <div className="space-y-4">
+          <h5 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">已按素材改写</h5>
+          {report.rewrites.map((r, i) => (
+            <div key={i} className="p-6 bg-slate-950 border border-slate-800 rounded-2xl space-y-3 text-sm leading-relaxed">
+              <p className="text-red-400/70 line-through">{r.before}</p>
+              <p className="text-green-400">{r.after}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.struck.length > 0 && (
+        <div className="space-y-3">
+          <h5 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">已删除台词</h5>
+          {report.struck.map((line, i) => (
+            <p key={i} className="text-sm text-slate-600 line-through leading-relaxed">{stripCitations(line)}</p>
+          ))}
+        </div>
+      )}
+
+      {supported.length > 0 && (
+        <div className="border-t border-slate-800 pt-8">
+          <button onClick={() => setShowSupported(v => !v)} className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 hover:text-slate-300 flex items-center gap-2">
+            <i className={`fa-solid ${showSupported ? 'fa-chevron-down' : 'fa-chevron-right'}`}></i> 有依据的提及（{supported.length}）
+          </button>
+          {showSupported && (
+            <div className="mt-6 space-y-2">
+              {supported.map((item, i) => (
+                <p key={i} className="text-[11px] text-slate-400">
+                  <span className="text-slate-600 font-mono mr-2">#{item.line + 1}</span>{KIND_LABEL[item.kind]}「{item.value}」
+                  <span className="text-slate-600 ml-2">{item.evidence}</span>
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {report.items.length === 0 && (
+        <p className="text-sm text-slate-500">脚本中没有需要核查的数字、日期或名称。</p>
+      )}
+    </div>
+  );
+};
+
+export default FactCheckPanel;
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EpisodeLanguage, FeedSettings } from '../types';
+import { LANGUAGES, PODCAST_CATEGORIES } from '../constants';
+import { StoredEpisode, listEpisodes } from '../services/episodeLibrary';
+import { FeedProgress, buildFeedPackage, feedUrl, loadFeedSettings, saveFeedSettings, validateFeedSettings } from '../services/feed';
+import { downloadBlob } from '../services/audioExport';
+
+interface FeedPublisherProps {
+  refreshKey: number;
+  getAudioContext: () => BaseAudioContext;
+}
+
+const FIELDS: { key: 'title' | 'author' | 'email' | 'baseUrl' | 'link' | 'artwork'; label: string; placeholder: string }[] = [
+  { key: 'title', label: '节目名称', placeholder: 'FinancePod 财经深读' },
+  { key: 'author', label: '作者', placeholder: '显示在播客平台上的作者名' },
+  { key: 'email', label: '联系邮箱', placeholder: '用于在播客平台认领节目' },
+  { key: 'baseUrl', label: '托管地址', placeholder: 'https://example.com/podcast' },
+  { key: 'link', label: '节目主页', placeholder: '缺省时使用托管地址' },
+  { key: 'artwork', label: '封面图', placeholder: 'https://example.com/cover.jpg（3000×3000）' }
+];
+
+const inputClass = 'w-full bg-slate-900 border border-slate-800 rounded-xl px-4 py-2 text-xs text-slate-200 outline-none focus:border-blue-500/50 placeholder:text-slate-600';
+
+/**
+ * 订阅源发布：配置频道信息，勾选节目库中已合成的节目，打包 feed.xml 与 MP3 音频
+ */
+const FeedPublisher: React.FC<FeedPublisherProps> = ({ refreshKey, getAudioContext }) => {
+  const [settings, setSettings] = useState<FeedSettings>(loadFeedSettings);
+  const [episodes, setEpisodes] = useState<StoredEpisode[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState(false);
+  const [progress, setProgress] = useState<FeedProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listEpisodes().then(setEpisodes).catch(e => console.warn('节目库读取失败', e));
+  }, [refreshKey]);
+
+  const update = (patch: Partial<FeedSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveFeedSettings(next);
+  };
+
+  const candidates = useMemo(
+    () => episodes.filter(ep => ep.duration && (ep.language || 'zh') === settings.language),
+    [episodes, settings.language]
+  );
+  const selected = candidates.filter(ep => !excluded.has(ep.id));
+  const settingsError = validateFeedSettings(settings);
+  const subcategories = PODCAST_CATEGORIES.find(c => c.name === settings.category)?.subcategories || [];
+  const building = progress !== null;
+
+  const toggle = (id: string) => setExcluded(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const handleBuild = async () => {
+    setError(null);
+    setProgress({ done: 0, total: selected.length });
+    try {
+      const blob = await buildFeedPackage(settings, selected.map(ep => ep.id), getAudioContext(), setProgress);
+      downloadBlob(blob, `podcast-feed_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e: any) {
+      setError(e.message || '订阅源打包失败');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/30 border border-slate-800/80 rounded-[2.5rem] p-8 mt-16">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 px-2">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 bg-orange-500/5 rounded-xl flex items-center justify-center">
+            <i className="fa-solid fa-square-rss text-orange-400 text-lg"></i>
+          </div>
+          <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">订阅源发布</h4>
+          <span className="text-[10px] font-mono text-slate-600">{selected.length}/{candidates.length}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => setExpanded(v => !v)} className="px-4 py-2 border border-slate-800 rounded-xl text-[10px] font-black text-slate-400 hover:text-slate-200 hover:border-slate-600 transition-all">
+            <i className={`fa-solid ${expanded ? 'fa-chevron-up' : 'fa-sliders'} mr-2`}></i>频道设置
+          </button>
+          <button
+            onClick={handleBuild}
+            disabled={building || !!settingsError || selected.length === 0}
+            title={settingsError || undefined}
+            className="px-5 py-2 bg-orange-600/10 border border-orange-500/40 rounded-xl text-[10px] font-black text-orange-300 hover:bg-orange-600/20 disabled:opacity-40 transition-all"
+          >
+            <i className={`fa-solid ${building ? 'fa-spinner animate-spin' : 'fa-file-zipper'} mr-2`}></i>
+            {building ? `打包中 ${progress!.done}/${progress!.total}` : '生成订阅源并下载'}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-8 px-2">
+          {FIELDS.map(f => (
+            <label key={f.key} className="space-y-2">
+              <span className="text-[10px] font-black text-slate-500 tracking-widest">{f.label}</span>
+              <input value={settings[f.key]} onChange={e => update({ [f.key]: e.target.value })} placeholder={f.placeholder} className={inputClass} />
+            </label>
+          ))}
+          <label className="space-y-2 md:col-span-2">
+            <span className="text-[10px] font-black text-slate-500 tracking-widest">节目简介</span>
+            <textarea value={settings.description} onChange={e => update({ description: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+          </label>
+          <label className="space-y-2">
+            <span className="text-[10px] font-black text-slate-500 tracking-widest">分类</span>
+            <div className="flex gap-2">
+              <select value={settings.category} onChange={e => update({ category: e.target.value, subcategory: PODCAST_CATEGORIES.find(c => c.name === e.target.value)?.subcategories[0] || '' })} className={inputClass}>
+                {PODCAST_CATEGORIES.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+              </select>
+              {subcategories.length > 0 && (
+                <select value={settings.subcategory} onChange={e => update({ subcategory: e.target.value })} className={inputClass}>
+                  {subcategories.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              )}
+            </div>
+          </label>
+          <div className="flex items-end gap-4">
+            <label className="space-y-2 flex-1">
+              <span className="text-[10px] font-black text-slate-500 tracking-widest">节目语言</span>
+              <select value={settings.language} onChange={e => update({ language: e.target.value as EpisodeLanguage })} className={inputClass}>
+                {LANGUAGES.map(l => <option key={l.key} value={l.key}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 pb-2 text-[11px] text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={settings.explicit} onChange={e => update({ explicit: e.target.checked })} />
+              含敏感内容（explicit）
+            </label>
+          </div>
+          {!settingsError && <p className="md:col-span-2 text-[10px] font-mono text-slate-600">订阅地址：{feedUrl(settings)}</p>}
+        </div>
+      )}
+
+      {(settingsError || error) && (
+        <p className={`text-[11px] mt-4 px-2 ${error ? 'text-red-400' : 'text-amber-400/80'}`}>{error || settingsError}</p>
+      )}
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-slate-600 text-center py-8">节目库中暂无已合成的「{LANGUAGES.find(l => l.key === settings.language)?.label}」节目。</p>
+      ) : (
+        <div className="space-y-2 mt-6 max-h-[280px] overflow-y-auto custom-scrollbar pr-2">
+          {candidates.map(ep => (
+            <label key={ep.id} className="flex items-center gap-4 px-5 py-3 bg-slate-900 border border-slate-800/50 rounded-xl cursor-pointer hover:border-slate-700 transition-all">
+              <input type="checkbox" checked={!excluded.has(ep.id)} onChange={() => toggle(ep.id)} disabled={building} />
+              <span className="flex-1 text-xs font-bold text-slate-300 truncate">{ep.title || ep.keyword}</span>
+              <span className="text-[10px] font-mono text-slate-600">{ep.createdAt.slice(0, 10)}</span>
+            </label>
+          ))}
+        </div>
+      )}
+      <p className="text-[10px] text-slate-600 mt-4 px-2">压缩包内含 feed.xml 与 episodes/ 目录，解压后整体上传到托管地址下即可在播客平台提交订阅地址。</p>
+    </div>
+  );
+};
+
+export default FeedPublisher;
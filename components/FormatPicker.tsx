@@ -0,0 +1,41 @@
+import React from 'react';
+import { CastMember, EpisodeFormat } from '../types';
+import { FORMAT_PRESETS } from '../constants';
+import { formatPreset, validateFormatCast } from '../services/formats';
+
+interface FormatPickerProps {
+  format: EpisodeFormat;
+  cast: CastMember[];
+  onChange: (format: EpisodeFormat) => void;
+}
+
+/**
+ * 节目形态选择：时长、大纲深度与说话人布局随形态变化
+ */
+const FormatPicker: React.FC<FormatPickerProps> = ({ format, cast, onChange }) => {
+  const active = formatPreset(format);
+  const castError = validateFormatCast(active, cast);
+
+  return (
+    <div className="max-w-3xl mx-auto mt-6">
+      <div className="flex flex-wrap justify-center gap-2">
+        {FORMAT_PRESETS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => onChange(p.id)}
+            title={p.description}
+            className={`px-4 py-2 border rounded-xl text-[11px] font-black transition-all ${p.id === format ? 'border-blue-500/50 bg-blue-500/10 text-blue-400' : 'border-slate-800 text-slate-500 hover:text-slate-300 hover:border-slate-600'}`}
+          >
+            <i className={`fa-solid ${p.icon} mr-2`}></i>{p.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-600 mt-3">
+        {active.description} · 约 {active.chars.join('–')} 字
+      </p>
+      {castError && <p className="text-[11px] text-amber-400/80 mt-1">{castError}请调整节目阵容。</p>}
+    </div>
+  );
+};
+
+export default FormatPicker;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { EpisodeLanguage, PodcastContent } from '../types';
+import { LANGUAGES } from '../constants';
+import { glossaryFor, languagePreset } from '../services/localization';
+
+const VARIANT_LANGUAGES = LANGUAGES.filter(l => l.key !== 'zh');
+
+interface VariantLanguagePickerProps {
+  languages: EpisodeLanguage[];
+  onChange: (languages: EpisodeLanguage[]) => void;
+}
+
+/**
+ * 生产完成后自动追加生成的语言版本
+ */
+export const VariantLanguagePicker: React.FC<VariantLanguagePickerProps> = ({ languages, onChange }) => (
+  <div className="flex items-center justify-center gap-3 mt-3 text-xs text-slate-500">
+    <i className="fa-solid fa-language"></i>
+    <span className="font-bold">同步生成语言版本：</span>
+    {VARIANT_LANGUAGES.map(l => {
+      const active = languages.includes(l.key);
+      return (
+        <button
+          key={l.key}
+          onClick={() => onChange(active ? languages.filter(x => x !== l.key) : [...languages, l.key])}
+          className={`px-3 py-1 border rounded-lg text-[10px] font-black transition-all ${active ? 'border-indigo-500/50 bg-indigo-500/10 text-indigo-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+        >
+          {active && <i className="fa-solid fa-check mr-1"></i>}{l.label}
+        </button>
+      );
+    })}
+  </div>
+);
+
+interface LanguageVariantsProps {
+  content: PodcastContent;
+  /** 原版已跑完全部步骤，可以生成语言版本 */
+  ready: boolean;
+  busy: boolean;
+  onProduce: (language: EpisodeLanguage) => void;
+  onOpen: (id: string) => void;
+}
+
+/**
+ * 语言版本：原版节目列出各语言版本的生成状态，语言版本指回原版
+ */
+const LanguageVariants: React.FC<LanguageVariantsProps> = ({ content, ready, busy, onProduce, onOpen }) => {
+  if (content.variantOf) {
+    return (
+      <div className="flex items-center justify-between p-8 bg-slate-950/50 border border-slate-800 rounded-[2rem]">
+        <div>
+          <p className="text-sm font-black text-slate-200">本期为「{languagePreset(content.language).label}」版本</p>
+          <p className="text-xs text-slate-500 mt-2">脚本译自原版节目，事实核查与合规审校以原版为准；修改内容请在原版中重新生成该语言版本。</p>
+        </div>
+        <button onClick={() => onOpen(content.variantOf!)} disabled={busy} className="px-5 py-3 border border-slate-700 rounded-xl text-xs font-black text-slate-300 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40 transition-all">
+          <i className="fa-solid fa-arrow-left mr-2"></i>打开原版
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!ready && <p className="text-sm text-slate-500">原版节目完成全部生产步骤后才能生成语言版本。</p>}
+      {VARIANT_LANGUAGES.map(l => {
+        const variant = content.variants?.find(v => v.language === l.key);
+        const terms = glossaryFor(content.finalScript || '', l.key);
+        return (
+          <div key={l.key} className="flex items-center gap-6 p-6 bg-slate-950/50 border border-slate-800 rounded-2xl">
+            <span className="w-12 h-12 rounded-xl bg-indigo-500/10 text-indigo-300 flex items-center justify-center text-sm font-black">{l.short}</span>
+            <div className="flex-1">
+              <p className="text-sm font-black text-slate-200">{l.label}</p>
+              <p className="text-[11px] text-slate-500 mt-1">
+                {variant ? '已生成' : '未生成'} · 说话人 {(content.cast || []).map(m => l.speakerLabels[m.name] || m.name).join(' / ')}
+                {terms.length > 0 && ` · 术语表命中 ${terms.length} 条`}
+              </p>
+            </div>
+            {variant && (
+              <button onClick={() => onOpen(variant.episodeId)} disabled={busy} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-300 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40 transition-all">
+                <i className="fa-solid fa-up-right-from-square mr-2"></i>打开
+              </button>
+            )}
+            <button onClick={() => onProduce(l.key)} disabled={busy || !ready} className="px-4 py-2 bg-indigo-600/10 border border-indigo-500/40 rounded-xl text-[10px] font-black text-indigo-300 hover:bg-indigo-600/20 disabled:opacity-40 transition-all">
+              <i className={`fa-solid ${busy ? 'fa-spinner animate-spin' : variant ? 'fa-rotate-right' : 'fa-language'} mr-2`}></i>{variant ? '重新生成' : '生成'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LanguageVariants;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { AudioAssetRef, MasteringSettings as Settings } from '../types';
+import { DEFAULT_MASTERING_SETTINGS } from '../constants';
+import { importAudioAsset } from '../services/mastering';
+
+interface MasteringFormProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+const FIELDS: { key: 'targetLufs' | 'crossfadeMs' | 'speakerPauseMs' | 'bedLevelDb' | 'duckDb'; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: 'targetLufs', label: '目标响度', unit: 'LUFS', min: -24, max: -12, step: 1 },
+  { key: 'crossfadeMs', label: '接缝交叉淡化', unit: 'ms', min: 0, max: 200, step: 10 },
+  { key: 'speakerPauseMs', label: '轮换停顿', unit: 'ms', min: 0, max: 1500, step: 50 },
+  { key: 'bedLevelDb', label: '背景音乐电平', unit: 'dB', min: -30, max: -6, step: 1 },
+  { key: 'duckDb', label: '人声时压低', unit: 'dB', min: -30, max: 0, step: 1 }
+];
+
+const ASSETS: { key: 'intro' | 'outro' | 'musicBed'; label: string; icon: string }[] = [
+  { key: 'intro', label: '片头', icon: 'fa-play' },
+  { key: 'outro', label: '片尾', icon: 'fa-stop' },
+  { key: 'musicBed', label: '背景音乐', icon: 'fa-music' }
+];
+
+/**
+ * 母带处理参数与片头、片尾、背景音乐素材
+ */
+export const MasteringForm: React.FC<MasteringFormProps> = ({ settings, onChange }) => {
+  const [uploading, setUploading] = useState<string | null>(null);
+
+  const upload = async (key: typeof ASSETS[number]['key'], file?: File) => {
+    if (!file) return;
+    setUploading(key);
+    try {
+      const asset: AudioAssetRef = await importAudioAsset(file);
+      onChange({ ...settings, [key]: asset });
+    } catch (e: any) {
+      window.alert(`音频素材导入失败: ${e.message || '无法解码该文件'}`);
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <label className="flex items-center gap-3 text-xs font-bold text-slate-300 cursor-pointer">
+        <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} className="accent-blue-500" />
+        启用母带处理
+      </label>
+
+      <div className={`space-y-4 ${settings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+        {FIELDS.map(f => (
+          <div key={f.key} className="flex items-center gap-4">
+            <span className="w-28 text-xs font-bold text-slate-300">{f.label}</span>
+            <input
+              type="range"
+              min={f.min}
+              max={f.max}
+              step={f.step}
+              value={settings[f.key]}
+              onChange={e => onChange({ ...settings, [f.key]: Number(e.target.value) })}
+              className="flex-1 accent-blue-500"
+            />
+            <span className="w-20 text-right text-xs font-mono text-slate-400">{settings[f.key]} {f.unit}</span>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 pt-2">
+          {ASSETS.map(a => {
+            const asset = settings[a.key];
+            return (
+              <div key={a.key} className="p-4 bg-slate-950 border border-slate-800 rounded-2xl space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500"><i className={`fa-solid ${a.icon} mr-2`}></i>{a.label}</p>
+                {asset ? (
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-xs text-slate-300 truncate" title={asset.name}>{asset.name}</span>
+                    <span className="text-[10px] font-mono text-slate-600">{asset.duration.toFixed(1)}s</span>
+                    <button onClick={() => onChange({ ...settings, [a.key]: undefined })} className="text-slate-600 hover:text-red-400"><i className="fa-solid fa-xmark"></i></button>
+                  </div>
+                ) : (
+                  <label className="block text-xs text-slate-500 hover:text-blue-400 cursor-pointer">
+                    <i className={`fa-solid ${uploading === a.key ? 'fa-spinner animate-spin' : 'fa-upload'} mr-2`}></i>
+                    {uploading === a.key ? '导入中...' : '选择音频文件'}
+                    <input type="file" accept="audio/*" className="hidden" onChange={e => upload(a.key, e.target.files?.[0])} />
+                  </label>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={() => onChange(DEFAULT_MASTERING_SETTINGS)} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400">
+          <i className="fa-solid fa-rotate-left mr-2"></i>恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 首页的母带默认设置，新节目启动时作为其母带设置
+ */
+const MasteringSettings: React.FC<MasteringFormProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const assets = ASSETS.filter(a => settings[a.key]).map(a => a.label);
+
+  return (
+    <div className="max-w-3xl mx-auto mt-3 text-left">
+      <button onClick={() => setOpen(v => !v)} className="flex items-center gap-3 mx-auto text-xs text-slate-500 hover:text-slate-300 transition-all">
+        <i className="fa-solid fa-wave-square"></i>
+        <span className="font-bold">母带处理：</span>
+        <span className="font-mono">
+          {settings.enabled ? `${settings.targetLufs} LUFS${assets.length > 0 ? ` · ${assets.join('/')}` : ''}` : '未启用'}
+        </span>
+        <i className={`fa-solid ${open ? 'fa-chevron-up' : 'fa-chevron-down'} text-[10px]`}></i>
+      </button>
+
+      {open && (
+        <div className="mt-6 bg-slate-900/60 border border-slate-800 rounded-[2rem] p-8">
+          <MasteringForm settings={settings} onChange={onChange} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MasteringSettings;
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { AlternativeExplanation, MaterialPool, TimelineEvent } from '../types';
+import { MATERIAL_FIELD_LABELS, MATERIAL_SCHEMAS, parseMaterialPool } from '../services/materials';
+
+interface MaterialPoolViewProps {
+  materials?: string;
+}
+
+const FIELD_META: Record<string, { icon: string; tone: string }> = {
+  hook_pack: { icon: 'fa-quote-left', tone: 'text-blue-400' },
+  one_sentence_identity: { icon: 'fa-id-card', tone: 'text-blue-400' },
+  why_people_talk_now: { icon: 'fa-fire', tone: 'text-orange-400' },
+  timeline: { icon: 'fa-timeline', tone: 'text-indigo-400' },
+  original_business_model: { icon: 'fa-industry', tone: 'text-slate-300' },
+  core_tensions: { icon: 'fa-scale-unbalanced', tone: 'text-amber-400' },
+  validation_metrics: { icon: 'fa-chart-line', tone: 'text-emerald-400' },
+  risks_and_uncertainty: { icon: 'fa-triangle-exclamation', tone: 'text-rose-400' },
+  definition: { icon: 'fa-vector-square', tone: 'text-blue-400' },
+  profit_pool_and_orders: { icon: 'fa-coins', tone: 'text-amber-400' },
+  value_migration: { icon: 'fa-route', tone: 'text-indigo-400' },
+  alternative_explanations: { icon: 'fa-eye', tone: 'text-slate-300' },
+  event_core: { icon: 'fa-bullseye', tone: 'text-blue-400' },
+  why_it_matters: { icon: 'fa-fire', tone: 'text-orange-400' },
+  stakeholders: { icon: 'fa-people-group', tone: 'text-indigo-400' },
+  historical_precedent: { icon: 'fa-clock-rotate-left', tone: 'text-slate-300' },
+  structural_reasons: { icon: 'fa-layer-group', tone: 'text-amber-400' },
+  chain_reaction: { icon: 'fa-link', tone: 'text-rose-400' },
+  observation_window: { icon: 'fa-binoculars', tone: 'text-emerald-400' }
+};
+
+const Card: React.FC<{ field: string; wide?: boolean; children: React.ReactNode }> = ({ field, wide, children }) => (
+  <div className={`p-8 bg-slate-950/50 border border-slate-800 rounded-[2rem] ${wide ? 'md:col-span-2' : ''}`}>
+    <h5 className={`text-[10px] font-black uppercase tracking-[0.2em] mb-5 ${FIELD_META[field]?.tone || 'text-slate-400'}`}>
+      <i className={`fa-solid ${FIELD_META[field]?.icon || 'fa-circle'} mr-2`}></i>{MATERIAL_FIELD_LABELS[field] || field}
+    </h5>
+    {children}
+  </div>
+);
+
+const Empty = () => <p className="text-xs text-slate-600">暂无可验证信息</p>;
+
+function renderField(field: string, kind: string, value: unknown) {
+  if (kind === 'text') {
+    return value ? <p className="text-sm text-slate-300 leading-relaxed">{value as string}</p> : <Empty />;
+  }
+  if (kind === 'list') {
+    const items = value as string[];
+    return items.length === 0 ? <Empty /> : (
+      <ul className="space-y-3">
+        {items.map((item, i) => (
+          <li key={i} className="flex gap-3 text-sm text-slate-300 leading-relaxed">
+            <span className={`mt-2 w-1.5 h-1.5 rounded-full flex-shrink-0 bg-current ${FIELD_META[field]?.tone || 'text-slate-500'}`}></span>
+            <span>{item}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  if (kind === 'timeline') {
+    const events = value as TimelineEvent[];
+    return events.length === 0 ? <Empty /> : (
+      <ol className="relative border-l border-slate-800 ml-2 space-y-5">
+        {events.map((e, i) => (
+          <li key={i} className="pl-6 relative">
+            <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-indigo-500"></span>
+            <p className="text-[10px] font-mono font-black text-indigo-400">{e.date || '时间未注明'}</p>
+            <p className="text-sm text-slate-300 mt-1">{e.event}</p>
+          </li>
+        ))}
+      </ol>
+    );
+  }
+  const angles = value as AlternativeExplanation[];
+  return angles.length === 0 ? <Empty /> : (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {angles.map((a, i) => (
+        <div key={i} className="p-5 bg-slate-900 border border-slate-800 rounded-2xl">
+          <p className="text-xs font-black text-slate-200">{a.angle || '其他视角'}</p>
+          <p className="text-sm text-slate-400 mt-2 leading-relaxed">{a.core_fact_or_conflict}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 素材总结：按素材池类型以结构化卡片展示
+ */
+const MaterialPoolView: React.FC<MaterialPoolViewProps> = ({ materials }) => {
+  const [showSupplement, setShowSupplement] = useState(false);
+  const parsed = useMemo(() => {
+    if (!materials) return null;
+    try {
+      return parseMaterialPool(materials).pool;
+    } catch {
+      return null;
+    }
+  }, [materials]);
+
+  if (!materials) return <p className="text-sm text-slate-600 text-center py-10">暂无素材。</p>;
+  if (!parsed) {
+    return (
+      <div className="bg-black/40 p-12 rounded-[3rem] border border-slate-800/60 text-blue-400 font-mono text-xs overflow-x-auto">
+        <p className="text-slate-500 mb-6 font-sans">素材池结构无法识别，以下为原始内容：</p>
+        <pre className="whitespace-pre-wrap">{materials}</pre>
+      </div>
+    );
+  }
+
+  const pool: MaterialPool = parsed;
+  const schema = MATERIAL_SCHEMAS[pool.hotword_type];
+  const fields = pool.material_pool as Record<string, unknown>;
+  const subtype = (pool as unknown as Record<string, string>)[schema.subtype];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <span className="px-3 py-1 rounded-lg bg-blue-500/10 text-blue-400 text-[10px] font-black tracking-widest">{pool.hotword_type}</span>
+        {subtype && <span className="px-3 py-1 rounded-lg bg-slate-800 text-slate-400 text-[10px] font-black tracking-widest">{subtype}</span>}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {Object.entries(schema.fields).map(([field, kind]) => (
+          <Card key={field} field={field} wide={kind === 'timeline' || kind === 'angles'}>
+            {renderField(field, kind, fields[field])}
+          </Card>
+        ))}
+      </div>
+      {pool.material_pool.deep_insights_supplement && (
+        <div className="p-8 bg-slate-950/50 border border-slate-800 rounded-[2rem]">
+          <button onClick={() => setShowSupplement(v => !v)} className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400 hover:text-slate-200">
+            <i className="fa-solid fa-photo-film mr-2"></i>音视频深度抽取补充
+            <i className={`fa-solid ${showSupplement ? 'fa-chevron-up' : 'fa-chevron-down'} ml-2`}></i>
+          </button>
+          {showSupplement && <p className="text-sm text-slate-400 leading-relaxed whitespace-pre-wrap mt-5">{pool.material_pool.deep_insights_supplement}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaterialPoolView;
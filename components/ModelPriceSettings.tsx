@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ModelPrice } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+
+interface ModelPriceSettingsProps {
+  prices: ModelPrice[];
+  onChange: (prices: ModelPrice[]) => void;
+}
+
+/**
+ * 模型价目表：每百万 token 的美元单价，思考 token 按输出单价计费
+ */
+const ModelPriceSettings: React.FC<ModelPriceSettingsProps> = ({ prices, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const update = (index: number, patch: Partial<ModelPrice>) =>
+    onChange(prices.map((p, i) => i === index ? { ...p, ...patch } : p));
+  const price = (value: string) => Math.max(0, Number(value) || 0);
+
+  return (
+    <div className="max-w-3xl mx-auto mt-3 text-left">
+      <button onClick={() => setOpen(v => !v)} className="flex items-center gap-3 mx-auto text-xs text-slate-500 hover:text-slate-300 transition-all">
+        <i className="fa-solid fa-coins"></i>
+        <span className="font-bold">模型价目：</span>
+        <span className="font-mono">{prices.length} 个模型</span>
+        <i className={`fa-solid ${open ? 'fa-chevron-up' : 'fa-chevron-down'} text-[10px]`}></i>
+      </button>
+
+      {open && (
+        <div className="mt-6 bg-slate-900/60 border border-slate-800 rounded-[2rem] p-8 space-y-4">
+          <p className="text-[10px] text-slate-600">单位为美元 / 百万 tokens，思考 tokens 按输出单价计费。未列出的模型只统计用量，不计费用。</p>
+          <div className="flex items-center gap-4 text-[10px] font-black text-slate-500">
+            <span className="flex-1">模型</span>
+            <span className="w-24">输入</span>
+            <span className="w-24">输出</span>
+            <span className="w-6"></span>
+          </div>
+          {prices.map((p, i) => (
+            <div key={i} className="flex items-center gap-4">
+              <input
+                value={p.model}
+                onChange={e => update(i, { model: e.target.value.trim() })}
+                placeholder="模型名称"
+                className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-xs font-mono text-slate-300 outline-none focus:border-blue-500"
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={p.input}
+                onChange={e => update(i, { input: price(e.target.value) })}
+                className="w-24 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 outline-none focus:border-blue-500"
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={p.output}
+                onChange={e => update(i, { output: price(e.target.value) })}
+                className="w-24 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs font-mono text-slate-300 outline-none focus:border-blue-500"
+              />
+              <button onClick={() => onChange(prices.filter((_, j) => j !== i))} className="w-6 text-slate-600 hover:text-red-400" title="删除">
+                <i className="fa-solid fa-xmark"></i>
+              </button>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <button onClick={() => onChange([...prices, { model: '', input: 0, output: 0 }])} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400">
+              <i className="fa-solid fa-plus mr-2"></i>添加模型
+            </button>
+            <button onClick={() => onChange(DEFAULT_MODEL_PRICES)} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400">
+              <i className="fa-solid fa-rotate-left mr-2"></i>恢复默认
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelPriceSettings;
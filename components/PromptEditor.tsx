@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PromptId, PromptRegistry } from '../types';
+import { PROMPT_DEFINITIONS } from '../constants';
+import {
+  BUILTIN_PROMPT_VERSION, activatePromptVersion, activePrompt, addPromptVersion, exportPrompts, importPrompts,
+  previewTemplate, promptDefinition, promptVersionLabel, templateVariables, validateTemplate
+} from '../services/prompts';
+import { downloadBlob } from '../services/audioExport';
+
+interface PromptEditorProps {
+  registry: PromptRegistry;
+  onChange: (registry: PromptRegistry) => void;
+}
+
+/**
+ * 提示词模板：按步骤编辑、预览与校验变量，保存为新版本；支持切换历史版本与 JSON 导入导出
+ */
+const PromptEditor: React.FC<PromptEditorProps> = ({ registry, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [id, setId] = useState<PromptId>(PROMPT_DEFINITIONS[0].id);
+  const [viewing, setViewing] = useState(registry[id].active);
+  const [text, setText] = useState('');
+  const [note, setNote] = useState('');
+  const [preview, setPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const def = promptDefinition(id);
+  const history = registry[id];
+  const versionTemplate = (version: number) =>
+    history.versions.find(v => v.version === version)?.template ?? def.template;
+
+  // 切换模板或版本时载入对应的模板正文
+  useEffect(() => {
+    setText(versionTemplate(viewing));
+    setNote('');
+  }, [id, viewing]);
+
+  const selectPrompt = (next: PromptId) => {
+    setId(next);
+    setViewing(registry[next].active);
+    setPreview(false);
+  };
+
+  const error = validateTemplate(id, text);
+  const used = templateVariables(text);
+  const dirty = text !== versionTemplate(viewing);
+  const customized = PROMPT_DEFINITIONS.filter(d => registry[d.id].active !== BUILTIN_PROMPT_VERSION).length;
+
+  const insertVariable = (name: string) => {
+    const el = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!el) return setText(text + token);
+    const { selectionStart, selectionEnd } = el;
+    setText(text.slice(0, selectionStart) + token + text.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const save = () => {
+    if (error || !dirty) return;
+    const next = addPromptVersion(registry, id, text, note);
+    onChange(next);
+    setViewing(next[id].active);
+  };
+
+  const activate = () => onChange(activatePromptVersion(registry, id, viewing));
+
+  const importFile = async (file?: File) => {
+    if (!file) return;
+    try {
+      const result = importPrompts(await file.text(), registry);
+      onChange(result.registry);
+      setViewing(result.registry[id].active);
+      window.alert(result.imported.length > 0
+        ? `已导入 ${result.imported.map(i => promptDefinition(i).label).join('、')} 模板，并设为当前版本。`
+        : '导入的模板与当前版本一致，无需更新。');
+    } catch (e: any) {
+      window.alert(`模板导入失败：${e.message || '未知错误'}`);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto mt-3 text-left">
+      <button onClick={() => setOpen(v => !v)} className="flex items-center gap-3 mx-auto text-xs text-slate-500 hover:text-slate-300 transition-all">
+        <i className="fa-solid fa-file-pen"></i>
+        <span className="font-bold">提示词模板：</span>
+        <span className="font-mono">{customized > 0 ? `${customized} 个步骤使用自定义版本` : '全部为内置模板'}</span>
+        <i className={`fa-solid ${open ? 'fa-chevron-up' : 'fa-chevron-down'} text-[10px]`}></i>
+      </button>
+
+      {open && (
+        <div className="mt-6 bg-slate-900/60 border border-slate-800 rounded-[2rem] p-8 space-y-5">
+          <div className="flex flex-wrap items-center gap-2">
+            {PROMPT_DEFINITIONS.map(d => (
+              <button
+                key={d.id}
+                onClick={() => selectPrompt(d.id)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black border transition-all ${d.id === id ? 'bg-blue-600/20 border-blue-500/40 text-blue-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                {d.label}
+                <span className="ml-2 font-mono opacity-70">{promptVersionLabel(registry[d.id].active)}</span>
+              </button>
+            ))}
+            <div className="flex-1"></div>
+            <button onClick={() => downloadBlob(new Blob([exportPrompts(registry)], { type: 'application/json' }), 'financepod-prompts.json')} className="px-3 py-2 text-[10px] font-black text-slate-400 hover:text-blue-400">
+              <i className="fa-solid fa-file-export mr-2"></i>导出
+            </button>
+            <label className="px-3 py-2 text-[10px] font-black text-slate-400 hover:text-blue-400 cursor-pointer">
+              <i className="fa-solid fa-file-import mr-2"></i>导入
+              <input type="file" accept="application/json,.json" className="hidden" onChange={e => { importFile(e.target.files?.[0]); e.target.value = ''; }} />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-bold text-slate-300">版本</span>
+            <select
+              value={viewing}
+              onChange={e => setViewing(Number(e.target.value))}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:border-blue-500"
+            >
+              <option value={BUILTIN_PROMPT_VERSION}>内置模板</option>
+              {[...history.versions].reverse().map(v => (
+                <option key={v.version} value={v.version}>
+                  v{v.version} · {new Date(v.savedAt).toLocaleString()}{v.note ? ` · ${v.note}` : ''}
+                </option>
+              ))}
+            </select>
+            {viewing === history.active ? (
+              <span className="px-3 py-2 text-[10px] font-black text-green-400"><i className="fa-solid fa-check mr-1"></i>当前版本</span>
+            ) : (
+              <button onClick={activate} disabled={dirty} className="px-3 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400 disabled:opacity-40">
+                设为当前版本
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {def.variables.map(v => (
+              <button
+                key={v.name}
+                onClick={() => insertVariable(v.name)}
+                title={`${v.description}${v.required ? '（必需）' : ''}`}
+                className={`px-2 py-1 rounded-lg text-[10px] font-mono border ${used.includes(v.name) ? 'border-blue-500/40 text-blue-400 bg-blue-500/10' : v.required ? 'border-red-500/40 text-red-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                {`{{${v.name}}}`}
+              </button>
+            ))}
+          </div>
+
+          {preview ? (
+            <pre className="h-80 overflow-auto bg-slate-950 border border-slate-800 rounded-2xl p-4 text-xs text-slate-300 whitespace-pre-wrap">{previewTemplate(id, text)}</pre>
+          ) : (
+            <textarea
+              ref={textareaRef}
+              value={text}
+              onChange={e => setText(e.target.value)}
+              spellCheck={false}
+              className="w-full h-80 bg-slate-950 border border-slate-800 rounded-2xl p-4 text-xs font-mono text-slate-300 outline-none focus:border-blue-500 resize-y"
+            />
+          )}
+
+          <p className={`text-[10px] ${error ? 'text-red-400' : 'text-slate-600'}`}>
+            <i className={`fa-solid ${error ? 'fa-circle-exclamation' : 'fa-circle-check text-green-500'} mr-2`}></i>
+            {error || `模板有效，引用 ${used.length} 个变量。`}
+          </p>
+
+          <div className="flex items-center gap-3">
+            <button onClick={() => setPreview(v => !v)} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400">
+              <i className={`fa-solid ${preview ? 'fa-pen' : 'fa-eye'} mr-2`}></i>{preview ? '返回编辑' : '示例预览'}
+            </button>
+            <input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="版本说明（可选）"
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none focus:border-blue-500"
+            />
+            <button onClick={() => setText(versionTemplate(viewing))} disabled={!dirty} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400 disabled:opacity-40">
+              <i className="fa-solid fa-rotate-left mr-2"></i>撤销修改
+            </button>
+            <button onClick={save} disabled={!!error || !dirty} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-xl text-[10px] font-black text-white disabled:opacity-40">
+              <i className="fa-solid fa-floppy-disk mr-2"></i>保存为新版本
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptEditor;
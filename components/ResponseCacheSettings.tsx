@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { CacheMode, CacheSettings, WorkflowStep } from '../types';
+import { STEPS_CONFIG } from '../constants';
+import { PIPELINE_STEPS } from '../services/checkpoint';
+import { CacheBucket, CacheStatus, browserCacheStore, cacheStatus, clearCache } from '../services/responseCache';
+
+interface ResponseCacheSettingsProps {
+  settings: CacheSettings;
+  onChange: (settings: CacheSettings) => void;
+}
+
+const MODES: { mode: CacheMode; label: string; description: string }[] = [
+  { mode: 'off', label: '关闭', description: '每次都实际调用模型' },
+  { mode: 'cache', label: '缓存', description: '相同请求当天复用（热榜 10 分钟，检索与生成 1 天）' },
+  { mode: 'record', label: '录制', description: '实际调用模型并完整录制本日的全部请求' },
+  { mode: 'replay', label: '回放', description: '只从录制回放，按录制日期确定性地重新生成' }
+];
+
+// 母带处理不调用模型；语音合成只在录制与回放中保存，不单独跳过
+const CACHEABLE_STEPS = PIPELINE_STEPS.filter(s => s !== WorkflowStep.SYNTHESIS && s !== WorkflowStep.MASTERING);
+
+/**
+ * 模型响应缓存：模式切换、按步骤跳过缓存，以及缓存与录制的清理
+ */
+const ResponseCacheSettings: React.FC<ResponseCacheSettingsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<CacheStatus | null>(null);
+
+  const refreshStatus = () => cacheStatus(browserCacheStore).then(setStatus).catch(() => setStatus(null));
+
+  useEffect(() => {
+    if (open) refreshStatus();
+  }, [open, settings.mode]);
+
+  const toggleStep = (step: WorkflowStep) => onChange({
+    ...settings,
+    bypassSteps: settings.bypassSteps.includes(step) ? settings.bypassSteps.filter(s => s !== step) : [...settings.bypassSteps, step]
+  });
+
+  const clear = async (bucket: CacheBucket) => {
+    if (!window.confirm(bucket === 'cache' ? '确定清空响应缓存吗？' : '确定清空录制吗？清空后无法回放。')) return;
+    await clearCache(browserCacheStore, bucket);
+    refreshStatus();
+  };
+
+  const current = MODES.find(m => m.mode === settings.mode)!;
+
+  return (
+    <div className="max-w-3xl mx-auto mt-3 text-left">
+      <button onClick={() => setOpen(v => !v)} className="flex items-center gap-3 mx-auto text-xs text-slate-500 hover:text-slate-300 transition-all">
+        <i className="fa-solid fa-database"></i>
+        <span className="font-bold">响应缓存：</span>
+        <span className="font-mono">
+          {current.label}
+          {settings.mode !== 'off' && settings.bypassSteps.length > 0 && ` · ${settings.bypassSteps.length} 个步骤跳过`}
+        </span>
+        <i className={`fa-solid ${open ? 'fa-chevron-up' : 'fa-chevron-down'} text-[10px]`}></i>
+      </button>
+
+      {open && (
+        <div className="mt-6 bg-slate-900/60 border border-slate-800 rounded-[2rem] p-8 space-y-5">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {MODES.map(m => (
+              <button
+                key={m.mode}
+                onClick={() => onChange({ ...settings, mode: m.mode })}
+                className={`p-3 rounded-2xl border text-left transition-all ${m.mode === settings.mode ? 'bg-blue-600/20 border-blue-500/40' : 'border-slate-800 hover:border-slate-700'}`}
+              >
+                <p className={`text-xs font-black ${m.mode === settings.mode ? 'text-blue-400' : 'text-slate-300'}`}>{m.label}</p>
+                <p className="text-[10px] text-slate-500 mt-1 leading-relaxed">{m.description}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[10px] text-slate-600">勾选的步骤不读取缓存（仍写入新结果）；回放时勾选的步骤实时调用模型。单步重跑总是跳过缓存。</p>
+            <div className="flex flex-wrap gap-2">
+              {CACHEABLE_STEPS.map(step => (
+                <button
+                  key={step}
+                  onClick={() => toggleStep(step)}
+                  disabled={settings.mode === 'off'}
+                  className={`px-3 py-1.5 rounded-xl text-[10px] font-black border transition-all disabled:opacity-40 ${settings.bypassSteps.includes(step) ? 'bg-amber-500/10 border-amber-500/40 text-amber-400' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                  <i className={`fa-solid ${settings.bypassSteps.includes(step) ? 'fa-forward' : 'fa-database'} mr-2`}></i>
+                  {STEPS_CONFIG.find(s => s.step === step)?.label || step}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 text-[10px] text-slate-500">
+            <span className="flex-1 font-mono">
+              {status
+                ? `缓存 ${status.cached} 条 · 录制 ${status.recorded} 条${status.tape ? `（${status.tape.date}）` : ''}`
+                : '缓存存储不可用'}
+            </span>
+            <button onClick={() => clear('cache')} disabled={!status?.cached} className="px-3 py-2 border border-slate-700 rounded-xl font-black text-slate-400 hover:text-red-400 disabled:opacity-40">
+              <i className="fa-solid fa-trash-can mr-2"></i>清空缓存
+            </button>
+            <button onClick={() => clear('tape')} disabled={!status?.tape} className="px-3 py-2 border border-slate-700 rounded-xl font-black text-slate-400 hover:text-red-400 disabled:opacity-40">
+              <i className="fa-solid fa-trash-can mr-2"></i>清空录制
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResponseCacheSettings;
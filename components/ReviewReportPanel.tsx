@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { ReviewReport, ReviewRule } from '../types';
+import { ReviewSettings, createCustomRule, loadReviewSettings, saveReviewSettings } from '../services/compliance';
+
+interface ReviewReportPanelProps {
+  report?: ReviewReport;
+  busy: boolean;
+  onRerun: () => void;
+  onOverride: () => void;
+}
+
+const SEVERITY_STYLE: Record<ReviewRule['severity'], string> = {
+  hard: 'bg-red-500/10 text-red-400 border-red-500/30',
+  soft: 'bg-amber-500/10 text-amber-400 border-amber-500/30'
+};
+
+const ReviewReportPanel: React.FC<ReviewReportPanelProps> = ({ report, busy, onRerun, onOverride }) => {
+  const [settings, setSettings] = useState<ReviewSettings>(loadReviewSettings);
+  const [showRules, setShowRules] = useState(false);
+  const [customWord, setCustomWord] = useState('');
+
+  const updateSettings = (next: ReviewSettings) => {
+    setSettings(next);
+    saveReviewSettings(next);
+  };
+
+  const addCustomWord = () => {
+    const word = customWord.trim();
+    if (!word || settings.rules.some(r => r.id === `custom-${word}`)) return;
+    updateSettings({ ...settings, rules: [...settings.rules, createCustomRule(word)] });
+    setCustomWord('');
+  };
+
+  const status = !report ? null : report.blocked
+    ? { label: '已阻断合成', icon: 'fa-ban', style: 'bg-red-500/10 text-red-400 border-red-500/30' }
+    : report.overridden
+      ? { label: '人工放行', icon: 'fa-user-check', style: 'bg-amber-500/10 text-amber-400 border-amber-500/30' }
+      : { label: '审校通过', icon: 'fa-shield-halved', style: 'bg-green-500/10 text-green-400 border-green-500/30' };
+
+  return (
+    <div className="space-y-10 text-left">
+      {report && status && (
+        <div className="flex flex-wrap items-center gap-6">
+          <span className={`px-4 py-2 rounded-xl border text-[11px] font-black tracking-widest flex items-center gap-2 ${status.style}`}>
+            <i className={`fa-solid ${status.icon}`}></i>{status.label}
+          </span>
+          <span className="text-xs text-slate-500 font-mono">初检命中 {report.initialFindings} 行 · 改写 {report.rewrites.length} 行 · 剩余硬性 {report.hardViolations} / 提示 {report.softViolations}</span>
+          <div className="flex-1"></div>
+          <button onClick={onRerun} disabled={busy} className="px-4 py-2 border border-slate-700 hover:border-blue-500/50 rounded-xl text-[10px] font-black text-slate-300 hover:text-blue-400 disabled:opacity-40 transition-all">
+            <i className="fa-solid fa-rotate-right mr-2"></i>重新审校
+          </button>
+          {report.blocked && (
+            <button onClick={onOverride} disabled={busy} className="px-4 py-2 bg-amber-500/10 border border-amber-500/40 rounded-xl text-[10px] font-black text-amber-400 hover:bg-amber-500/20 disabled:opacity-40 transition-all">
+              <i className="fa-solid fa-user-check mr-2"></i>人工放行并继续合成
+            </button>
+          )}
+        </div>
+      )}
+
+      {report && report.findings.length > 0 && (
+        <div className="space-y-4">
+          <h5 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">待处理台词</h5>
+          {report.findings.map(f => (
+            <div key={f.line} className="p-6 bg-slate-950 border border-slate-800 rounded-2xl">
+              <p className="text-sm text-slate-300 leading-relaxed"><span className="text-slate-500 font-black mr-2">#{f.line + 1} {f.speaker}</span>{f.text}</p>
+              <div className="flex flex-wrap gap-2 mt-4">
+                {f.matches.map((m, i) => (
+                  <span key={i} className={`px-2 py-1 rounded-lg border text-[10px] font-bold ${SEVERITY_STYLE[m.severity]}`}>{m.label}「{m.text}」</span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report && report.rewrites.length > 0 && (
+        <div className="space-y-4">
+          <h5 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">已自动改写</h5>
+          {report.rewrites.map(r => (
+            <div key={r.line} className="p-6 bg-slate-950 border border-slate-800 rounded-2xl space-y-3 text-sm leading-relaxed">
+              <p className="text-red-400/70 line-through">{r.before}</p>
+              <p className="text-green-400">{r.after}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report && report.findings.length === 0 && report.rewrites.length === 0 && (
+        <p className="text-sm text-slate-500">脚本未命中任何合规规则。</p>
+      )}
+
+      <div className="border-t border-slate-800 pt-8">
+        <button onClick={() => setShowRules(v => !v)} className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 hover:text-slate-300 flex items-center gap-2">
+          <i className={`fa-solid ${showRules ? 'fa-chevron-down' : 'fa-chevron-right'}`}></i> 规则配置
+        </button>
+        {showRules && (
+          <div className="mt-6 space-y-3">
+            <label className="flex items-center gap-3 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={settings.blockOnHardViolations}
+                onChange={e => updateSettings({ ...settings, blockOnHardViolations: e.target.checked })}
+              />
+              存在硬性违规时阻断音频合成
+            </label>
+            {settings.rules.map(rule => (
+              <label key={rule.id} className="flex items-center gap-3 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateSettings({ ...settings, rules: settings.rules.map(r => r.id === rule.id ? { ...r, enabled: e.target.checked } : r) })}
+                />
+                <span className={`px-2 py-0.5 rounded border text-[9px] font-black ${SEVERITY_STYLE[rule.severity]}`}>{rule.severity === 'hard' ? '硬性' : '提示'}</span>
+                <span className="font-bold text-slate-300">{rule.label}</span>
+                <span className="font-mono text-[10px] text-slate-600 truncate">{rule.pattern}</span>
+                {rule.category === 'custom' && (
+                  <button onClick={() => updateSettings({ ...settings, rules: settings.rules.filter(r => r.id !== rule.id) })} className="ml-auto text-slate-600 hover:text-red-400">
+                    <i className="fa-solid fa-xmark"></i>
+                  </button>
+                )}
+              </label>
+            ))}
+            <div className="flex items-center gap-3 pt-2">
+              <input
+                value={customWord}
+                onChange={e => setCustomWord(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addCustomWord()}
+                placeholder="新增自定义禁用词"
+                className="bg-slate-900 border border-slate-800 rounded-xl px-4 py-2 text-xs outline-none placeholder:text-slate-600"
+              />
+              <button onClick={addCustomWord} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400">添加</button>
+            </div>
+            <p className="text-[10px] text-slate-600">规则修改在下次审校时生效。</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewReportPanel;
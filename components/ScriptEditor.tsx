@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { ScriptTurn, diffLines, formatTurns, parseTurns } from '../services/scriptDiff';
+
+interface ScriptDiffProps {
+  before: string;
+  after: string;
+}
+
+/**
+ * 初稿与定稿的逐行对比
+ */
+export const ScriptDiff: React.FC<ScriptDiffProps> = ({ before, after }) => {
+  const ops = useMemo(() => {
+    // 逐轮比较台词本身，段落标题不计入差异
+    const a = parseTurns(before).map(t => formatTurns([{ speaker: t.speaker, text: t.text }]));
+    const b = parseTurns(after).map(t => formatTurns([{ speaker: t.speaker, text: t.text }]));
+    return diffLines(a, b);
+  }, [before, after]);
+  const changed = ops.filter(op => op.type !== 'equal').length;
+
+  return (
+    <div className="space-y-2 font-medium">
+      <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 mb-6">
+        {changed === 0 ? '定稿与模型初稿一致' : `共 ${ops.filter(o => o.type === 'delete').length} 行删除 / ${ops.filter(o => o.type === 'insert').length} 行新增`}
+      </p>
+      {ops.map((op, i) => (
+        <div
+          key={i}
+          className={`px-6 py-3 rounded-xl text-sm leading-relaxed flex gap-4 ${op.type === 'delete' ? 'bg-red-500/5 text-red-400/80 line-through' : op.type === 'insert' ? 'bg-green-500/5 text-green-400' : 'text-slate-500'}`}
+        >
+          <span className="font-mono w-4 flex-shrink-0">{op.type === 'delete' ? '−' : op.type === 'insert' ? '+' : ' '}</span>
+          <span>{op.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface ScriptEditorProps {
+  script: string;
+  speakerNames?: string[];
+  busy: boolean;
+  hasAudio: boolean;
+  onSave: (script: string, resynthesize: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 逐轮对话编辑器：保存后仅重合成受影响的音频分段
+ */
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ script, speakerNames = [], busy, hasAudio, onSave, onCancel }) => {
+  const [turns, setTurns] = useState<ScriptTurn[]>(() => parseTurns(script));
+  const speakers = useMemo(() => Array.from(new Set([...speakerNames, ...parseTurns(script).map(t => t.speaker)])), [script, speakerNames]);
+  const edited = formatTurns(turns);
+  const dirty = edited !== formatTurns(parseTurns(script));
+
+  const updateTurn = (index: number, patch: Partial<ScriptTurn>) =>
+    setTurns(prev => prev.map((t, i) => i === index ? { ...t, ...patch } : t));
+  const insertAfter = (index: number) =>
+    setTurns(prev => [...prev.slice(0, index + 1), { speaker: prev[index]?.speaker || speakers[0] || '主持人', text: '' }, ...prev.slice(index + 1)]);
+  // 删除段落首轮时，段落标题顺延到下一轮
+  const removeTurn = (index: number) => setTurns(prev => prev
+    .map((t, i) => i === index + 1 && prev[index].segment && !t.segment ? { ...t, segment: prev[index].segment } : t)
+    .filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between sticky top-0 bg-slate-900/95 backdrop-blur py-4 z-10">
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">{turns.length} 轮对话{dirty && ' · 有未保存修改'}</span>
+        <div className="flex items-center gap-3">
+          <button onClick={onCancel} disabled={busy} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-white disabled:opacity-40">放弃修改</button>
+          <button onClick={() => onSave(edited, false)} disabled={busy || !dirty} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-300 hover:text-blue-400 disabled:opacity-40">仅保存脚本</button>
+          {hasAudio && (
+            <button onClick={() => onSave(edited, true)} disabled={busy || !dirty} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-xl text-[10px] font-black text-white disabled:opacity-40 flex items-center gap-2">
+              <i className={`fa-solid ${busy ? 'fa-spinner animate-spin' : 'fa-wave-square'}`}></i> 保存并重合成变更段落
+            </button>
+          )}
+        </div>
+      </div>
+
+      {turns.map((turn, i) => (
+        <React.Fragment key={i}>
+          {turn.segment && (
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-400 pt-4">
+              <i className="fa-solid fa-bookmark mr-2"></i>{turn.segment}
+            </p>
+          )}
+          <div className="group flex gap-4 items-start">
+            <input
+              value={turn.speaker}
+              onChange={e => updateTurn(i, { speaker: e.target.value })}
+              list="script-editor-speakers"
+              className="w-28 flex-shrink-0 bg-slate-950 border border-slate-800 rounded-xl px-3 py-3 text-[11px] font-black tracking-widest text-blue-400 outline-none focus:border-blue-500/50"
+            />
+            <textarea
+              value={turn.text}
+              onChange={e => updateTurn(i, { text: e.target.value })}
+              rows={Math.max(2, Math.ceil(turn.text.length / 40))}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-base text-slate-200 leading-relaxed outline-none focus:border-blue-500/50 resize-y"
+            />
+            <div className="flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-all">
+              <button onClick={() => insertAfter(i)} title="在下方插入一轮" className="w-8 h-8 rounded-lg text-slate-500 hover:text-blue-400 hover:bg-blue-500/10"><i className="fa-solid fa-plus text-xs"></i></button>
+              <button onClick={() => removeTurn(i)} title="删除此轮" className="w-8 h-8 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10"><i className="fa-solid fa-trash text-xs"></i></button>
+            </div>
+          </div>
+        </React.Fragment>
+      ))}
+      <datalist id="script-editor-speakers">
+        {speakers.map(s => <option key={s} value={s} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default ScriptEditor;
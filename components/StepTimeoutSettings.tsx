@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { StepTimeouts } from '../types';
+import { DEFAULT_STEP_TIMEOUTS, STEPS_CONFIG } from '../constants';
+import { PIPELINE_STEPS } from '../services/checkpoint';
+
+interface StepTimeoutSettingsProps {
+  timeouts: StepTimeouts;
+  onChange: (timeouts: StepTimeouts) => void;
+}
+
+const formatLimit = (seconds?: number) =>
+  !seconds ? '不限' : seconds % 60 === 0 ? `${seconds / 60} 分钟` : `${seconds} 秒`;
+
+/**
+ * 各生产步骤的时限：超时后中止该步骤，已完成的步骤保留为检查点
+ */
+const StepTimeoutSettings: React.FC<StepTimeoutSettingsProps> = ({ timeouts, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const limited = PIPELINE_STEPS.filter(step => timeouts[step]).length;
+
+  return (
+    <div className="max-w-3xl mx-auto mt-3 text-left">
+      <button onClick={() => setOpen(v => !v)} className="flex items-center gap-3 mx-auto text-xs text-slate-500 hover:text-slate-300 transition-all">
+        <i className="fa-solid fa-stopwatch"></i>
+        <span className="font-bold">步骤时限：</span>
+        <span className="font-mono">{limited > 0 ? `${limited} / ${PIPELINE_STEPS.length} 个步骤限时` : '全部不限'}</span>
+        <i className={`fa-solid ${open ? 'fa-chevron-up' : 'fa-chevron-down'} text-[10px]`}></i>
+      </button>
+
+      {open && (
+        <div className="mt-6 bg-slate-900/60 border border-slate-800 rounded-[2rem] p-8 space-y-4">
+          <p className="text-[10px] text-slate-600">单位为秒，填 0 表示不限。超时后该步骤中止，可从该步骤继续生产。</p>
+          {PIPELINE_STEPS.map(step => (
+            <div key={step} className="flex items-center gap-4">
+              <p className="w-40 text-xs font-bold text-slate-300">{STEPS_CONFIG.find(s => s.step === step)?.label || step}</p>
+              <input
+                type="number"
+                min={0}
+                step={30}
+                value={timeouts[step] || 0}
+                onChange={e => onChange({ ...timeouts, [step]: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-xs font-mono text-slate-300 outline-none focus:border-blue-500"
+              />
+              <span className="w-16 text-right text-xs font-mono text-slate-400">{formatLimit(timeouts[step])}</span>
+            </div>
+          ))}
+          <div className="flex justify-end">
+            <button onClick={() => onChange(DEFAULT_STEP_TIMEOUTS)} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400">
+              <i className="fa-solid fa-rotate-left mr-2"></i>恢复默认
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StepTimeoutSettings;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { SynthesisPolicy } from '../types';
+import { DEFAULT_SYNTHESIS_POLICY } from '../constants';
+
+interface SynthesisSettingsProps {
+  policy: SynthesisPolicy;
+  onChange: (policy: SynthesisPolicy) => void;
+}
+
+const FIELDS: { key: keyof SynthesisPolicy; label: string; hint: string; min: number; max: number; step: number }[] = [
+  { key: 'concurrency', label: '并发分段数', hint: '同时请求 TTS 的分段数量', min: 1, max: 8, step: 1 },
+  { key: 'maxRetries', label: '失败重试次数', hint: '单个分段失败后的最多重试次数', min: 0, max: 5, step: 1 },
+  { key: 'baseDelayMs', label: '重试基础间隔 (ms)', hint: '每次重试间隔按 2 倍递增', min: 200, max: 10000, step: 100 },
+  { key: 'maxMissingRatio', label: '可容忍缺失比例', hint: '静音占位的字数占比超过该值即中止；0 为不容忍', min: 0, max: 0.5, step: 0.05 }
+];
+
+/**
+ * 音频合成策略：并发、重试与缺失容忍度
+ */
+const SynthesisSettings: React.FC<SynthesisSettingsProps> = ({ policy, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="max-w-3xl mx-auto mt-3 text-left">
+      <button onClick={() => setOpen(v => !v)} className="flex items-center gap-3 mx-auto text-xs text-slate-500 hover:text-slate-300 transition-all">
+        <i className="fa-solid fa-sliders"></i>
+        <span className="font-bold">合成策略：</span>
+        <span className="font-mono">并发 {policy.concurrency} · 重试 {policy.maxRetries} 次 · 容忍缺失 {Math.round(policy.maxMissingRatio * 100)}%</span>
+        <i className={`fa-solid ${open ? 'fa-chevron-up' : 'fa-chevron-down'} text-[10px]`}></i>
+      </button>
+
+      {open && (
+        <div className="mt-6 bg-slate-900/60 border border-slate-800 rounded-[2rem] p-8 space-y-4">
+          {FIELDS.map(f => (
+            <div key={f.key} className="flex items-center gap-4">
+              <div className="w-40">
+                <p className="text-xs font-bold text-slate-300">{f.label}</p>
+                <p className="text-[10px] text-slate-600 mt-0.5">{f.hint}</p>
+              </div>
+              <input
+                type="range"
+                min={f.min}
+                max={f.max}
+                step={f.step}
+                value={policy[f.key]}
+                onChange={e => onChange({ ...policy, [f.key]: Number(e.target.value) })}
+                className="flex-1 accent-blue-500"
+              />
+              <span className="w-14 text-right text-xs font-mono text-slate-400">
+                {f.key === 'maxMissingRatio' ? `${Math.round(policy[f.key] * 100)}%` : policy[f.key]}
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-end">
+            <button onClick={() => onChange(DEFAULT_SYNTHESIS_POLICY)} className="px-4 py-2 border border-slate-700 rounded-xl text-[10px] font-black text-slate-400 hover:text-blue-400">
+              <i className="fa-solid fa-rotate-left mr-2"></i>恢复默认
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SynthesisSettings;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { TrendingSnapshot, TrendingStatus } from '../types';
+import { TRENDING_PLATFORMS } from '../constants';
+
+interface TrendingBoardsProps {
+  snapshot: TrendingSnapshot | null;
+  loading: boolean;
+  onRefresh: () => void;
+  onSelect: (keyword: string) => void;
+  /** 批量加入生产队列 */
+  onEnqueue: (keywords: string[]) => void;
+}
+
+const STATUS_STYLE: Record<TrendingStatus, { label: string; icon: string; style: string }> = {
+  live: { label: '实时', icon: 'fa-circle', style: 'bg-green-500/10 text-green-400 border-green-500/30' },
+  cached: { label: '缓存', icon: 'fa-clock', style: 'bg-blue-500/10 text-blue-400 border-blue-500/30' },
+  stale: { label: '已过期', icon: 'fa-hourglass-end', style: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  fallback: { label: '兜底数据', icon: 'fa-triangle-exclamation', style: 'bg-red-500/10 text-red-400 border-red-500/30' }
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * 热榜：跨平台合并排名与三大平台原始榜单，逐平台标注数据来源与获取时间
+ */
+const TrendingBoards: React.FC<TrendingBoardsProps> = ({ snapshot, loading, onRefresh, onSelect, onEnqueue }) => {
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between px-2">
+        <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">
+          <i className="fa-solid fa-ranking-star mr-3 text-blue-400"></i>跨平台热度
+        </h4>
+        <div className="flex items-center gap-3">
+          {snapshot && snapshot.ranking.length > 0 && (
+            <button onClick={() => onEnqueue(snapshot.ranking.slice(0, 5).map(t => t.keyword))} className="px-4 py-2 border border-slate-700 hover:border-indigo-500/50 rounded-xl text-[10px] font-black text-slate-300 hover:text-indigo-400 transition-all">
+              <i className="fa-solid fa-layer-group mr-2"></i>前 5 名全部入队
+            </button>
+          )}
+          <button onClick={onRefresh} disabled={loading} className="px-4 py-2 border border-slate-700 hover:border-blue-500/50 rounded-xl text-[10px] font-black text-slate-300 hover:text-blue-400 disabled:opacity-40 transition-all">
+            <i className={`fa-solid fa-rotate-right mr-2 ${loading ? 'animate-spin' : ''}`}></i>{loading ? '刷新中' : '刷新热榜'}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-slate-900/30 border border-slate-800/80 rounded-[2.5rem] p-8">
+        {snapshot && snapshot.ranking.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {snapshot.ranking.slice(0, 8).map((topic, i) => (
+              <button
+                key={topic.keyword}
+                onClick={() => onSelect(topic.keyword)}
+                title={topic.aliases.length > 1 ? `各平台写法：${topic.aliases.join('、')}` : undefined}
+                className="flex items-center gap-5 p-5 bg-slate-900 hover:bg-blue-600/10 border border-slate-800/50 rounded-2xl group transition-all text-left"
+              >
+                <span className="text-[11px] font-mono text-slate-600 font-black">{i + 1}</span>
+                <span className="text-sm font-bold text-slate-200 group-hover:text-blue-400 tracking-tight flex-1">{topic.keyword}</span>
+                <div className="flex gap-1">
+                  {TRENDING_PLATFORMS.filter(p => topic.ranks[p.key]).map(p => (
+                    <span key={p.key} className={`px-2 py-0.5 rounded-md bg-slate-800 text-[10px] font-bold ${p.color}`}>
+                      {p.short} #{topic.ranks[p.key]}
+                    </span>
+                  ))}
+                </div>
+                <span className="text-[10px] font-mono text-slate-500 w-10 text-right">{topic.heat}</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-600 text-center py-4">
+            {loading ? '正在汇总各平台热榜...' : '暂无可用的实时榜单，无法生成跨平台排名。'}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        {TRENDING_PLATFORMS.map((source) => {
+          const board = snapshot?.boards[source.key];
+          const status = board && STATUS_STYLE[board.status];
+          return (
+            <div key={source.key} className="bg-slate-900/30 border border-slate-800/80 rounded-[2.5rem] p-8 hover:border-slate-700 transition-all flex flex-col h-full">
+              <div className="flex items-center justify-between mb-8 px-2">
+                <div className="flex items-center gap-4">
+                  <div className={`w-10 h-10 ${source.bg} rounded-xl flex items-center justify-center`}>
+                    <i className={`fa-solid ${source.icon} ${source.color} text-lg`}></i>
+                  </div>
+                  <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400">{source.name}</h4>
+                </div>
+                <div className="flex items-center gap-2">
+                  {board && (
+                    <button onClick={() => onEnqueue(board.topics)} title="全部加入批量队列" className="w-7 h-7 rounded-lg text-slate-600 hover:text-indigo-400 hover:bg-slate-800 transition-all">
+                      <i className="fa-solid fa-layer-group text-[11px]"></i>
+                    </button>
+                  )}
+                  {board && status && (
+                    <span
+                      className={`px-2 py-1 rounded-lg border text-[10px] font-black flex items-center gap-1.5 ${status.style}`}
+                      title={[board.fetchedAt && `获取于 ${formatTime(board.fetchedAt)}`, board.error].filter(Boolean).join('；')}
+                    >
+                      <i className={`fa-solid ${status.icon} text-[8px]`}></i>{status.label}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-4 flex-1">
+                {board?.topics.map((t, i) => (
+                  <button
+                    key={i}
+                    onClick={() => onSelect(t)}
+                    className="w-full flex items-center justify-between p-5 bg-slate-900 hover:bg-blue-600/10 border border-slate-800/50 rounded-2xl group transition-all"
+                  >
+                    <div className="flex items-center gap-5">
+                      <span className="text-[11px] font-mono text-slate-600 font-black">{i+1}</span>
+                      <span className="text-sm font-bold text-slate-200 group-hover:text-blue-400 tracking-tight">{t}</span>
+                    </div>
+                    <i className="fa-solid fa-chevron-right text-[10px] text-slate-800 group-hover:text-blue-500 group-hover:translate-x-1 transition-all"></i>
+                  </button>
+                ))}
+              </div>
+              {board && (
+                <p className="text-[10px] text-slate-600 font-mono mt-6 px-2">
+                  {board.fetchedAt ? `获取于 ${formatTime(board.fetchedAt)}` : '实时获取失败，展示内置榜单'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TrendingBoards;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ModelPrice, UsageRecord, UsageStats } from '../types';
+import { STEPS_CONFIG } from '../constants';
+import { PIPELINE_STEPS } from '../services/checkpoint';
+import { formatCost, formatTokens, summarizeUsage, usageByStep, usageStatsCost, usageStatsTotals } from '../services/usage';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  stats: UsageStats;
+  prices: ModelPrice[];
+  onResetStats: () => void;
+}
+
+const stepLabel = (step?: string) => step ? STEPS_CONFIG.find(s => s.step === step)?.label || step : '其他调用';
+
+/**
+ * 本期节目按步骤的模型用量与费用，以及跨节目的累计统计
+ */
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, stats, prices, onResetStats }) => {
+  const groups = usageByStep(records, PIPELINE_STEPS, prices);
+  const episode = summarizeUsage(records, prices);
+  const cumulative = usageStatsTotals(stats);
+  const cumulativeCost = usageStatsCost(stats, prices);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-[2.5rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-slate-800 bg-slate-950/60 flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">模型用量与费用</span>
+        <span className="text-xs font-mono font-bold text-blue-400">
+          {formatCost(episode.cost)}{episode.unpriced && <span className="text-amber-400" title="部分模型未设置价格，未计入费用">*</span>}
+        </span>
+      </div>
+      <div className="p-6 space-y-3">
+        {groups.length === 0 ? (
+          <p className="text-[10px] text-slate-600 text-center py-4">本期节目尚无模型调用记录。</p>
+        ) : groups.map(({ step, summary }) => (
+          <div key={step || 'other'} className="space-y-1">
+            <div className="flex justify-between items-center text-xs">
+              <span className="font-bold text-slate-300">{stepLabel(step)}</span>
+              <span className="font-mono text-slate-400">{formatCost(summary.cost)}{summary.unpriced && <span className="text-amber-400">*</span>}</span>
+            </div>
+            <div className="flex flex-wrap gap-x-3 text-[10px] font-mono text-slate-600">
+              <span>{summary.totals.calls} 次调用</span>
+              <span>输入 {formatTokens(summary.totals.promptTokens)}</span>
+              <span>输出 {formatTokens(summary.totals.outputTokens)}</span>
+              {summary.totals.thinkingTokens > 0 && <span>思考 {formatTokens(summary.totals.thinkingTokens)}</span>}
+              <span>{(summary.totals.latencyMs / 1000).toFixed(1)}s</span>
+              {summary.totals.cached > 0 && <span className="text-green-500">缓存 {summary.totals.cached}</span>}
+              {summary.totals.retries > 0 && <span className="text-amber-500">重试 {summary.totals.retries}</span>}
+              {summary.totals.failed > 0 && <span className="text-red-400">失败 {summary.totals.failed}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="px-6 py-4 border-t border-slate-800 bg-slate-950/40 flex items-center gap-4 text-[10px] text-slate-500">
+        <div className="flex-1 space-y-1">
+          <p className="font-bold text-slate-400">累计（{new Date(stats.since).toLocaleDateString()} 起）</p>
+          <p className="font-mono">
+            {stats.episodeIds.length} 期 · {cumulative.calls} 次调用 · {formatTokens(cumulative.promptTokens + cumulative.outputTokens + cumulative.thinkingTokens)} tokens · {formatCost(cumulativeCost.cost)}{cumulativeCost.unpriced && <span className="text-amber-400">*</span>}
+            {stats.episodeIds.length > 0 && ` · 平均 ${formatCost(cumulativeCost.cost / stats.episodeIds.length)}/期`}
+          </p>
+        </div>
+        <button onClick={() => { if (window.confirm('确定清零累计用量统计吗？')) onResetStats(); }} className="text-slate-600 hover:text-red-400" title="清零累计统计">
+          <i className="fa-solid fa-rotate-left"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
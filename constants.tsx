@@ -1,5 +1,6 @@
 
-import { WorkflowStep, StepStatus } from './types';
+import { WorkflowStep, StepStatus, ReviewRule, CastMember, CastColor, SynthesisPolicy, StepTimeouts, MasteringSettings, TrendingPlatform, FormatPreset, LanguagePreset, GlossaryTerm, FeedSettings, PromptDefinition, PromptVariable, ModelPrice, CacheSettings } from './types';
+import type { ModelTask } from './services/providers/types';
 
 export const STEPS_CONFIG: StepStatus[] = [
   {
@@ -30,7 +31,13 @@ export const STEPS_CONFIG: StepStatus[] = [
     step: WorkflowStep.DRAFTING,
     label: '初稿生成',
     icon: 'fa-pen-nib',
-    description: '主持人×嘉宾对话脚本'
+    description: '按节目阵容生成对话脚本'
+  },
+  {
+    step: WorkflowStep.FACT_CHECK,
+    label: '事实核查',
+    icon: 'fa-magnifying-glass-chart',
+    description: '数字、日期、人名与素材交叉核验'
   },
   {
     step: WorkflowStep.REVIEW,
@@ -42,6 +49,554 @@ export const STEPS_CONFIG: StepStatus[] = [
     step: WorkflowStep.SYNTHESIS,
     label: '音频合成',
     icon: 'fa-microphone',
-    description: '双人专业音频播客合成'
+    description: '多角色专业音频播客合成'
+  },
+  {
+    step: WorkflowStep.MASTERING,
+    label: '母带处理',
+    icon: 'fa-wave-square',
+    description: '响度标准化、片头片尾与背景音乐'
+  }
+];
+
+export const DEFAULT_REVIEW_RULES: ReviewRule[] = [
+  {
+    id: 'advice-action',
+    label: '交易操作词',
+    category: 'advice',
+    severity: 'hard',
+    pattern: '买入|卖出|买进|抛售|加仓|减仓|抄底|布局|上车|建仓|清仓|满仓|止损|止盈|逢低|逢高',
+    enabled: true
+  },
+  {
+    id: 'advice-suggest',
+    label: '买卖暗示',
+    category: 'advice',
+    severity: 'hard',
+    pattern: '(建议|可以|值得|应该|赶紧|不妨|适合)(去)?(买|卖|入手|持有)|推荐(关注|标的)|目标价',
+    enabled: true
+  },
+  {
+    id: 'price-judgment',
+    label: '涨跌评价',
+    category: 'price',
+    severity: 'hard',
+    pattern: '涨多了|跌多了|跌过头|涨过头|涨得?不合理|跌得?不合理|还会(涨|跌)|有望(上涨|反弹)|见底|见顶|(上涨|反弹)空间',
+    enabled: true
+  },
+  {
+    id: 'price-valuation',
+    label: '估值判断',
+    category: 'price',
+    severity: 'soft',
+    pattern: '被?低估|被?高估|估值(偏高|偏低|合理|便宜|太贵)',
+    enabled: true
+  },
+  {
+    id: 'style-stiff',
+    label: '书面腔',
+    category: 'style',
+    severity: 'soft',
+    pattern: '综上所述|总而言之|值得注意的是|由此可见|众所周知',
+    enabled: true
+  }
+];
+
+export const PREBUILT_VOICES: { name: string; style: string }[] = [
+  { name: 'Kore', style: '沉稳' },
+  { name: 'Puck', style: '明快' },
+  { name: 'Charon', style: '知性' },
+  { name: 'Fenrir', style: '激昂' },
+  { name: 'Aoede', style: '轻松' },
+  { name: 'Leda', style: '年轻' },
+  { name: 'Orus', style: '坚定' },
+  { name: 'Zephyr', style: '清亮' },
+  { name: 'Iapetus', style: '清晰' },
+  { name: 'Algieba', style: '圆润' },
+  { name: 'Despina', style: '柔和' },
+  { name: 'Gacrux', style: '成熟' },
+  { name: 'Schedar', style: '平稳' },
+  { name: 'Sulafat', style: '温暖' }
+];
+
+export const CAST_COLOR_CLASSES: Record<CastColor, { text: string; bg: string }> = {
+  blue: { text: 'text-blue-400', bg: 'bg-blue-500/10' },
+  indigo: { text: 'text-indigo-400', bg: 'bg-indigo-500/10' },
+  emerald: { text: 'text-emerald-400', bg: 'bg-emerald-500/10' },
+  amber: { text: 'text-amber-400', bg: 'bg-amber-500/10' },
+  rose: { text: 'text-rose-400', bg: 'bg-rose-500/10' }
+};
+
+const HOST: CastMember = {
+  name: '主持人',
+  role: 'host',
+  description: '普通听众的代言人。负责追问、承接、澄清。',
+  persona: '',
+  voice: 'Kore',
+  color: 'blue'
+};
+
+export const CAST_PRESETS: { id: string; label: string; members: CastMember[] }[] = [
+  {
+    id: 'duo',
+    label: '主持人 × 嘉宾',
+    members: [
+      HOST,
+      { name: '嘉宾', role: 'guest', description: '行业研究者，负责拆解逻辑、补充事实与框架。', persona: '', voice: 'Puck', color: 'indigo' }
+    ]
+  },
+  {
+    id: 'panel',
+    label: '主持人 × 双嘉宾',
+    members: [
+      HOST,
+      { name: '嘉宾A', role: 'guest', description: '产业研究员，侧重产业链与商业模式。', persona: '', voice: 'Puck', color: 'indigo' },
+      { name: '嘉宾B', role: 'guest', description: '宏观策略研究者，侧重政策与宏观背景。', persona: '', voice: 'Charon', color: 'emerald' }
+    ]
+  },
+  {
+    id: 'recurring',
+    label: '主持人 × 张老师',
+    members: [
+      HOST,
+      { name: '张老师', role: 'guest', description: '常驻嘉宾，资深财经评论员。', persona: '说话沉稳，喜欢用历史案例做类比，常说“我们不妨回到事实”。', voice: 'Orus', color: 'amber' }
+    ]
+  },
+  {
+    id: 'solo',
+    label: '单人主播',
+    members: [
+      { name: '主播', role: 'host', description: '独立讲述者，负责梳理事实、提出问题并自问自答。', persona: '', voice: 'Charon', color: 'blue' }
+    ]
+  },
+  {
+    id: 'debate',
+    label: '主持人 × 多空嘉宾',
+    members: [
+      { ...HOST, description: '中立主持，负责抛出议题、追问双方论据并控制节奏，不站队。' },
+      { name: '多方', role: 'guest', description: '从偏乐观的市场解读出发，论证支撑其判断的事实与逻辑。', persona: '', voice: 'Fenrir', color: 'rose' },
+      { name: '空方', role: 'guest', description: '从偏谨慎的市场解读出发，指出被忽视的风险与反例。', persona: '', voice: 'Gacrux', color: 'emerald' }
+    ]
+  }
+];
+
+export const DEFAULT_CAST: CastMember[] = CAST_PRESETS[0].members;
+
+export const FORMAT_PRESETS: FormatPreset[] = [
+  {
+    id: 'standard',
+    label: '标准对谈',
+    icon: 'fa-comments',
+    description: '主持人与嘉宾的深度对话，兼顾来龙去脉与观察要点。',
+    minutes: [10, 15],
+    chars: [2000, 2800],
+    genre: '对话式',
+    sections: '3-4',
+    outline: '生成一份详细的对话大纲，按 3-4 个维度展开，每个维度列出要点与过渡。',
+    structure: '开场宣告主题与纲要，按大纲逐个维度展开，主持人追问、嘉宾拆解，结尾收束观察要点。',
+    chunkMaxChars: 800
+  },
+  {
+    id: 'flash',
+    label: '3 分钟快讯',
+    icon: 'fa-bolt',
+    description: '只讲核心事实、一个关键判断与一个观察信号。',
+    minutes: [3, 3],
+    chars: [550, 750],
+    genre: '快讯式',
+    sections: '2-3',
+    outline: '生成一份精简大纲，只列 2-3 个要点，每个要点一句话，不展开子论点。',
+    structure: '开门见山，一句话讲清发生了什么，随后给出为什么重要与一个值得观察的信号；不铺垫背景，不展开历史。',
+    chunkMaxChars: 500
+  },
+  {
+    id: 'deep',
+    label: '30 分钟深度',
+    icon: 'fa-layer-group',
+    description: '多层拆解：历史脉络、产业结构、关键指标与分歧。',
+    minutes: [28, 32],
+    chars: [5500, 6500],
+    genre: '深度对话式',
+    sections: '5-6',
+    outline: '生成一份多层级大纲，按 5-6 个章节展开，每章列出 2-3 个子论点、支撑事实与章节之间的过渡问题。',
+    structure: '按章节推进，每章先抛问题、再拆事实、最后小结；中段安排一次对前文的回顾，结尾汇总各章的观察指标与分歧。',
+    chunkMaxChars: 1000
+  },
+  {
+    id: 'solo',
+    label: '单人独白',
+    icon: 'fa-microphone',
+    description: '一位主播独立讲述，以自问自答推进。',
+    minutes: [8, 10],
+    chars: [1600, 2000],
+    genre: '单人独白式',
+    sections: '3-4',
+    outline: '生成一份讲述大纲，按 3-4 个部分展开，每部分以一个听众可能会问的问题开头。',
+    structure: '全程只有一位说话人，以“你可能会问……”等自问自答推进，段落之间用一句话承上启下，不虚构对话者。',
+    layout: { hosts: 1, guests: 0 },
+    castPreset: 'solo',
+    chunkMaxChars: 1200
+  },
+  {
+    id: 'debate',
+    label: '多空辩论',
+    icon: 'fa-scale-balanced',
+    description: '两位嘉宾就同一事件给出对立的市场解读，主持人居中追问。',
+    minutes: [12, 15],
+    chars: [2400, 3000],
+    genre: '多空辩论式',
+    sections: '3',
+    outline: '生成一份辩论大纲，列出 3 个争议焦点，每个焦点分别写出偏乐观与偏谨慎两种解读各自依据的事实。',
+    structure: '主持人逐个抛出争议焦点，两位嘉宾分别给出对立的市场解读并互相回应，论据必须来自素材；双方只讨论市场如何理解，不给出任何投资建议，不宣布胜负，结尾由主持人归纳双方分歧与可验证的信号。',
+    layout: { hosts: 1, guests: 2 },
+    castPreset: 'debate',
+    chunkMaxChars: 600
+  }
+];
+
+/** 脚本字数偏离形态目标区间的容忍比例，超出时自动改写一次 */
+export const FORMAT_LENGTH_TOLERANCE = 0.2;
+
+export const LANGUAGES: LanguagePreset[] = [
+  {
+    key: 'zh',
+    label: '普通话',
+    short: '普',
+    code: 'zh-cn',
+    instruction: '简体中文（普通话）',
+    speakerLabels: {},
+    voices: []
+  },
+  {
+    key: 'en',
+    label: 'English',
+    short: 'EN',
+    code: 'en',
+    instruction: '自然口语化的英语，面向关注中国市场的海外听众，必要时用半句话解释 A 股特有概念',
+    speech: 'Read the following finance podcast aloud in natural, conversational English.',
+    speakerLabels: { 主持人: 'Host', 嘉宾: 'Guest', 嘉宾A: 'Guest A', 嘉宾B: 'Guest B', 主播: 'Narrator', 多方: 'Bull', 空方: 'Bear', 张老师: 'Mr. Zhang' },
+    voices: ['Puck', 'Kore', 'Charon', 'Aoede', 'Orus']
+  },
+  {
+    key: 'yue',
+    label: '粤语',
+    short: '粤',
+    code: 'zh-hk',
+    instruction: '香港粤语口语（繁体字书写，使用“嘅、咗、喺、啲”等粤语用字），面向香港及海外粤语听众',
+    speech: '請用地道嘅廣東話（粵語）讀出以下財經播客對話。',
+    speakerLabels: { 主持人: '主持', 嘉宾: '嘉賓', 嘉宾A: '嘉賓A', 嘉宾B: '嘉賓B', 主播: '主播', 多方: '好友', 空方: '淡友', 张老师: '張老師' },
+    voices: ['Sulafat', 'Iapetus', 'Despina', 'Gacrux', 'Algieba']
+  }
+];
+
+/** 语言版本翻译时统一使用的 A 股术语译法 */
+export const A_SHARE_GLOSSARY: GlossaryTerm[] = [
+  { term: 'A股', en: 'A-shares', yue: 'A股' },
+  { term: '北向资金', en: 'northbound capital (via Stock Connect)', yue: '北向資金' },
+  { term: '南向资金', en: 'southbound capital', yue: '南向資金（北水）' },
+  { term: '港股通', en: 'Southbound Stock Connect', yue: '港股通' },
+  { term: '涨停', en: 'limit-up', yue: '漲停' },
+  { term: '跌停', en: 'limit-down', yue: '跌停' },
+  { term: '科创板', en: 'STAR Market', yue: '科創板' },
+  { term: '创业板', en: 'ChiNext', yue: '創業板' },
+  { term: '北交所', en: 'Beijing Stock Exchange', yue: '北交所' },
+  { term: '沪深300', en: 'CSI 300', yue: '滬深300' },
+  { term: '上证指数', en: 'Shanghai Composite Index', yue: '上證指數' },
+  { term: '融资融券', en: 'margin trading and short selling', yue: '融資融券（孖展）' },
+  { term: '国家队', en: 'the "national team" (state-backed funds)', yue: '國家隊' },
+  { term: '降准', en: 'RRR cut', yue: '降準' },
+  { term: '降息', en: 'rate cut', yue: '減息' },
+  { term: '社融', en: 'total social financing (TSF)', yue: '社融' },
+  { term: '新质生产力', en: 'new quality productive forces', yue: '新質生產力' },
+  { term: '专精特新', en: '"little giant" specialized SMEs', yue: '專精特新' },
+  { term: '中特估', en: 'valuation with Chinese characteristics', yue: '中特估' },
+  { term: '高股息', en: 'high-dividend stocks', yue: '高息股' },
+  { term: '龙头', en: 'sector leader', yue: '龍頭' },
+  { term: '题材股', en: 'theme stocks', yue: '概念股' },
+  { term: '散户', en: 'retail investors', yue: '散戶' },
+  { term: '公募基金', en: 'mutual funds', yue: '公募基金' },
+  { term: '券商', en: 'brokerages', yue: '證券行' },
+  { term: '市盈率', en: 'P/E ratio', yue: '市盈率' },
+  { term: '毛利率', en: 'gross margin', yue: '毛利率' },
+  { term: '净利润', en: 'net profit', yue: '純利' },
+  { term: '营收', en: 'revenue', yue: '收入' },
+  { term: '同比', en: 'year on year', yue: '按年' },
+  { term: '环比', en: 'sequentially (vs. the prior period)', yue: '按月／按季' }
+];
+
+export const DEFAULT_SYNTHESIS_POLICY: SynthesisPolicy = {
+  concurrency: 3,
+  maxRetries: 2,
+  baseDelayMs: 1500,
+  maxMissingRatio: 0.1
+};
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { mode: 'cache', bypassSteps: [] };
+
+/**
+ * 各类调用的缓存有效期（秒）；未列出的调用（语音合成）不缓存，合成分段由 chunkCache 复用
+ */
+export const CACHE_TTLS: Partial<Record<ModelTask, number>> = {
+  trending: 10 * 60,
+  events: 60 * 60,
+  materials: 24 * 60 * 60,
+  deepDive: 24 * 60 * 60,
+  links: 24 * 60 * 60,
+  hooks: 24 * 60 * 60,
+  outline: 24 * 60 * 60,
+  title: 24 * 60 * 60,
+  script: 24 * 60 * 60,
+  briefing: 24 * 60 * 60,
+  localize: 24 * 60 * 60,
+  factCheck: 24 * 60 * 60,
+  review: 24 * 60 * 60
+};
+
+/** 默认价目（美元 / 百万 token），以服务商最新价目为准，可在界面中调整 */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-3-pro-preview', input: 2, output: 12 },
+  { model: 'gemini-3-flash-preview', input: 0.5, output: 3 },
+  { model: 'gemini-2.5-flash-preview-tts', input: 0.5, output: 10 }
+];
+
+/** 各步骤默认时限（秒）：早报的搜集与撰写按条目逐一调用模型，留足余量 */
+export const DEFAULT_STEP_TIMEOUTS: StepTimeouts = {
+  [WorkflowStep.RESEARCH]: 600,
+  [WorkflowStep.INSIGHTS]: 120,
+  [WorkflowStep.OUTLINE]: 180,
+  [WorkflowStep.DRAFTING]: 600,
+  [WorkflowStep.FACT_CHECK]: 240,
+  [WorkflowStep.REVIEW]: 180,
+  [WorkflowStep.SYNTHESIS]: 1200,
+  [WorkflowStep.MASTERING]: 300
+};
+
+export const TRENDING_PLATFORMS: { key: TrendingPlatform; name: string; short: string; icon: string; color: string; bg: string }[] = [
+  { key: 'ths', name: '同花顺热榜', short: '同花顺', icon: 'fa-chart-line', color: 'text-orange-500', bg: 'bg-orange-500/5' },
+  { key: 'xq', name: '雪球讨论榜', short: '雪球', icon: 'fa-snowflake', color: 'text-blue-400', bg: 'bg-blue-400/5' },
+  { key: 'dfcf', name: '东财人气榜', short: '东财', icon: 'fa-fire', color: 'text-red-500', bg: 'bg-red-500/5' }
+];
+
+/** 热榜缓存有效期 */
+export const TRENDING_TTL_MS = 15 * 60 * 1000;
+
+/** 实时获取与缓存均不可用时的兜底榜单 */
+export const TRENDING_FALLBACK: Record<TrendingPlatform, string[]> = {
+  ths: ["中际旭创", "工业母机", "低空经济", "宁德时代", "利欧股份"],
+  xq: ["人形机器人", "高股息资产", "英伟达", "腾讯控股", "贵州茅台"],
+  dfcf: ["固态电池", "券商板块", "白酒龙头", "半导体国产化", "创新药"]
+};
+
+/** 常见实体的别名，用于跨平台去重；键为统一展示的名称 */
+export const TRENDING_ALIASES: Record<string, string[]> = {
+  '英伟达': ['NVIDIA', 'NVDA', '辉达'],
+  '宁德时代': ['CATL', '宁王'],
+  '贵州茅台': ['茅台'],
+  '腾讯控股': ['腾讯'],
+  '中际旭创': ['旭创'],
+  '半导体国产化': ['国产半导体', '半导体国产替代'],
+  '券商板块': ['券商'],
+  '白酒龙头': ['白酒']
+};
+
+/** 批量队列默认同时生产的节目数 */
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export const DEFAULT_MASTERING_SETTINGS: MasteringSettings = {
+  enabled: true,
+  targetLufs: -16,
+  crossfadeMs: 30,
+  speakerPauseMs: 300,
+  bedLevelDb: -14,
+  duckDb: -12
+};
+
+export const DEFAULT_FEED_SETTINGS: FeedSettings = {
+  title: 'FinancePod 财经深读',
+  author: 'FinancePod AI',
+  email: '',
+  description: '每期围绕一个市场热词，拆解来龙去脉、核心矛盾与观察指标。不构成任何投资建议。',
+  link: '',
+  baseUrl: '',
+  artwork: '',
+  category: 'Business',
+  subcategory: 'Investing',
+  explicit: false,
+  language: 'zh'
+};
+
+/** Apple Podcasts 分类（节选与财经节目相关的部分） */
+export const PODCAST_CATEGORIES: { name: string; subcategories: string[] }[] = [
+  { name: 'Business', subcategories: ['Investing', 'Entrepreneurship', 'Management', 'Marketing', 'Careers'] },
+  { name: 'News', subcategories: ['Business News', 'Daily News', 'News Commentary', 'Tech News', 'Politics'] },
+  { name: 'Education', subcategories: ['Courses', 'How To', 'Self-Improvement'] },
+  { name: 'Technology', subcategories: [] }
+];
+
+const KEYWORD_VARIABLE: PromptVariable = { name: 'keyword', description: '热词', required: true, sample: '固态电池' };
+const MATERIAL_VARIABLE: PromptVariable = { name: 'materialJson', description: '素材池 JSON', required: true, sample: '{"hotword_type":"产业","material_pool":{"definition":"……"}}' };
+const FORMAT_VARIABLES: PromptVariable[] = [
+  { name: 'formatLabel', description: '节目形态名称', sample: '标准对谈' },
+  { name: 'duration', description: '目标时长', sample: '8–12 分钟' },
+  { name: 'chars', description: '目标字数区间', sample: '2400–3600' },
+  { name: 'genre', description: '节目体裁', sample: '双人对谈' }
+];
+
+/**
+ * 可在界面中编辑的提示词模板（内置版本）；变量以 {{name}} 引用
+ */
+export const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    id: 'materials',
+    label: '素材搜集',
+    step: WorkflowStep.RESEARCH,
+    variables: [
+      KEYWORD_VARIABLE,
+      { name: 'today', description: '当天日期', sample: '2026-10-19' },
+      { name: 'hotwordTypeStep', description: '热词类型判断说明（早报段落已指定类型）', sample: '先判断热词类型：个股 / 产业 / 经济事件' }
+    ],
+    template: `你是一名“财经研究 + 叙事素材整合”编辑。
+任务：针对关键词“{{keyword}}”，结合联网搜索与公开资料，在 {{today}} 前后可验证信息的基础上，输出可用于播客的“故事化素材池”。
+
+总原则（必须遵守）：
+1) 不输出任何投资建议，不出现买/卖/加仓/抄底/布局/上车等词
+2) 不评价股价涨跌是否合理
+3) 所有判断统一改写为“市场如何理解 / 市场讨论焦点在于 / 被视为”
+4) 允许叙事化表达，但必须克制、可回溯
+5) 不凭空发挥，必须基于可验证线索
+6) 最终只输出严格 JSON，不输出 Markdown 或工具细节
+
+步骤：
+1) {{hotwordTypeStep}}
+2) 针对类型输出素材池 JSON（字段缺失可用空数组/空字符串，禁止编造）
+
+如果是【个股】：
+输出 JSON 结构：
+{
+  "hotword_type": "个股",
+  "company_type": "转型重生型/顺周期扩张型/政策路径型/技术突破型/平台化演进型",
+  "material_pool": {
+    "hook_pack": "一句开场狠话/类比/反常识点",
+    "one_sentence_identity": "一句话公司身份",
+    "why_people_talk_now": ["原因"],
+    "timeline": [{"date": "...", "event": "..."}],
+    "original_business_model": "业务描述",
+    "core_tensions": ["核心矛盾"],
+    "validation_metrics": ["监控指标"],
+    "risks_and_uncertainty": ["风险点"]
+  }
+}
+
+如果是【产业/概念】：
+输出 JSON 结构：
+{
+  "hotword_type": "产业",
+  "industry_type": "技术范式型/供需周期型/政策驱动型/重资产制造型/平台生态型",
+  "material_pool": {
+    "definition": "边界定义",
+    "core_tensions": ["关键矛盾"],
+    "profit_pool_and_orders": "利润来源变化",
+    "value_migration": "价值迁移路径",
+    "validation_metrics": ["监控指标"],
+    "alternative_explanations": [{"angle": "视角", "core_fact_or_conflict": "事实"}]
+  }
+}
+
+如果是【经济事件/宏观】：
+输出 JSON 结构：
+{
+  "hotword_type": "经济事件",
+  "event_nature": "政策导向/市场异动/全球博弈/宏观指标",
+  "material_pool": {
+    "event_core": "事件核心定义",
+    "why_it_matters": "为什么它是现在的焦点",
+    "stakeholders": ["核心利益相关方及立场"],
+    "historical_precedent": "历史类似事件对比",
+    "structural_reasons": "背后的深层结构化原因",
+    "chain_reaction": ["可能引发的连锁反应"],
+    "observation_window": ["关键观察时间点/信号"]
+  }
+}
+
+注意：只输出 JSON，信息密度高但语言克制。`
+  },
+  {
+    id: 'hooks',
+    label: '爆点设计',
+    step: WorkflowStep.INSIGHTS,
+    variables: [KEYWORD_VARIABLE, MATERIAL_VARIABLE],
+    template: `基于“{{keyword}}”的素材池：{{materialJson}}
+任务：生成播客第一句话、类比、反常识洞察、3条金句和3个制作亮点。只输出 JSON。`
+  },
+  {
+    id: 'outline',
+    label: '大纲生成',
+    step: WorkflowStep.OUTLINE,
+    variables: [
+      KEYWORD_VARIABLE,
+      MATERIAL_VARIABLE,
+      ...FORMAT_VARIABLES,
+      { name: 'formatOutline', description: '节目形态的大纲要求', required: true, sample: '输出 4 个段落的逻辑因果链大纲……' }
+    ],
+    template: `针对关键词“{{keyword}}”，基于素材池：{{materialJson}}
+节目形态：{{formatLabel}}（{{duration}}，约 {{chars}} 字的{{genre}}节目）。
+{{formatOutline}}`
+  },
+  {
+    id: 'script',
+    label: '脚本撰写',
+    step: WorkflowStep.DRAFTING,
+    variables: [
+      KEYWORD_VARIABLE,
+      MATERIAL_VARIABLE,
+      { name: 'outline', description: '大纲', required: true, sample: '一、……\n二、……' },
+      { name: 'today', description: '当天日期', sample: '2026-10-19' },
+      ...FORMAT_VARIABLES,
+      { name: 'sections', description: '段落数', sample: '4' },
+      { name: 'formatStructure', description: '节目形态的结构要求', sample: '开场 → 三段拆解 → 收尾' },
+      { name: 'castNames', description: '说话人名单', sample: '老陈 × 小林' },
+      { name: 'hostName', description: '主持人', sample: '老陈' },
+      { name: 'roles', description: '角色设定列表', required: true, sample: '- **老陈**（主持）：……\n- **小林**（嘉宾）：……' },
+      { name: 'dialogueFormat', description: '对话格式示例', required: true, sample: '“老陈：...”和“小林：...”' },
+      { name: 'speakerCount', description: '说话人数', sample: '2' },
+      { name: 'citationRule', description: '来源标注规则（无来源时为空）', sample: '6. **来源标注**：……' },
+      { name: 'sourceBrief', description: '可引用来源清单（无来源时为空）', sample: '可引用来源（编号与其支撑的事实）：\n[S1] ……' }
+    ],
+    template: `你是一名“财经播客脚本生成 Agent”，专门负责关于“{{keyword}}”的深度对谈。
+
+任务：
+基于以下关于“{{keyword}}”的素材，生成一篇 **{{duration}}（约 {{chars}} 字）** 的「{{castNames}}」{{genre}}财经播客脚本。
+
+========================
+【强约束：开场白要求】
+========================
+脚本必须直接以对话开始。在{{hostName}}的第一段话中，必须完成以下任务：
+1. **明确宣告主题**：告诉听众今天的主角是“{{keyword}}”。
+2. **说明讨论缘由**：简述为什么现在要聊这个话题（结合当前市场热度/事件突发性）。
+3. **内容预告（纲要化）**：明确指出接下来会从哪 {{sections}} 个维度或方面展开深度拆解。
+
+========================
+【节目形态：{{formatLabel}}】
+========================
+{{formatStructure}}
+
+========================
+【核心纪律（必须内化）】
+========================
+1. **严禁偏离主题**：所有的讨论内容必须严格围绕“{{keyword}}”展开。如果是经济事件，则讨论该事件的影响力；如果是产业，则讨论产业逻辑。严禁跨领域胡乱联想。
+2. **拒绝投资建议**：不评价股价涨跌是否合理，不出现 买/卖/加仓/抄底/布局 等词。
+3. **角色设定**：
+{{roles}}
+4. **对话格式**：严格使用{{dialogueFormat}}格式，只允许出现以上 {{speakerCount}} 位说话人。
+5. **纯净输出**：只输出对话正文，除来源编号外不输出分析、脚注或 [脚本开始] 等标记。
+{{citationRule}}
+========================
+【素材与大纲】
+========================
+素材池：{{materialJson}}
+大纲参考：{{outline}}
+{{sourceBrief}}
+生成字数：{{chars}} 字。
+`
   }
 ];
@@ -0,0 +1,59 @@
+/**
+ * 可中止的等待：signal 中止时以其 reason 拒绝
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * 以有限并发处理列表，结果顺序与输入一致
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  onRetry?: (attempt: number, error: unknown) => void;
+  /** 中止后不再重试，退避等待也随之结束 */
+  signal?: AbortSignal;
+  /** 返回 false 的错误直接抛出，不再重试 */
+  retryable?: (error: unknown) => boolean;
+}
+
+/**
+ * 指数退避重试：第 n 次重试前等待 baseDelayMs × 2^(n-1)
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, { retries, baseDelayMs, onRetry, signal, retryable }: RetryOptions): Promise<T> {
+  let attempt = 0;
+  while (true) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      if (attempt >= retries || retryable?.(err) === false) throw err;
+      attempt++;
+      onRetry?.(attempt, err);
+      await sleep(baseDelayMs * 2 ** (attempt - 1), signal);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import { PodcastContent } from "../types";
+
+/**
+ * 可导出的 PCM 音源（AudioBuffer 天然满足该结构）
+ */
+export type PcmSource = Pick<AudioBuffer, 'sampleRate' | 'numberOfChannels' | 'length' | 'getChannelData'>;
+
+export interface EpisodeTags {
+  title: string;
+  keyword: string;
+  date: string;
+  comments: string[];
+  artist: string;
+  album: string;
+}
+
+const ARTIST = 'FinancePod AI';
+const MP3_FRAME = 1152;
+
+export function buildEpisodeTags(content: PodcastContent): EpisodeTags {
+  return {
+    title: content.title || `${content.keyword} 深度解读`,
+    keyword: content.keyword,
+    date: (content.createdAt || new Date().toISOString()).slice(0, 10),
+    comments: content.highlights?.map(h => `${h.label}：${h.description}`) || [],
+    artist: ARTIST,
+    album: 'FinancePod PRO'
+  };
+}
+
+export function exportFileName(content: PodcastContent, ext: 'wav' | 'mp3' | 'srt' | 'vtt' | 'chapters.json'): string {
+  const base = (content.title || content.keyword || 'episode').replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60);
+  const date = (content.createdAt || new Date().toISOString()).slice(0, 10);
+  return `${date}_${base}.${ext}`;
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const p of parts) { out.set(p, offset); offset += p.length; }
+  return out;
+}
+
+/**
+ * RIFF LIST/INFO 子块：每个字段以 \0 结尾并按偶数字节对齐
+ */
+function buildInfoChunk(tags: EpisodeTags): Uint8Array {
+  const fields: [string, string][] = [
+    ['INAM', tags.title],
+    ['IART', tags.artist],
+    ['IPRD', tags.album],
+    ['ICRD', tags.date],
+    ['IKEY', tags.keyword],
+    ['ICMT', tags.comments.join(' | ')],
+    ['ISFT', ARTIST]
+  ];
+  const subChunks = fields.filter(([, v]) => v).map(([id, value]) => {
+    const text = utf8(value + '\0');
+    const padded = new Uint8Array(8 + text.length + (text.length % 2));
+    const view = new DataView(padded.buffer);
+    padded.set(utf8(id), 0);
+    view.setUint32(4, text.length, true);
+    padded.set(text, 8);
+    return padded;
+  });
+  const body = concatBytes([utf8('INFO'), ...subChunks]);
+  const chunk = new Uint8Array(8 + body.length);
+  chunk.set(utf8('LIST'), 0);
+  new DataView(chunk.buffer).setUint32(4, body.length, true);
+  chunk.set(body, 8);
+  return chunk;
+}
+
+/**
+ * 编码 16-bit PCM WAV，并写入 LIST/INFO 元数据
+ */
+export function encodeWav(source: PcmSource, tags?: EpisodeTags): Blob {
+  const channels = source.numberOfChannels;
+  const channelData = Array.from({ length: channels }, (_, c) => source.getChannelData(c));
+  const dataSize = source.length * channels * 2;
+  const info = tags ? buildInfoChunk(tags) : new Uint8Array(0);
+
+  const header = new ArrayBuffer(36);
+  const view = new DataView(header);
+  const writeId = (offset: number, id: string) => { for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i)); };
+  writeId(0, 'RIFF');
+  view.setUint32(4, 28 + info.length + 8 + dataSize, true);
+  writeId(8, 'WAVE');
+  writeId(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, source.sampleRate, true);
+  view.setUint32(28, source.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+
+  const dataHeader = new ArrayBuffer(8);
+  const dataView = new DataView(dataHeader);
+  for (let i = 0; i < 4; i++) dataView.setUint8(i, 'data'.charCodeAt(i));
+  dataView.setUint32(4, dataSize, true);
+
+  const pcm = new DataView(new ArrayBuffer(dataSize));
+  let offset = 0;
+  for (let i = 0; i < source.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const s = Math.max(-1, Math.min(1, channelData[c][i]));
+      pcm.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([header, info, dataHeader, pcm.buffer], { type: 'audio/wav' });
+}
+
+const syncSafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f];
+
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+  return concatBytes([utf8(id), new Uint8Array(syncSafe(body.length)), new Uint8Array([0, 0]), body]);
+}
+
+const id3Text = (id: string, value: string) => id3Frame(id, concatBytes([new Uint8Array([3]), utf8(value)]));
+
+/**
+ * ID3v2.4 标签（UTF-8 编码，兼容中文标题）
+ */
+function buildId3Tag(tags: EpisodeTags): Uint8Array {
+  const frames = [
+    id3Text('TIT2', tags.title),
+    id3Text('TPE1', tags.artist),
+    id3Text('TALB', tags.album),
+    id3Text('TDRC', tags.date),
+    id3Text('TCON', 'Podcast'),
+    id3Frame('TXXX', concatBytes([new Uint8Array([3]), utf8('KEYWORD\0'), utf8(tags.keyword)]))
+  ];
+  if (tags.comments.length > 0) {
+    frames.push(id3Frame('COMM', concatBytes([new Uint8Array([3]), utf8('chi'), new Uint8Array([0]), utf8(tags.comments.join('\n'))])));
+  }
+  const body = concatBytes(frames);
+  return concatBytes([utf8('ID3'), new Uint8Array([4, 0, 0]), new Uint8Array(syncSafe(body.length)), body]);
+}
+
+/**
+ * 浏览器内离线编码 MP3（lamejs），分批让出主线程以免界面卡死
+ */
+export async function encodeMp3(source: PcmSource, tags?: EpisodeTags, kbps = 128, onProgress?: (ratio: number) => void): Promise<Blob> {
+  const channels = Math.min(2, source.numberOfChannels);
+  const encoder = new Mp3Encoder(channels, source.sampleRate, kbps);
+  const left = toInt16(source.getChannelData(0));
+  const right = channels > 1 ? toInt16(source.getChannelData(1)) : undefined;
+
+  const parts: Uint8Array[] = tags ? [buildId3Tag(tags)] : [];
+  const batch = MP3_FRAME * 200;
+  for (let i = 0; i < left.length; i += MP3_FRAME) {
+    const chunk = encoder.encodeBuffer(left.subarray(i, i + MP3_FRAME), right?.subarray(i, i + MP3_FRAME));
+    if (chunk.length > 0) parts.push(new Uint8Array(chunk));
+    if (i % batch === 0) {
+      onProgress?.(i / left.length);
+      await new Promise(r => setTimeout(r, 0));
+    }
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(new Uint8Array(tail));
+  onProgress?.(1);
+
+  return new Blob(parts, { type: 'audio/mpeg' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,97 @@
+import { BatchJob, PodcastContent } from "../types";
+import { DEFAULT_BATCH_CONCURRENCY } from "../constants";
+import { OrchestratorListener, RunOptions, createOrchestrator } from "./orchestrator";
+import { newEpisodeId } from "./episodeLibrary";
+import { topicKey } from "./trending";
+
+const STORAGE_KEY = 'financepod.batchConcurrency';
+
+export function loadBatchConcurrency(): number {
+  const saved = Number(localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(saved) && saved > 0 ? saved : DEFAULT_BATCH_CONCURRENCY;
+}
+
+export function saveBatchConcurrency(concurrency: number) {
+  localStorage.setItem(STORAGE_KEY, String(concurrency));
+}
+
+export class BatchStoppedError extends Error {
+  constructor(public reason: 'pause' | 'cancel') {
+    super(reason === 'pause' ? '任务已暂停。' : '任务已取消。');
+    this.name = 'BatchStoppedError';
+  }
+}
+
+/** 仍在队列中、尚未结束的任务 */
+export const isActiveJob = (job: BatchJob) => job.status === 'queued' || job.status === 'running' || job.status === 'paused' || job.status === 'blocked';
+
+/**
+ * 将关键词加入队列：与队列中未结束的任务重复（按实体归一比较，含常见别名）的关键词会被跳过
+ */
+export function enqueueKeywords(jobs: BatchJob[], keywords: string[]): { jobs: BatchJob[]; added: string[]; skipped: string[] } {
+  const seen = new Set(jobs.filter(isActiveJob).map(j => topicKey(j.keyword)));
+  const added: string[] = [];
+  const skipped: string[] = [];
+  for (const raw of keywords) {
+    const keyword = raw.trim();
+    if (!keyword) continue;
+    const key = topicKey(keyword);
+    if (seen.has(key)) {
+      skipped.push(keyword);
+      continue;
+    }
+    seen.add(key);
+    added.push(keyword);
+  }
+  const enqueuedAt = new Date().toISOString();
+  return {
+    jobs: [...jobs, ...added.map(keyword => ({
+      id: newEpisodeId(),
+      keyword,
+      episodeId: newEpisodeId(),
+      status: 'queued' as const,
+      enqueuedAt,
+      progress: 0,
+      logs: []
+    }))],
+    added,
+    skipped
+  };
+}
+
+/**
+ * 调整任务顺序：与相邻的等待中任务交换位置，队列按顺序取任务执行
+ */
+export function moveJob(jobs: BatchJob[], id: string, delta: -1 | 1): BatchJob[] {
+  const movable = (job: BatchJob) => job.status === 'queued' || job.status === 'paused';
+  const from = jobs.findIndex(j => j.id === id);
+  if (from < 0 || !movable(jobs[from])) return jobs;
+  let to = from + delta;
+  while (to >= 0 && to < jobs.length && !movable(jobs[to])) to += delta;
+  if (to < 0 || to >= jobs.length) return jobs;
+  const next = [...jobs];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+/**
+ * 按队列顺序取出可以开始的任务，运行中的任务数不超过 concurrency
+ */
+export function nextRunnable(jobs: BatchJob[], concurrency: number): BatchJob[] {
+  const running = jobs.filter(j => j.status === 'running').length;
+  return jobs.filter(j => j.status === 'queued').slice(0, Math.max(0, concurrency - running));
+}
+
+/**
+ * 执行一个批量任务：经由生产编排从检查点继续跑完整条链路，步骤时限、用量与缓存与单期生产一致；
+ * 暂停或取消通过 signal 中止进行中的调用，已完成的步骤保留为检查点
+ */
+export async function runBatchJob(draft: PodcastContent, options: RunOptions, onEvent: OrchestratorListener): Promise<PodcastContent> {
+  const orchestrator = createOrchestrator();
+  const unsubscribe = orchestrator.subscribe(onEvent);
+  try {
+    return (await orchestrator.run(draft, options)).draft;
+  } finally {
+    unsubscribe();
+  }
+}
@@ -0,0 +1,135 @@
+import { Briefing, BriefingSegment, CastMember, MasteringSettings, MaterialPool, PodcastContent, WorkflowStep } from "../types";
+import * as gemini from "./geminiService";
+import { PipelineHooks, callOptions } from "./pipeline";
+import { parseMaterialPool } from "./materials";
+import { formatSegmentHeading, parseSegmentHeading } from "./scriptDiff";
+import { recordPromptVersion } from "./prompts";
+
+export const briefingKeyword = (date: string) => `${date} 财经早报`;
+
+/**
+ * 早报草稿：日期进入关键词与提示词，启用响应缓存时取缓存的日期分桶，回放跨日也能命中录制
+ */
+export function createBriefing(
+  events: { title: string; summary: string }[],
+  base: { id: string; createdAt: string; cast: CastMember[]; mastering: MasteringSettings },
+  date = base.createdAt.slice(0, 10)
+): PodcastContent {
+  return {
+    ...base,
+    keyword: briefingKeyword(date),
+    briefing: { date, segments: events.map(e => ({ title: e.title, summary: e.summary })) }
+  };
+}
+
+/**
+ * 各段素材池，供事实核查与素材展示使用
+ */
+export function briefingPools(briefing: Briefing): MaterialPool[] {
+  return briefing.segments.filter(s => s.materials).map(s => parseMaterialPool(s.materials!).pool);
+}
+
+/**
+ * 各段素材合并为一份带段落标题的文本，作为爆点设计等通用步骤的素材输入
+ */
+const briefingDigest = (briefing: Briefing) =>
+  briefing.segments.map((s, i) => `${formatSegmentHeading(`第 ${i + 1} 条 ${s.title}`)}\n${s.materials}`).join('\n\n');
+
+/** 只保留“说话人：台词”行，避免模型输出的标记被误当作段落标题 */
+const dialogueOnly = (text: string) => text.split('\n').map(l => l.trim()).filter(l => /^[^：:【]+[：:]/.test(l)).join('\n');
+
+/**
+ * 拼接早报脚本：开场、各事件段落与收尾回顾之间以段落标题行分隔
+ */
+export function assembleBriefingScript(briefing: Briefing): string {
+  return [
+    [formatSegmentHeading('开场'), dialogueOnly(briefing.opener || '')],
+    ...briefing.segments.map((s, i) => [formatSegmentHeading(`第 ${i + 1} 条 ${s.title}`), dialogueOnly(s.script || '')]),
+    [formatSegmentHeading('收尾回顾'), dialogueOnly(briefing.recap || '')]
+  ].filter(([, body]) => body).map(parts => parts.join('\n')).join('\n');
+}
+
+/**
+ * 按段落标题切分脚本，返回各段标题与所含行号区间 [start, end)
+ */
+export function splitSegments(script: string): { title: string; start: number; end: number }[] {
+  const lines = script.split('\n');
+  const segments: { title: string; start: number; end: number }[] = [];
+  lines.forEach((line, i) => {
+    const title = parseSegmentHeading(line);
+    if (!title) return;
+    if (segments.length > 0) segments[segments.length - 1].end = i;
+    segments.push({ title, start: i, end: lines.length });
+  });
+  return segments;
+}
+
+const updateSegment = (draft: PodcastContent, index: number, patch: Partial<BriefingSegment>): PodcastContent => ({
+  ...draft,
+  briefing: { ...draft.briefing!, segments: draft.briefing!.segments.map((s, i) => i === index ? { ...s, ...patch } : s) }
+});
+
+/**
+ * 早报模式下的素材、大纲与脚本步骤：逐条事件落检查点，失败重试时跳过已完成的段落；
+ * 其余步骤与单期节目一致，返回 undefined 交由通用流程处理
+ */
+export async function executeBriefingStep(step: WorkflowStep, draft: PodcastContent, hooks: PipelineHooks): Promise<PodcastContent | undefined> {
+  const { log, commit } = hooks;
+  const call = callOptions(hooks);
+  const briefing = draft.briefing!;
+  switch (step) {
+    case WorkflowStep.RESEARCH: {
+      let next = draft;
+      for (const [index, segment] of briefing.segments.entries()) {
+        if (segment.materials) continue;
+        log(`正在搜集第 ${index + 1} / ${briefing.segments.length} 条「${segment.title}」的素材...`, "working");
+        const res = await gemini.collectMaterials(segment.summary ? `${segment.title}（${segment.summary}）` : segment.title, msg => log(msg, "working"), '经济事件', call);
+        if (res.repairs.length > 0) log(`素材池格式已自动修复：${res.repairs.join('；')}。`, "info");
+        // 各段来源依次追加到节目来源列表，检索支撑的下标随之平移
+        const offset = next.groundingLinks?.length || 0;
+        next = commit(updateSegment({
+          ...next,
+          groundingLinks: [...(next.groundingLinks || []), ...res.links],
+          groundedClaims: [...(next.groundedClaims || []), ...res.claims.map(c => ({ ...c, sourceIndices: c.sourceIndices.map(i => i + offset) }))]
+        }, index, { materials: res.materialJson, sourceIndices: res.links.map((_, i) => offset + i) }));
+      }
+      log(`${briefing.segments.length} 条事件素材搜集完成，共识别 ${next.groundingLinks?.length || 0} 个数据源。`, "success");
+      return recordPromptVersion({ ...next, materials: briefingDigest(next.briefing!) }, 'materials');
+    }
+    case WorkflowStep.OUTLINE: {
+      let next = draft;
+      if (!next.outline) {
+        log("构建早报合并大纲：开场、分条段落、过渡与收尾回顾...", "working");
+        next = commit({ ...next, outline: await gemini.generateBriefingOutline(briefing.date, briefing.segments, call) });
+      }
+      if (!next.title) {
+        const title = await gemini.generateEpisodeTitle(next.keyword, next.hooks || [], call);
+        next = { ...next, title };
+        log(`标题定稿：${title}`, "success");
+      }
+      return next;
+    }
+    case WorkflowStep.DRAFTING: {
+      let next = draft;
+      if (!next.briefing!.opener || !next.briefing!.recap) {
+        log("正在撰写早报开场与收尾回顾...", "working");
+        const frame = await gemini.generateBriefingFrame(briefing.date, briefing.segments, next.outline!, next.cast, call);
+        next = commit({ ...next, briefing: { ...next.briefing!, ...frame } });
+      }
+      for (const [index, segment] of next.briefing!.segments.entries()) {
+        if (segment.script) continue;
+        log(`正在撰写第 ${index + 1} / ${briefing.segments.length} 条「${segment.title}」的对话段落...`, "working");
+        const script = await gemini.generateBriefingSegment(briefing.date, next.briefing!.segments, index, next.outline!, next.cast, {
+          links: next.groundingLinks || [],
+          claims: next.groundedClaims || []
+        }, call);
+        next = commit(updateSegment(next, index, { script }));
+      }
+      const script = assembleBriefingScript(next.briefing!);
+      log(`早报脚本拼接完成：开场、${briefing.segments.length} 条段落与收尾回顾。`, "success");
+      return { ...next, draftScript: script, finalScript: script };
+    }
+    default:
+      return undefined;
+  }
+}
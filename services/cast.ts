@@ -0,0 +1,39 @@
+import { CastMember } from "../types";
+import { DEFAULT_CAST } from "../constants";
+
+const STORAGE_KEY = 'financepod.cast';
+
+export function loadCast(): CastMember[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return Array.isArray(saved) && saved.length > 0 ? saved : DEFAULT_CAST;
+  } catch {
+    return DEFAULT_CAST;
+  }
+}
+
+export function saveCast(cast: CastMember[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cast));
+}
+
+/**
+ * 将模型输出的说话人标签归一到阵容中的名字（如“主持人（小王）”→“主持人”），无法匹配时返回 undefined
+ */
+export function matchSpeaker(label: string, cast: CastMember[]): string | undefined {
+  // 英文等语言版本的标签大小写不一（如 HOST、Host）
+  const normalized = label.replace(/\*\*/g, '').trim().toLowerCase();
+  return cast.find(m => m.name.toLowerCase() === normalized)?.name
+    ?? [...cast].sort((a, b) => b.name.length - a.name.length).find(m => normalized.includes(m.name.toLowerCase()))?.name;
+}
+
+export function castVoices(cast: CastMember[]) {
+  return cast.map(m => ({ speaker: m.name, voice: m.voice }));
+}
+
+export function validateCast(cast: CastMember[]): string | null {
+  if (cast.length === 0) return '阵容至少需要一位说话人。';
+  if (cast.some(m => !m.name.trim())) return '说话人名字不能为空。';
+  if (cast.some(m => /[：:]/.test(m.name))) return '说话人名字不能包含冒号。';
+  if (new Set(cast.map(m => m.name.trim())).size !== cast.length) return '说话人名字不能重复。';
+  return null;
+}
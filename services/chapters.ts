@@ -0,0 +1,148 @@
+import { Chapter, PodcastContent, TimingEntry } from "../types";
+import { parseSegmentHeading } from "./scriptDiff";
+import { timingIndexForLines } from "./timing";
+
+/** 大纲各级段落标记，依次尝试，取第一个切出至少两段的层级 */
+const SECTION_MARKERS = [
+  /^#{1,2}\s+/,
+  /^第[一二三四五六七八九十\d]+[章节部分][：:、.．\s]*/,
+  /^[一二三四五六七八九十]+[、.．]\s*/,
+  /^\d+[、.．)）]\s*(?!\d)/
+];
+
+// 与预期位置的偏差惩罚：没有字面重合时退化为按台词数均分
+const POSITION_WEIGHT = 0.5;
+
+interface OutlineSection {
+  title: string;
+  /** 标题与所属子要点，用于和台词比对 */
+  text: string;
+}
+
+/**
+ * 切出大纲的顶层段落（只认不缩进的行）
+ */
+export function parseOutlineSections(outline: string): OutlineSection[] {
+  const lines = (outline || '').split('\n').map(l => l.replace(/\*\*/g, '')).filter(l => l.trim());
+  for (const marker of SECTION_MARKERS) {
+    const sections: OutlineSection[] = [];
+    for (const line of lines) {
+      if (!/^\s/.test(line) && marker.test(line)) {
+        sections.push({ title: line.replace(marker, '').replace(/[：:]\s*$/, '').trim(), text: line });
+      } else if (sections.length > 0) {
+        sections[sections.length - 1].text += `\n${line}`;
+      }
+    }
+    if (sections.filter(s => s.title).length >= 2) return sections.filter(s => s.title);
+  }
+  return [];
+}
+
+/** 中文按相邻两字、其他语言按相邻两词切出特征 */
+function features(text: string): Set<string> {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+|[\u4e00-\u9fff]/g) || [];
+  const result = new Set<string>();
+  for (let i = 1; i < tokens.length; i++) result.add(tokens[i - 1] + tokens[i]);
+  return result;
+}
+
+function overlap(line: Set<string>, section: Set<string>): number {
+  if (line.size === 0) return 0;
+  let hits = 0;
+  line.forEach(f => { if (section.has(f)) hits++; });
+  return hits / line.size;
+}
+
+/**
+ * 将台词按顺序切分给各段落：动态规划使每段至少一句、段落顺序不变，
+ * 且台词与所属段落的字面重合度（扣除位置偏差）之和最大；返回各段落第一句的下标
+ */
+export function alignSections(lines: string[], sections: string[]): number[] {
+  const n = lines.length;
+  const k = Math.min(sections.length, n);
+  if (k === 0) return [];
+  const lineFeatures = lines.map(features);
+  const sectionFeatures = sections.slice(0, k).map(features);
+  const score = (i: number, s: number) =>
+    overlap(lineFeatures[i], sectionFeatures[s]) - POSITION_WEIGHT * Math.abs((i + 0.5) / n - (s + 0.5) / k);
+
+  const best: number[][] = Array.from({ length: n }, () => new Array(k).fill(-Infinity));
+  const fromPrev: boolean[][] = Array.from({ length: n }, () => new Array(k).fill(false));
+  best[0][0] = score(0, 0);
+  for (let i = 1; i < n; i++) {
+    for (let s = 0; s < Math.min(k, i + 1); s++) {
+      const stay = best[i - 1][s];
+      const advance = s > 0 ? best[i - 1][s - 1] : -Infinity;
+      fromPrev[i][s] = advance > stay;
+      best[i][s] = Math.max(stay, advance) + score(i, s);
+    }
+  }
+
+  const starts = new Array(k).fill(0);
+  let s = k - 1;
+  for (let i = n - 1; i > 0 && s > 0; i--) {
+    if (fromPrev[i][s]) starts[s--] = i;
+  }
+  return starts;
+}
+
+/**
+ * 早报等带分段标题的脚本：每个分段标题对应其后第一句台词
+ */
+function headingStarts(content: PodcastContent): { title: string; line: number }[] {
+  const index = timingIndexForLines(content.finalScript || '', content.cast);
+  const starts: { title: string; line: number }[] = [];
+  let pending: string | undefined;
+  (content.finalScript || '').split('\n').forEach((line, i) => {
+    const heading = parseSegmentHeading(line);
+    if (heading) pending = heading;
+    else if (pending && index[i] >= 0) {
+      starts.push({ title: pending, line: index[i] });
+      pending = undefined;
+    }
+  });
+  return starts;
+}
+
+/**
+ * 章节：有分段标题时按标题切分，否则将大纲顶层段落对齐到时间轴；
+ * 第一章从 0 秒开始（包含片头），最后一章到成片结尾
+ */
+export function buildChapters(content: PodcastContent): Chapter[] {
+  const timing: TimingEntry[] = content.timingMap || [];
+  if (timing.length === 0) return [];
+  const duration = content.audioBuffer?.duration ?? timing[timing.length - 1].end;
+
+  // 脚本修改后尚未重合成时，超出时间轴的分段忽略
+  let starts = headingStarts(content).filter(s => s.line < timing.length);
+  if (starts.length === 0) {
+    const sections = parseOutlineSections(content.outline || '');
+    const aligned = alignSections(timing.map(t => t.text), sections.map(s => s.text));
+    starts = aligned.map((line, i) => ({ title: sections[i].title, line }));
+  }
+  if (starts.length === 0) return [];
+
+  return starts.map((s, i) => ({
+    title: s.title,
+    line: s.line,
+    start: i === 0 ? 0 : timing[s.line].start,
+    end: i + 1 < starts.length ? timing[starts[i + 1].line].start : duration
+  }));
+}
+
+export function findActiveChapter(chapters: Chapter[], time: number): number {
+  for (let i = chapters.length - 1; i >= 0; i--) if (time >= chapters[i].start) return i;
+  return -1;
+}
+
+/**
+ * Podcasting 2.0 章节文件（application/json+chapters）
+ */
+export function buildChaptersJson(chapters: Chapter[], title?: string): string {
+  const round = (t: number) => Math.round(t * 1000) / 1000;
+  return JSON.stringify({
+    version: '1.2.0',
+    ...(title ? { title } : {}),
+    chapters: chapters.map(c => ({ startTime: round(c.start), endTime: round(c.end), title: c.title }))
+  }, null, 2);
+}
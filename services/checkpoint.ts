@@ -0,0 +1,78 @@
+import { WorkflowStep, PodcastContent } from "../types";
+
+/**
+ * 实际执行的生产步骤（按执行顺序）
+ */
+export const PIPELINE_STEPS: WorkflowStep[] = [
+  WorkflowStep.RESEARCH,
+  WorkflowStep.INSIGHTS,
+  WorkflowStep.OUTLINE,
+  WorkflowStep.DRAFTING,
+  WorkflowStep.FACT_CHECK,
+  WorkflowStep.REVIEW,
+  WorkflowStep.SYNTHESIS,
+  WorkflowStep.MASTERING
+];
+
+/**
+ * 以 content 中已产出的字段作为各步骤的检查点
+ */
+export function isStepComplete(step: WorkflowStep, content: PodcastContent): boolean {
+  switch (step) {
+    case WorkflowStep.TRIGGER: return !!content.keyword;
+    case WorkflowStep.RESEARCH: return !!content.materials;
+    case WorkflowStep.INSIGHTS: return !!content.hooks;
+    case WorkflowStep.OUTLINE: return !!content.outline && !!content.title;
+    case WorkflowStep.DRAFTING: return !!(content.draftScript || content.finalScript);
+    // 早于事实核查与合规审校产出的历史节目没有报告，已合成音频即视为通过；
+    // 语言版本译自已通过核查与审校的原版脚本
+    case WorkflowStep.FACT_CHECK: return content.variantOf ? !!content.finalScript : content.factCheck ? content.factCheck.resolved : !!content.audioBuffer;
+    case WorkflowStep.REVIEW: return content.variantOf ? !!content.finalScript : content.reviewReport ? !content.reviewReport.blocked : !!content.audioBuffer;
+    case WorkflowStep.SYNTHESIS: return !!content.audioBuffer;
+    // 未启用母带处理（含早期节目）时，合成产出即为成片
+    case WorkflowStep.MASTERING: return !!content.audioBuffer && (!content.mastering?.enabled || !!content.masteringReport);
+    default: return false;
+  }
+}
+
+/**
+ * 第一个尚未完成的步骤；全部完成时返回 undefined
+ */
+export function findResumeStep(content: PodcastContent): WorkflowStep | undefined {
+  return PIPELINE_STEPS.find(step => !isStepComplete(step, content));
+}
+
+export function downstreamOf(step: WorkflowStep): WorkflowStep[] {
+  const index = PIPELINE_STEPS.indexOf(step);
+  return index < 0 ? [] : PIPELINE_STEPS.slice(index + 1);
+}
+
+/**
+ * 早报各段的素材或脚本检查点
+ */
+const clearBriefing = (content: PodcastContent, fields: 'research' | 'drafting'): PodcastContent['briefing'] => content.briefing && {
+  ...content.briefing,
+  ...(fields === 'drafting' ? { opener: undefined, recap: undefined } : {}),
+  segments: content.briefing.segments.map(s => fields === 'research'
+    ? { ...s, materials: undefined, sourceIndices: undefined }
+    : { ...s, script: undefined })
+};
+
+/**
+ * 清除某一步骤的产出，使其在下次运行时重新生成
+ */
+export function clearStepOutput(step: WorkflowStep, content: PodcastContent): PodcastContent {
+  switch (step) {
+    case WorkflowStep.RESEARCH: return { ...content, materials: undefined, groundingLinks: undefined, groundedClaims: undefined, briefing: clearBriefing(content, 'research') };
+    case WorkflowStep.INSIGHTS: return { ...content, hooks: undefined, highlights: undefined };
+    case WorkflowStep.OUTLINE: return { ...content, outline: undefined, title: undefined };
+    case WorkflowStep.DRAFTING: return { ...content, draftScript: undefined, finalScript: undefined, factCheck: undefined, reviewReport: undefined, lengthCheck: undefined, briefing: clearBriefing(content, 'drafting') };
+    case WorkflowStep.FACT_CHECK: return { ...content, factCheck: undefined };
+    case WorkflowStep.REVIEW: return { ...content, reviewReport: undefined };
+    case WorkflowStep.SYNTHESIS: return { ...content, audioBuffer: undefined, audioChunks: undefined, timingMap: undefined, voiceTrack: undefined, masteringReport: undefined };
+    case WorkflowStep.MASTERING: return content.voiceTrack
+      ? { ...content, audioBuffer: content.voiceTrack.buffer, timingMap: content.voiceTrack.timing, masteringReport: undefined }
+      : { ...content, masteringReport: undefined };
+    default: return content;
+  }
+}
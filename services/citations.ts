@@ -0,0 +1,74 @@
+import { GroundedClaim } from "../types";
+
+/**
+ * 脚本中的来源标注形如 [S1] 或 [S1,S3]，编号对应 groundingLinks 的顺序（从 1 开始）
+ */
+const CITATION = /\[(S\d+(?:\s*[,，]\s*S\d+)*)\]/g;
+const LEADING_CITATIONS = /^(\s*\[S\d+(?:\s*[,，]\s*S\d+)*\])+/;
+
+// 含数字、比例或公告披露类表述的句子视为需要来源支撑的事实陈述
+const FACTUAL = /\d|百分之|[十百千万亿]倍|同比|环比|公告|披露|数据显示|报告显示|统计/;
+
+export const sourceId = (index: number) => `S${index + 1}`;
+
+export function stripCitations(text: string): string {
+  return text.replace(CITATION, '');
+}
+
+function citedIndices(text: string, sourceCount: number): number[] {
+  const indices = Array.from(text.matchAll(CITATION))
+    .flatMap(m => m[1].split(/[,，]/))
+    .map(id => parseInt(id.trim().slice(1), 10) - 1)
+    .filter(i => i >= 0 && i < sourceCount);
+  return Array.from(new Set(indices));
+}
+
+export interface CitedSentence {
+  text: string;
+  sourceIndices: number[];
+  factual: boolean;
+}
+
+/**
+ * 将一句台词拆成句子并解析各句的来源标注；标注写在句末标点之后的，归入前一句
+ */
+export function splitCitedSentences(text: string, sourceCount: number): CitedSentence[] {
+  const parts: string[] = [];
+  for (const part of text.split(/(?<=[。！？!?；;])/)) {
+    const leading = part.match(LEADING_CITATIONS)?.[0];
+    if (leading && parts.length > 0) {
+      parts[parts.length - 1] += leading;
+      parts.push(part.slice(leading.length));
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.filter(p => p.trim()).map(part => {
+    const plain = stripCitations(part);
+    return { text: plain, sourceIndices: citedIndices(part, sourceCount), factual: FACTUAL.test(plain) };
+  });
+}
+
+/**
+ * 全文引用统计：已标注来源的句子数与缺少来源的事实陈述数
+ */
+export function citationStats(script: string, sourceCount: number): { cited: number; unsourced: number } {
+  const sentences = script.split('\n')
+    .map(line => line.match(/^[^：:]+[：:](.*)$/)?.[1])
+    .filter((body): body is string => !!body)
+    .flatMap(body => splitCitedSentences(body, sourceCount));
+  return {
+    cited: sentences.filter(s => s.sourceIndices.length > 0).length,
+    unsourced: sentences.filter(s => s.factual && s.sourceIndices.length === 0).length
+  };
+}
+
+/**
+ * 供脚本提示词使用的来源清单：每个来源附上检索时由其支撑的事实片段
+ */
+export function buildSourceBrief(links: { title: string }[], claims: GroundedClaim[], maxClaimsPerSource = 3): string {
+  return links.map((link, i) => {
+    const supported = claims.filter(c => c.sourceIndices.includes(i)).slice(0, maxClaimsPerSource);
+    return [`[${sourceId(i)}] ${link.title}`, ...supported.map(c => `  - ${c.text}`)].join('\n');
+  }).join('\n');
+}
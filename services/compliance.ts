@@ -0,0 +1,83 @@
+import { ReviewFinding, ReviewRule } from "../types";
+import { DEFAULT_REVIEW_RULES } from "../constants";
+
+const STORAGE_KEY = 'financepod.reviewSettings';
+
+export interface ReviewSettings {
+  rules: ReviewRule[];
+  blockOnHardViolations: boolean;
+}
+
+/**
+ * 存在未解决的硬性违规时阻断后续音频合成
+ */
+export class ReviewBlockedError extends Error {
+  constructor(public hardViolations: number) {
+    super(`听感合规审校发现 ${hardViolations} 处硬性违规，已阻断音频合成。`);
+    this.name = 'ReviewBlockedError';
+  }
+}
+
+export function loadReviewSettings(): ReviewSettings {
+  const defaults: ReviewSettings = { rules: DEFAULT_REVIEW_RULES, blockOnHardViolations: true };
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved) return defaults;
+    // 内置规则以代码为准，仅沿用用户的启用状态；自定义规则原样保留
+    const rules = [
+      ...DEFAULT_REVIEW_RULES.map(r => ({ ...r, enabled: saved.rules?.find((s: ReviewRule) => s.id === r.id)?.enabled ?? r.enabled })),
+      ...(saved.rules || []).filter((r: ReviewRule) => r.category === 'custom')
+    ];
+    return { rules, blockOnHardViolations: saved.blockOnHardViolations ?? true };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveReviewSettings(settings: ReviewSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function createCustomRule(word: string, severity: ReviewRule['severity'] = 'hard'): ReviewRule {
+  return {
+    id: `custom-${word}`,
+    label: `自定义：${word}`,
+    category: 'custom',
+    severity,
+    pattern: word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+    enabled: true
+  };
+}
+
+/**
+ * 逐行扫描脚本：仅检查台词正文，不检查说话人标签
+ */
+export function scanScript(script: string, rules: ReviewRule[]): ReviewFinding[] {
+  const active = rules.filter(r => r.enabled).map(r => ({ rule: r, regex: new RegExp(r.pattern, 'g') }));
+  const findings: ReviewFinding[] = [];
+  script.split('\n').forEach((line, index) => {
+    const match = line.match(/^([^：:]+)[：:](.*)$/);
+    if (!match) return;
+    const [, speaker, text] = match;
+    const matches = active.flatMap(({ rule, regex }) =>
+      Array.from(text.matchAll(regex), m => ({ ruleId: rule.id, label: rule.label, severity: rule.severity, text: m[0] }))
+    );
+    if (matches.length > 0) findings.push({ line: index, speaker: speaker.trim(), text: text.trim(), matches });
+  });
+  return findings;
+}
+
+/**
+ * 将改写后的台词写回脚本（保留原说话人标签）
+ */
+export function applyRewrites(script: string, rewrites: { line: number; text: string }[]): string {
+  const lines = script.split('\n');
+  for (const { line, text } of rewrites) {
+    const speaker = lines[line]?.match(/^([^：:]+)[：:]/)?.[1];
+    if (speaker && text.trim()) lines[line] = `${speaker}：${text.trim()}`;
+  }
+  return lines.join('\n');
+}
+
+export const countBySeverity = (findings: ReviewFinding[], severity: ReviewRule['severity']) =>
+  findings.reduce((acc, f) => acc + f.matches.filter(m => m.severity === severity).length, 0);
@@ -0,0 +1,209 @@
+import { AudioAssetRef, PodcastContent, TimingEntry } from "../types";
+import { AudioBufferFactory } from "./pcm";
+
+const DB_NAME = 'financepod-library';
+const DB_VERSION = 2;
+const EPISODE_STORE = 'episodes';
+const AUDIO_STORE = 'audio';
+const ASSET_STORE = 'assets';
+
+/**
+ * 节目库中的一期节目（不含音频，音频单独存放以保证列表加载轻量）
+ */
+export type StoredEpisode = Omit<PodcastContent, 'audioBuffer' | 'voiceTrack'> & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  duration?: number;
+  voiceTiming?: TimingEntry[];
+};
+
+interface StoredAudio {
+  id: string;
+  sampleRate: number;
+  pcm: ArrayBuffer;
+  /** 母带处理前的人声轨；未做母带处理时与 pcm 相同，不重复存储 */
+  voicePcm?: ArrayBuffer;
+}
+
+interface StoredAsset {
+  id: string;
+  name: string;
+  sampleRate: number;
+  pcm: ArrayBuffer;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(EPISODE_STORE)) db.createObjectStore(EPISODE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export const newEpisodeId = () => crypto.randomUUID();
+
+/**
+ * AudioBuffer 无法直接存入 IndexedDB，统一转为 16-bit PCM 原始数据
+ */
+function encodePcm(samples: Float32Array): ArrayBuffer {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm.buffer;
+}
+
+function decodePcm(data: ArrayBuffer, sampleRate: number, audioContext: AudioBufferFactory): AudioBuffer {
+  const pcm = new Int16Array(data);
+  const buffer = audioContext.createBuffer(1, Math.max(1, pcm.length), sampleRate);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768.0;
+  return buffer;
+}
+
+/**
+ * 保存（或覆盖）一期节目；content.id 缺失时调用方应先分配 id
+ */
+export async function saveEpisode(content: PodcastContent & { id: string }): Promise<StoredEpisode> {
+  const { audioBuffer, voiceTrack, ...rest } = content;
+  const now = new Date().toISOString();
+  const episode: StoredEpisode = {
+    ...rest,
+    createdAt: content.createdAt || now,
+    updatedAt: now,
+    duration: audioBuffer?.duration,
+    voiceTiming: voiceTrack?.timing
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([EPISODE_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(EPISODE_STORE).put(episode);
+  if (audioBuffer) {
+    const audio: StoredAudio = {
+      id: content.id,
+      sampleRate: audioBuffer.sampleRate,
+      pcm: encodePcm(audioBuffer.getChannelData(0)),
+      voicePcm: voiceTrack && voiceTrack.buffer !== audioBuffer ? encodePcm(voiceTrack.buffer.getChannelData(0)) : undefined
+    };
+    tx.objectStore(AUDIO_STORE).put(audio);
+  } else {
+    tx.objectStore(AUDIO_STORE).delete(content.id);
+  }
+  await done(tx);
+  return episode;
+}
+
+/**
+ * 节目列表，按创建时间倒序
+ */
+export async function listEpisodes(): Promise<StoredEpisode[]> {
+  const db = await openDb();
+  const episodes = await promisify<StoredEpisode[]>(db.transaction(EPISODE_STORE).objectStore(EPISODE_STORE).getAll());
+  return episodes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * 载入完整节目（含还原后的 AudioBuffer）
+ */
+export async function loadEpisode(id: string, audioContext: AudioBufferFactory): Promise<PodcastContent | null> {
+  const db = await openDb();
+  const tx = db.transaction([EPISODE_STORE, AUDIO_STORE]);
+  const [episode, audio] = await Promise.all([
+    promisify<StoredEpisode | undefined>(tx.objectStore(EPISODE_STORE).get(id)),
+    promisify<StoredAudio | undefined>(tx.objectStore(AUDIO_STORE).get(id))
+  ]);
+  if (!episode) return null;
+  const { updatedAt, duration, voiceTiming, ...content } = episode;
+  if (!audio) return content;
+  const audioBuffer = decodePcm(audio.pcm, audio.sampleRate, audioContext);
+  const voiceTrack = voiceTiming
+    ? { buffer: audio.voicePcm ? decodePcm(audio.voicePcm, audio.sampleRate, audioContext) : audioBuffer, timing: voiceTiming }
+    : undefined;
+  return { ...content, audioBuffer, voiceTrack };
+}
+
+export async function deleteEpisode(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([EPISODE_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(EPISODE_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await done(tx);
+}
+
+/**
+ * 复制一期节目（含音频），副本获得新的 id 与创建时间
+ */
+export async function duplicateEpisode(id: string): Promise<StoredEpisode | null> {
+  const db = await openDb();
+  const readTx = db.transaction([EPISODE_STORE, AUDIO_STORE]);
+  const [episode, audio] = await Promise.all([
+    promisify<StoredEpisode | undefined>(readTx.objectStore(EPISODE_STORE).get(id)),
+    promisify<StoredAudio | undefined>(readTx.objectStore(AUDIO_STORE).get(id))
+  ]);
+  if (!episode) return null;
+
+  const now = new Date().toISOString();
+  const copy: StoredEpisode = {
+    ...episode,
+    id: newEpisodeId(),
+    title: `${episode.title || episode.keyword}（副本）`,
+    createdAt: now,
+    updatedAt: now
+  };
+  const tx = db.transaction([EPISODE_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(EPISODE_STORE).put(copy);
+  if (audio) tx.objectStore(AUDIO_STORE).put({ ...audio, id: copy.id });
+  await done(tx);
+  return copy;
+}
+
+/**
+ * 保存用户上传的音频素材（片头、片尾、背景音乐），统一混为单声道存储
+ */
+export async function saveAudioAsset(name: string, buffer: AudioBuffer): Promise<AudioAssetRef> {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  const asset: StoredAsset = { id: newEpisodeId(), name, sampleRate: buffer.sampleRate, pcm: encodePcm(mono) };
+  const db = await openDb();
+  const tx = db.transaction(ASSET_STORE, 'readwrite');
+  tx.objectStore(ASSET_STORE).put(asset);
+  await done(tx);
+  return { id: asset.id, name, duration: buffer.duration };
+}
+
+export async function loadAudioAsset(id: string, audioContext: AudioBufferFactory): Promise<AudioBuffer | null> {
+  const db = await openDb();
+  const asset = await promisify<StoredAsset | undefined>(db.transaction(ASSET_STORE).objectStore(ASSET_STORE).get(id));
+  return asset ? decodePcm(asset.pcm, asset.sampleRate, audioContext) : null;
+}
@@ -0,0 +1,137 @@
+import { FactCheckItem, FactCheckReport, FactKind, GroundedClaim, MaterialPool } from "../types";
+import { MATERIAL_FIELD_LABELS } from "./materials";
+import { sourceId, stripCitations } from "./citations";
+
+/**
+ * 脚本中的一处事实提及；canonical 为归一化后的取值，用于与素材比对
+ */
+export interface FactMention {
+  line: number;
+  speaker: string;
+  value: string;
+  kind: FactKind;
+  canonical: string;
+}
+
+/**
+ * 素材中的一条可引用事实
+ */
+export interface MaterialFact {
+  label: string;
+  text: string;
+  canonicals: Set<string>;
+}
+
+export class FactCheckPendingError extends Error {
+  constructor(public flagged: number) {
+    super(`事实核查发现 ${flagged} 处数字、日期或名称无法在素材中找到依据，音频合成已暂停。`);
+    this.name = 'FactCheckPendingError';
+  }
+}
+
+const SCALE: Record<string, number> = { '千': 1e3, '万': 1e4, '亿': 1e8, '万亿': 1e12 };
+
+const PATTERNS: { kind: FactKind; regex: RegExp; canonical: (m: RegExpMatchArray) => string | null }[] = [
+  {
+    kind: 'date',
+    regex: /(\d{4})\s*年\s*(\d{1,2})\s*月(?:\s*(\d{1,2})\s*[日号])?|(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?/g,
+    canonical: m => [m[1] || m[4], m[2] || m[5], m[3] || m[6]].filter(Boolean).map(Number).join('-')
+  },
+  {
+    kind: 'date',
+    regex: /(\d{4})\s*年/g,
+    canonical: m => String(Number(m[1]))
+  },
+  {
+    kind: 'percent',
+    regex: /(\d+(?:\.\d+)?)\s*(%|％|个百分点)|百分之\s*(\d+(?:\.\d+)?)/g,
+    canonical: m => `${Number(m[1] || m[3])}${m[2] === '个百分点' ? 'pp' : '%'}`
+  },
+  {
+    kind: 'number',
+    regex: /(\d+(?:\.\d+)?)\s*(万亿|亿|万|千)?\s*(元|美元|港元|吨|辆|台|家|倍|GW|GWh|MW|亿元|万元)?/g,
+    // 不带量级和单位的小整数多为口语计数（“三个方面”“2 个原因”），不作核查
+    canonical: m => !m[2] && !m[3] && Number(m[1]) < 10 ? null : `${Number(m[1]) * (SCALE[m[2]] || 1)}${m[3] || ''}`
+  }
+];
+
+/**
+ * 抽取文本中的数字、百分比与日期；先匹配的模式会占用该段文字，避免重复计数
+ */
+function extractValues(text: string): { value: string; kind: FactKind; canonical: string }[] {
+  let rest = stripCitations(text);
+  const values: { value: string; kind: FactKind; canonical: string }[] = [];
+  for (const { kind, regex, canonical } of PATTERNS) {
+    rest = rest.replace(regex, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpMatchArray;
+      const key = canonical(match);
+      if (key) values.push({ value: match[0].trim(), kind, canonical: key });
+      return ' '.repeat(match[0].length);
+    });
+  }
+  return values;
+}
+
+export function extractMentions(script: string): FactMention[] {
+  return script.split('\n').flatMap((line, index) => {
+    const match = line.match(/^([^：:]+)[：:](.*)$/);
+    if (!match) return [];
+    return extractValues(match[2]).map(v => ({ line: index, speaker: match[1].trim(), ...v }));
+  });
+}
+
+/**
+ * 将素材池（早报为各段素材池）与检索支撑展开为逐条事实
+ */
+export function materialFacts(pools: MaterialPool[], claims: GroundedClaim[] = []): MaterialFact[] {
+  const entries: { label: string; text: string }[] = [];
+  for (const [field, value] of pools.flatMap(pool => Object.entries(pool.material_pool))) {
+    const label = MATERIAL_FIELD_LABELS[field] || '深度抽取补充';
+    if (typeof value === 'string') {
+      if (value) entries.push({ label, text: value });
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        const text = typeof item === 'string' ? item
+          : 'event' in item ? `${item.date} ${item.event}`
+          : `${item.angle}：${item.core_fact_or_conflict}`;
+        entries.push({ label, text });
+      }
+    }
+  }
+  claims.forEach(claim => entries.push({ label: `来源 ${claim.sourceIndices.map(sourceId).join(',')}`, text: claim.text }));
+  return entries.map(e => ({ ...e, canonicals: new Set(extractValues(e.text).map(v => v.canonical)) }));
+}
+
+/**
+ * 在素材中寻找与提及一致的事实：日期允许只写到年份或月份
+ */
+export function findSupport(mention: Pick<FactMention, 'kind' | 'value' | 'canonical'>, facts: MaterialFact[]): MaterialFact | undefined {
+  if (mention.kind === 'company' || mention.kind === 'person') {
+    return facts.find(f => f.text.includes(mention.value));
+  }
+  return facts.find(f => f.canonicals.has(mention.canonical)
+    || (mention.kind === 'date' && Array.from(f.canonicals).some(c => c.startsWith(`${mention.canonical}-`))));
+}
+
+export const flaggedItems = (report: FactCheckReport) => report.items.filter(i => i.verdict !== 'supported');
+
+export const flaggedLines = (report: FactCheckReport) => Array.from(new Set(flaggedItems(report).map(i => i.line))).sort((a, b) => a - b);
+
+/**
+ * 删除指定台词，并同步更新报告中的行号
+ */
+export function strikeLines(script: string, report: FactCheckReport, lines: number[]): { script: string; report: FactCheckReport } {
+  const removed = new Set(lines);
+  const all = script.split('\n');
+  const shift = (line: number) => line - lines.filter(l => l < line).length;
+  const items: FactCheckItem[] = report.items.filter(i => !removed.has(i.line)).map(i => ({ ...i, line: shift(i.line) }));
+  return {
+    script: all.filter((_, i) => !removed.has(i)).join('\n'),
+    report: {
+      ...report,
+      items,
+      struck: [...report.struck, ...all.filter((_, i) => removed.has(i))],
+      resolved: items.every(i => i.verdict === 'supported')
+    }
+  };
+}
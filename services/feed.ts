@@ -0,0 +1,239 @@
+import { FeedSettings, PodcastContent } from "../types";
+import { DEFAULT_FEED_SETTINGS, LANGUAGES } from "../constants";
+import * as gemini from "./geminiService";
+import { loadEpisode } from "./episodeLibrary";
+import { buildEpisodeTags, encodeMp3 } from "./audioExport";
+import { createZip } from "./zip";
+import { AudioBufferFactory } from "./pcm";
+import { buildChapters, buildChaptersJson } from "./chapters";
+import { buildSubtitleCues, toSrt, toWebVtt } from "./subtitles";
+
+const STORAGE_KEY = 'financepod.feed';
+
+/** Podcasting 2.0 约定的 podcast:guid 命名空间（UUIDv5） */
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+export const FEED_FILE = 'feed.xml';
+
+export function loadFeedSettings(): FeedSettings {
+  try {
+    return { ...DEFAULT_FEED_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_FEED_SETTINGS;
+  }
+}
+
+export function saveFeedSettings(settings: FeedSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const feedUrl = (settings: FeedSettings) => `${trimSlash(settings.baseUrl)}/${FEED_FILE}`;
+
+/** 音频在打包目录与托管地址下的相对路径，以节目 id 命名保证稳定 */
+export const episodeAudioPath = (id: string) => `episodes/${id}.mp3`;
+
+/** 章节与字幕文件与音频同目录、同名 */
+const episodeFilePath = (id: string, ext: 'chapters.json' | 'srt' | 'vtt') => `episodes/${id}.${ext}`;
+
+/**
+ * 频道设置是否可以生成订阅源，不满足时返回提示
+ */
+export function validateFeedSettings(settings: FeedSettings): string | null {
+  if (!settings.title.trim()) return '请填写节目名称。';
+  if (!settings.author.trim()) return '请填写作者。';
+  if (!/^https?:\/\/[^\s/]+/.test(settings.baseUrl.trim())) return '托管地址需以 http:// 或 https:// 开头。';
+  if (settings.artwork && !/^https?:\/\//.test(settings.artwork.trim())) return '封面图需填写完整的 http(s) 地址。';
+  return null;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/** CDATA 内不能出现 ]]>，拆成两段 */
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+/** itunes:duration 使用 HH:MM:SS */
+export function formatFeedDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  return [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60].map(n => n.toString().padStart(2, '0')).join(':');
+}
+
+/**
+ * podcast:guid：以订阅源地址（去掉协议与末尾斜杠）按 UUIDv5 生成，换托管目录前保持不变
+ */
+export async function podcastGuid(url: string): Promise<string> {
+  const name = url.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, '');
+  const namespace = PODCAST_GUID_NAMESPACE.replace(/-/g, '').match(/../g)!.map(h => parseInt(h, 16));
+  const input = new Uint8Array([...namespace, ...new TextEncoder().encode(name)]);
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', input)).slice(0, 16);
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = Array.from(hash, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * 订阅源中的一期节目：音频已编码为 MP3
+ */
+export interface FeedEpisode {
+  content: PodcastContent;
+  title: string;
+  /** MP3 文件字节数 */
+  length: number;
+  /** 秒 */
+  duration: number;
+  /** 是否随附章节文件 */
+  chapters: boolean;
+  /** 是否随附 SRT/WebVTT 字幕 */
+  transcript: boolean;
+}
+
+/** 纯文本简介：金句在前，看点在后 */
+export function episodeDescription(content: PodcastContent): string {
+  const hooks = content.hooks || [];
+  const highlights = (content.highlights || []).map(h => `${h.label}：${h.description}`);
+  return [...hooks, ...highlights].join(' ') || `${content.keyword} 深度解读`;
+}
+
+/**
+ * 节目说明（HTML）：金句、本期看点与参考来源
+ */
+export function episodeShowNotes(content: PodcastContent): string {
+  const parts = (content.hooks || []).map(h => `<p>${escapeXml(h)}</p>`);
+  if (content.highlights?.length) {
+    parts.push('<h3>本期看点</h3>');
+    parts.push(`<ul>${content.highlights.map(h => `<li><strong>${escapeXml(h.label)}</strong>：${escapeXml(h.description)}</li>`).join('')}</ul>`);
+  }
+  if (content.groundingLinks?.length) {
+    parts.push('<h3>参考来源</h3>');
+    parts.push(`<ol>${content.groundingLinks.map(l => `<li><a href="${escapeXml(l.uri)}">${escapeXml(l.title || l.uri)}</a></li>`).join('')}</ol>`);
+  }
+  parts.push('<p>本节目内容由 AI 辅助生成，仅供参考，不构成任何投资建议。</p>');
+  return parts.join('\n');
+}
+
+function buildItem(settings: FeedSettings, episode: FeedEpisode): string {
+  const { content } = episode;
+  const base = trimSlash(settings.baseUrl);
+  const description = episodeDescription(content);
+  const language = (LANGUAGES.find(l => l.key === content.language) || LANGUAGES[0]).code;
+  const fileUrl = (ext: 'chapters.json' | 'srt' | 'vtt') => escapeXml(`${base}/${episodeFilePath(content.id!, ext)}`);
+  return [
+    '    <item>',
+    `      <title>${escapeXml(episode.title)}</title>`,
+    `      <description>${escapeXml(description)}</description>`,
+    `      <content:encoded>${cdata(episodeShowNotes(content))}</content:encoded>`,
+    `      <guid isPermaLink="false">${escapeXml(content.id!)}</guid>`,
+    `      <pubDate>${new Date(content.createdAt || Date.now()).toUTCString()}</pubDate>`,
+    `      <enclosure url="${escapeXml(`${base}/${episodeAudioPath(content.id!)}`)}" length="${episode.length}" type="audio/mpeg"/>`,
+    `      <itunes:title>${escapeXml(episode.title)}</itunes:title>`,
+    `      <itunes:summary>${escapeXml(description)}</itunes:summary>`,
+    `      <itunes:duration>${formatFeedDuration(episode.duration)}</itunes:duration>`,
+    `      <itunes:episodeType>full</itunes:episodeType>`,
+    `      <itunes:explicit>${settings.explicit ? 'true' : 'false'}</itunes:explicit>`,
+    ...(content.keyword ? [`      <itunes:keywords>${escapeXml(content.keyword)}</itunes:keywords>`] : []),
+    ...(episode.chapters ? [`      <podcast:chapters url="${fileUrl('chapters.json')}" type="application/json+chapters"/>`] : []),
+    ...(episode.transcript ? [
+      `      <podcast:transcript url="${fileUrl('vtt')}" type="text/vtt" language="${language}"/>`,
+      `      <podcast:transcript url="${fileUrl('srt')}" type="application/x-subrip" language="${language}"/>`
+    ] : []),
+    '    </item>'
+  ].join('\n');
+}
+
+/**
+ * 生成 RSS 2.0 订阅源，附带 iTunes 与 Podcasting 2.0 命名空间，节目按发布时间倒序
+ */
+export async function buildFeed(settings: FeedSettings, episodes: FeedEpisode[]): Promise<string> {
+  const url = feedUrl(settings);
+  const link = settings.link.trim() || trimSlash(settings.baseUrl);
+  const language = LANGUAGES.find(l => l.key === settings.language)?.code || LANGUAGES[0].code;
+  const artwork = settings.artwork.trim();
+  const category = settings.subcategory
+    ? [`    <itunes:category text="${escapeXml(settings.category)}">`, `      <itunes:category text="${escapeXml(settings.subcategory)}"/>`, '    </itunes:category>']
+    : [`    <itunes:category text="${escapeXml(settings.category)}"/>`];
+  const sorted = [...episodes].sort((a, b) => (b.content.createdAt || '').localeCompare(a.content.createdAt || ''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(settings.title)}</title>`,
+    `    <link>${escapeXml(link)}</link>`,
+    `    <description>${escapeXml(settings.description || settings.title)}</description>`,
+    `    <language>${language}</language>`,
+    `    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(url)}" rel="self" type="application/rss+xml"/>`,
+    `    <podcast:guid>${await podcastGuid(url)}</podcast:guid>`,
+    `    <podcast:locked>no</podcast:locked>`,
+    `    <itunes:author>${escapeXml(settings.author)}</itunes:author>`,
+    `    <itunes:summary>${escapeXml(settings.description || settings.title)}</itunes:summary>`,
+    '    <itunes:owner>',
+    `      <itunes:name>${escapeXml(settings.author)}</itunes:name>`,
+    ...(settings.email.trim() ? [`      <itunes:email>${escapeXml(settings.email.trim())}</itunes:email>`] : []),
+    '    </itunes:owner>',
+    ...(artwork ? [
+      `    <itunes:image href="${escapeXml(artwork)}"/>`,
+      '    <image>',
+      `      <url>${escapeXml(artwork)}</url>`,
+      `      <title>${escapeXml(settings.title)}</title>`,
+      `      <link>${escapeXml(link)}</link>`,
+      '    </image>'
+    ] : []),
+    ...category,
+    `    <itunes:explicit>${settings.explicit ? 'true' : 'false'}</itunes:explicit>`,
+    '    <itunes:type>episodic</itunes:type>',
+    ...sorted.map(e => buildItem(settings, e)),
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+export interface FeedProgress {
+  /** 已处理的节目数 */
+  done: number;
+  total: number;
+  title?: string;
+}
+
+/**
+ * 打包订阅源：逐期载入节目并编码 MP3（长度与时长取自实际音频），附带章节与字幕文件，
+ * 生成 feed.xml 后与 episodes/ 目录一起压缩为 zip，整体上传到托管地址即可
+ */
+export async function buildFeedPackage(
+  settings: FeedSettings,
+  episodeIds: string[],
+  audioContext: AudioBufferFactory,
+  onProgress?: (progress: FeedProgress) => void
+): Promise<Blob> {
+  const error = validateFeedSettings(settings);
+  if (error) throw new Error(error);
+
+  const episodes: FeedEpisode[] = [];
+  const files: { name: string; data: Uint8Array }[] = [];
+  for (const id of episodeIds) {
+    const content = await loadEpisode(id, audioContext);
+    if (!content?.audioBuffer) throw new Error(`节目 ${id} 没有可用的音频，无法加入订阅源`);
+    const title = content.title || await gemini.generateEpisodeTitle(content.keyword, content.hooks || []);
+    onProgress?.({ done: episodes.length, total: episodeIds.length, title });
+    const mp3 = await encodeMp3(content.audioBuffer, { ...buildEpisodeTags(content), title });
+    files.push({ name: episodeAudioPath(id), data: new Uint8Array(await mp3.arrayBuffer()) });
+
+    const chapters = buildChapters(content);
+    const cues = buildSubtitleCues(content.timingMap || []);
+    const encoder = new TextEncoder();
+    if (chapters.length > 0) files.push({ name: episodeFilePath(id, 'chapters.json'), data: encoder.encode(buildChaptersJson(chapters, title)) });
+    if (cues.length > 0) {
+      files.push({ name: episodeFilePath(id, 'vtt'), data: encoder.encode(toWebVtt(cues)) });
+      files.push({ name: episodeFilePath(id, 'srt'), data: encoder.encode(toSrt(cues)) });
+    }
+    episodes.push({ content, title, length: mp3.size, duration: content.audioBuffer.duration, chapters: chapters.length > 0, transcript: cues.length > 0 });
+  }
+  onProgress?.({ done: episodes.length, total: episodeIds.length });
+
+  const xml = await buildFeed(settings, episodes);
+  return createZip([{ name: FEED_FILE, data: new TextEncoder().encode(xml) }, ...files]);
+}
@@ -0,0 +1,63 @@
+import { CastMember, EpisodeFormat, FormatPreset, LengthCheck } from "../types";
+import { CAST_PRESETS, FORMAT_LENGTH_TOLERANCE, FORMAT_PRESETS } from "../constants";
+import { stripCitations } from "./citations";
+
+const STORAGE_KEY = 'financepod.format';
+
+export function loadFormat(): EpisodeFormat {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return FORMAT_PRESETS.some(p => p.id === saved) ? saved as EpisodeFormat : 'standard';
+}
+
+export function saveFormat(format: EpisodeFormat) {
+  localStorage.setItem(STORAGE_KEY, format);
+}
+
+/** 早期节目没有记录形态，按标准对谈处理 */
+export const formatPreset = (format?: EpisodeFormat): FormatPreset =>
+  FORMAT_PRESETS.find(p => p.id === format) || FORMAT_PRESETS[0];
+
+/**
+ * 阵容是否满足形态的说话人布局，不满足时返回提示
+ */
+export function validateFormatCast(preset: FormatPreset, cast: CastMember[]): string | null {
+  if (!preset.layout) return null;
+  const hosts = cast.filter(m => m.role === 'host').length;
+  const guests = cast.length - hosts;
+  if (hosts === preset.layout.hosts && guests === preset.layout.guests) return null;
+  return preset.layout.guests === 0
+    ? `「${preset.label}」只能有一位主持说话人。`
+    : `「${preset.label}」需要 ${preset.layout.hosts} 位主持与 ${preset.layout.guests} 位嘉宾。`;
+}
+
+/**
+ * 切换形态时的阵容：当前阵容满足布局则保留，否则套用形态推荐的阵容预设
+ */
+export function castForFormat(preset: FormatPreset, cast: CastMember[]): CastMember[] {
+  if (!validateFormatCast(preset, cast)) return cast;
+  return CAST_PRESETS.find(p => p.id === preset.castPreset)?.members || cast;
+}
+
+/**
+ * 脚本字数：只统计台词正文，不含说话人标签、来源编号与空白
+ */
+export function scriptLength(script: string): number {
+  return stripCitations(script).split('\n')
+    .filter(line => /^[^：:【]+[：:]/.test(line.trim()))
+    .map(line => line.replace(/^[^：:]+[：:]/, '').replace(/\s|\*\*/g, ''))
+    .join('').length;
+}
+
+/**
+ * 比对脚本字数与形态目标：落在目标区间按容忍比例放宽后的范围内即视为达标
+ */
+export function checkLength(script: string, preset: FormatPreset, draftChars?: number): LengthCheck {
+  const chars = scriptLength(script);
+  const [min, max] = preset.chars;
+  return {
+    chars,
+    target: preset.chars,
+    draftChars,
+    withinTolerance: chars >= min * (1 - FORMAT_LENGTH_TOLERANCE) && chars <= max * (1 + FORMAT_LENGTH_TOLERANCE)
+  };
+}
@@ -1,56 +1,93 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { getProvider } from "./providers";
+import { BriefingSegment, CastMember, FactCheckItem, FormatPreset, GroundedClaim, HotwordType, LanguagePreset, LengthCheck, MaterialPool, ReviewFinding, SynthesisChunk, SynthesisPolicy, TimingEntry, TrendingPlatform } from "../types";
+import { DEFAULT_CAST, DEFAULT_SYNTHESIS_POLICY, FORMAT_PRESETS } from "../constants";
+import { castVoices, matchSpeaker } from "./cast";
+import { diffLines, formatTurns, parseTurns } from "./scriptDiff";
+import { buildTimingMap } from "./timing";
+import { AudioBufferFactory } from "./pcm";
+import { mapWithConcurrency, withRetry } from "./async";
+import { parseMaterialPool } from "./materials";
+import { buildSourceBrief, stripCitations } from "./citations";
+import { FactMention, MaterialFact, extractMentions, findSupport, materialFacts } from "./factCheck";
+import { renderPrompt } from "./prompts";
+import { UsageListener, meterProvider } from "./usage";
+import { CacheContext, ReplayMissError, cachedProvider } from "./responseCache";
 
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 const getToday = () => new Date().toISOString().slice(0, 10);
 
-export function cleanScript(text: string): string {
+/**
+ * 单次模型调用的外部控制：取消或超时时中止请求，上报用量，并经过响应缓存
+ */
+export interface ModelCallOptions {
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+  cache?: CacheContext;
+}
+
+// 计量在缓存之外，命中缓存的调用同样记录（不计 token）
+const providerFor = ({ onUsage, cache }: ModelCallOptions, retry = 0) => {
+  const provider = cache ? cachedProvider(getProvider(), cache) : getProvider();
+  return onUsage ? meterProvider(provider, onUsage, retry) : provider;
+};
+
+/**
+ * 只保留“说话人：台词”格式的行；传入阵容时同时校验说话人并归一标签
+ */
+export function cleanScript(text: string, cast?: CastMember[]): string {
   if (!text) return '';
-  return text.replace(/\*\*/g, '').split('\n')
-    .filter(line => /^[^：:]+[：:]/.test(line.trim()))
-    .join('\n');
+  const lines = stripCitations(text.replace(/\*\*/g, '')).split('\n')
+    .filter(line => /^[^：:]+[：:]/.test(line.trim()));
+  if (!cast) return lines.join('\n');
+  return lines.flatMap(line => {
+    const [, label, body] = line.trim().match(/^([^：:]+)[：:](.*)$/)!;
+    const speaker = matchSpeaker(label, cast);
+    return speaker ? [`${speaker}：${body.trim()}`] : [];
+  }).join('\n');
 }
 
 /**
- * 获取热搜榜单
+ * 获取三大平台热搜榜单；只返回格式有效的平台，全部无效时抛错，由调用方决定缓存或兜底
  */
-export async function fetchTrendingTopics(): Promise<Record<string, string[]>> {
-  const ai = getAI();
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: "请实时搜索并总结当前中国 A 股最热门的词条，分别从【同花顺】、【雪球】、【东方财富】三个平台提取各 5 个最热词。以 JSON 格式返回，Key 分别为 'ths', 'xq', 'dfcf'。",
-      config: { 
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json"
-      }
-    });
-    return JSON.parse(response.text || "{}");
-  } catch (e) {
-    return {
-      ths: ["中际旭创", "工业母机", "低空经济", "宁德时代", "利欧股份"],
-      xq: ["人形机器人", "高股息资产", "英稳达", "腾讯控股", "贵州茅台"],
-      dfcf: ["固态电池", "券商板块", "白酒龙头", "半导体国产化", "创新药"]
-    };
+export async function fetchTrendingTopics(call: ModelCallOptions = {}): Promise<Partial<Record<TrendingPlatform, string[]>>> {
+  const response = await providerFor(call).groundedSearch({
+    task: 'trending',
+    signal: call.signal,
+    prompt: "请实时搜索并总结当前中国 A 股最热门的词条，分别从【同花顺】、【雪球】、【东方财富】三个平台提取各 5 个最热词。以 JSON 格式返回，Key 分别为 'ths', 'xq', 'dfcf'。",
+    json: true
+  });
+  const raw = JSON.parse(response.text || "{}");
+  const boards: Partial<Record<TrendingPlatform, string[]>> = {};
+  for (const platform of ['ths', 'xq', 'dfcf'] as TrendingPlatform[]) {
+    const topics = Array.isArray(raw?.[platform])
+      ? raw[platform].filter((t: unknown) => typeof t === 'string').map((t: string) => t.trim()).filter(Boolean)
+      : [];
+    if (topics.length > 0) boards[platform] = topics;
   }
+  if (Object.keys(boards).length === 0) throw new Error("热榜返回内容缺少有效的平台榜单");
+  return boards;
 }
 
 /**
- * 获取今日重大财经大事
+ * 获取今日重大财经大事；fallback 为 false 时（早报生产）不使用内置示例，获取失败直接抛错
  */
-export async function fetchFinancialEvents(): Promise<{title: string, summary: string}[]> {
-  const ai = getAI();
+export async function fetchFinancialEvents(options: { count?: number; fallback?: boolean } & ModelCallOptions = {}): Promise<{title: string, summary: string}[]> {
+  const { count = 3, fallback = true, ...call } = options;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: "搜索并总结今日 A 股最重要的 3 条财经大事。要求：标题简短有力，摘要一句话说明核心影响。以 JSON 数组格式返回，包含 title 和 summary 字段。",
-      config: { 
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json"
-      }
+    const response = await providerFor(call).groundedSearch({
+      task: 'events',
+      signal: call.signal,
+      prompt: `搜索并总结今日 A 股最重要的 ${count} 条财经大事。要求：标题简短有力，摘要一句话说明核心影响。以 JSON 数组格式返回，包含 title 和 summary 字段。`,
+      json: true
     });
-    return JSON.parse(response.text || "[]");
+    const events = JSON.parse(response.text || "[]");
+    if (!Array.isArray(events)) throw new Error("财经大事返回内容不是数组");
+    const valid = events.filter(e => e && typeof e.title === 'string' && e.title.trim())
+      .map(e => ({ title: e.title.trim(), summary: typeof e.summary === 'string' ? e.summary.trim() : '' }));
+    if (valid.length === 0) throw new Error("未获取到今日财经大事");
+    return valid.slice(0, count);
   } catch (e) {
+    if (!fallback || call.signal?.aborted) throw e;
     return [
       { title: "新质生产力政策深化", summary: "相关板块近期表现活跃，资金关注度显著提升。" },
       { title: "多家蓝筹股发布分红方案", summary: "高股息策略成为当前市场避险情绪的首选路径。" }
@@ -58,193 +95,131 @@ export async function fetchFinancialEvents(): Promise<{title: string, summary: s
   }
 }
 
-async function deepDiveLink(url: string, title: string, instruction: string): Promise<string> {
-  const ai = getAI();
+async function deepDiveLink(url: string, title: string, instruction: string, call: ModelCallOptions = {}): Promise<string> {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `针对链接: "${url}" (标题: ${title})。\n任务指导: ${instruction}\n请通过搜索该链接的网页快照、转录文本、笔记分享或评论总结，提取其高密度的核心内容。`,
-      config: { tools: [{ googleSearch: {} }] }
+    const response = await providerFor(call).groundedSearch({
+      task: 'deepDive',
+      signal: call.signal,
+      prompt: `针对链接: "${url}" (标题: ${title})。\n任务指导: ${instruction}\n请通过搜索该链接的网页快照、转录文本、笔记分享或评论总结，提取其高密度的核心内容。`
     });
     return `[来自深度解析: ${title}]\n${response.text}\n\n`;
-  } catch {
+  } catch (e) {
+    if (call.signal?.aborted) throw e;
     return "";
   }
 }
 
 /**
- * 步骤 1：素材搜集（支持：个股、产业、经济事件三类）
+ * 步骤 1：素材搜集（支持：个股、产业、经济事件三类）；指定 hotwordType 时跳过类型判断
  */
-export async function collectMaterials(keyword: string, onProgress?: (msg: string) => void) {
-  const ai = getAI();
-  const today = getToday();
-
-  const prompt = `你是一名“财经研究 + 叙事素材整合”编辑。
-任务：针对关键词“${keyword}”，结合联网搜索与公开资料，在 ${today} 前后可验证信息的基础上，输出可用于播客的“故事化素材池”。
-
-总原则（必须遵守）：
-1) 不输出任何投资建议，不出现买/卖/加仓/抄底/布局/上车等词
-2) 不评价股价涨跌是否合理
-3) 所有判断统一改写为“市场如何理解 / 市场讨论焦点在于 / 被视为”
-4) 允许叙事化表达，但必须克制、可回溯
-5) 不凭空发挥，必须基于可验证线索
-6) 最终只输出严格 JSON，不输出 Markdown 或工具细节
-
-步骤：
-1) 先判断热词类型：个股 / 产业 / 经济事件
-2) 针对类型输出素材池 JSON（字段缺失可用空数组/空字符串，禁止编造）
-
-如果是【个股】：
-输出 JSON 结构：
-{
-  "hotword_type": "个股",
-  "company_type": "转型重生型/顺周期扩张型/政策路径型/技术突破型/平台化演进型",
-  "material_pool": {
-    "hook_pack": "一句开场狠话/类比/反常识点",
-    "one_sentence_identity": "一句话公司身份",
-    "why_people_talk_now": ["原因"],
-    "timeline": [{"date": "...", "event": "..."}],
-    "original_business_model": "业务描述",
-    "core_tensions": ["核心矛盾"],
-    "validation_metrics": ["监控指标"],
-    "risks_and_uncertainty": ["风险点"]
-  }
-}
-
-如果是【产业/概念】：
-输出 JSON 结构：
-{
-  "hotword_type": "产业",
-  "industry_type": "技术范式型/供需周期型/政策驱动型/重资产制造型/平台生态型",
-  "material_pool": {
-    "definition": "边界定义",
-    "core_tensions": ["关键矛盾"],
-    "profit_pool_and_orders": "利润来源变化",
-    "value_migration": "价值迁移路径",
-    "validation_metrics": ["监控指标"],
-    "alternative_explanations": [{"angle": "视角", "core_fact_or_conflict": "事实"}]
-  }
-}
-
-如果是【经济事件/宏观】：
-输出 JSON 结构：
-{
-  "hotword_type": "经济事件",
-  "event_nature": "政策导向/市场异动/全球博弈/宏观指标",
-  "material_pool": {
-    "event_core": "事件核心定义",
-    "why_it_matters": "为什么它是现在的焦点",
-    "stakeholders": ["核心利益相关方及立场"],
-    "historical_precedent": "历史类似事件对比",
-    "structural_reasons": "背后的深层结构化原因",
-    "chain_reaction": ["可能引发的连锁反应"],
-    "observation_window": ["关键观察时间点/信号"]
-  }
-}
+export async function collectMaterials(keyword: string, onProgress?: (msg: string) => void, hotwordType?: HotwordType, call: ModelCallOptions = {}) {
+  const today = call.cache?.date || getToday();
 
-注意：只输出 JSON，信息密度高但语言克制。`;
+  const prompt = renderPrompt('materials', {
+    keyword,
+    today,
+    hotwordTypeStep: hotwordType ? `热词类型已确定为【${hotwordType}】，直接按该类型输出` : '先判断热词类型：个股 / 产业 / 经济事件'
+  });
 
   if (onProgress) onProgress("正在检索多模态素材并识别引用源...");
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: prompt,
-    config: { 
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json"
-    },
+  const response = await providerFor(call).groundedSearch({
+    task: 'materials',
+    signal: call.signal,
+    tier: 'pro',
+    prompt,
+    json: true
   });
 
-  let materialJson = response.text || "";
-  const metadata = response.candidates?.[0]?.groundingMetadata;
-  
-  const links: { title: string; uri: string; type: 'web' | 'video' | 'news' }[] = metadata?.groundingChunks?.map((chunk: any) => {
-    const uri = String(chunk.web?.uri || "");
-    const title = String(chunk.web?.title || '深度参考');
+  const { pool, repairs } = parseMaterialPool(response.text || "", hotwordType);
+
+  const links: { title: string; uri: string; type: 'web' | 'video' | 'news' }[] = response.sources.map((source) => {
+    const uri = source.uri;
+    const title = source.title || '深度参考';
     let type: 'web' | 'video' | 'news' = 'web';
     const videoDomains = ['youtube.com', 'bilibili.com', 'v.qq.com', 'douyin.com', 'xiaoyuzhoufm.com', 'podcast'];
     if (videoDomains.some(d => uri.toLowerCase().includes(d))) type = 'video';
     else if (uri.includes('/news/') || uri.includes('stock')) type = 'news';
     return { title, uri, type };
-  }) || [];
+  });
 
   const mediaLinks = links.filter(l => l.type === 'video').slice(0, 2);
   if (mediaLinks.length > 0) {
     if (onProgress) onProgress(`识别到 ${mediaLinks.length} 个音视频源，正在执行深度穿透抽取...`);
-    let extraInsights = "\n\n--- 深度内容抽取补充 ---\n";
+    const insights: string[] = [];
     for (const link of mediaLinks) {
-      const insight = await deepDiveLink(link.uri, link.title, "寻找该视频的 Transcript、核心论点、金句以及高质量总结。");
-      extraInsights += insight;
-    }
-    
-    try {
-      const parsed = JSON.parse(materialJson);
-      if (parsed.material_pool) {
-        parsed.material_pool.deep_insights_supplement = extraInsights;
-        materialJson = JSON.stringify(parsed);
-      }
-    } catch {
-      materialJson += extraInsights;
+      insights.push(await deepDiveLink(link.uri, link.title, "寻找该视频的 Transcript、核心论点、金句以及高质量总结。", call));
     }
+    pool.material_pool.deep_insights_supplement = [pool.material_pool.deep_insights_supplement, ...insights].filter(Boolean).join('\n');
   }
 
+  // 检索支撑的下标与 links 一一对应（links 由 sources 按序映射而来）
+  let claims: GroundedClaim[] = response.supports.map(s => ({ text: s.text.trim(), sourceIndices: s.sourceIndices }));
   let finalLinks = links;
   if (links.length === 0) {
+    claims = [];
     onProgress?.("正在补全引用源...");
-    const fallback = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `列出关于“${keyword}”的 3 个高质量参考 URL（包括 Bilibili 视频、深度文章、新闻）。`,
-      config: { tools: [{ googleSearch: {} }] }
+    const fallback = await providerFor(call).groundedSearch({
+      task: 'links',
+      signal: call.signal,
+      prompt: `列出关于“${keyword}”的 3 个高质量参考 URL（包括 Bilibili 视频、深度文章、新闻）。`
     });
-    finalLinks = fallback.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
-      title: String(chunk.web?.title || "参考来源"),
-      uri: String(chunk.web?.uri || ""),
-      type: (chunk.web?.uri || "").includes("video") ? "video" : "web" as any
-    })) || [];
+    finalLinks = fallback.sources.map((source) => ({
+      title: source.title || "参考来源",
+      uri: source.uri,
+      type: source.uri.includes("video") ? "video" : "web" as any
+    }));
   }
 
-  return { materialJson, links: finalLinks };
+  return { materialJson: JSON.stringify(pool), pool, repairs, links: finalLinks, claims };
 }
 
 /**
  * 步骤 2：爆点设计
  */
-export async function generateHighlightsAndHooks(keyword: string, materialJson: string) {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `基于“${keyword}”的素材池：${materialJson}\n任务：生成播客第一句话、类比、反常识洞察、3条金句和3个制作亮点。只输出 JSON。`,
-    config: { 
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          hooks: { type: Type.ARRAY, items: { type: Type.STRING } },
-          highlights: { 
-            type: Type.ARRAY, 
-            items: { 
-              type: Type.OBJECT, 
-              properties: {
-                label: { type: Type.STRING },
-                description: { type: Type.STRING }
-              }
+export async function generateHighlightsAndHooks(keyword: string, materialJson: string, call: ModelCallOptions = {}) {
+  const response = await providerFor(call).generateJson({
+    task: 'hooks',
+    signal: call.signal,
+    prompt: renderPrompt('hooks', { keyword, materialJson }),
+    schema: {
+      type: 'object',
+      properties: {
+        hooks: { type: 'array', items: { type: 'string' } },
+        highlights: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string' },
+              description: { type: 'string' }
             }
           }
         }
       }
     }
   });
-  return JSON.parse(response.text || "{}");
+  return response.data;
 }
 
+const formatMinutes = (preset: FormatPreset) =>
+  preset.minutes[0] === preset.minutes[1] ? `${preset.minutes[0]} 分钟` : `${preset.minutes.join('–')} 分钟`;
+
+const formatVariables = (preset: FormatPreset) => ({
+  formatLabel: preset.label,
+  duration: formatMinutes(preset),
+  chars: preset.chars.join('–'),
+  genre: preset.genre
+});
+
 /**
- * 步骤 3：大纲生成
+ * 步骤 3：大纲生成，深度随节目形态的目标时长变化
  */
-export async function generateOutline(keyword: string, materialJson: string) {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `针对关键词“${keyword}”，基于素材池：${materialJson}\n生成一份详细的对话大纲。`,
+export async function generateOutline(keyword: string, materialJson: string, preset: FormatPreset = FORMAT_PRESETS[0], call: ModelCallOptions = {}) {
+  const response = await providerFor(call).generateText({
+    task: 'outline',
+    signal: call.signal,
+    prompt: renderPrompt('outline', { keyword, materialJson, ...formatVariables(preset), formatOutline: preset.outline })
   });
   return response.text || '';
 }
@@ -252,121 +227,648 @@ export async function generateOutline(keyword: string, materialJson: string) {
 /**
  * 步骤 4：标题生成
  */
-export async function generateEpisodeTitle(keyword: string, hooks: string[]): Promise<string> {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `基于“${keyword}”和这些金句：\n${hooks.join('\n')}\n任务：生成【一个】最吸引人的播客标题。约束：只返回标题文本本身，不要多余字符。`,
+export async function generateEpisodeTitle(keyword: string, hooks: string[], call: ModelCallOptions = {}): Promise<string> {
+  const response = await providerFor(call).generateText({
+    task: 'title',
+    signal: call.signal,
+    prompt: `基于“${keyword}”和这些金句：\n${hooks.join('\n')}\n任务：生成【一个】最吸引人的播客标题。约束：只返回标题文本本身，不要多余字符。`
   });
   return response.text?.replace(/["'“”]/g, '').trim() || `${keyword} 深度解读`;
 }
 
+
+function describeCast(cast: CastMember[]) {
+  return {
+    host: cast.find(m => m.role === 'host') || cast[0],
+    roles: cast.map(m =>
+      `- **${m.name}**（${m.role === 'host' ? '主持' : '嘉宾'}）：${m.description}${m.persona ? `人设：${m.persona}` : ''}`
+    ).join('\n'),
+    format: cast.map(m => `“${m.name}：...”`).join('和')
+  };
+}
+
 /**
  * 步骤 5：对话脚本生成（强化：个股/产业/事件三位一体）
  */
-export async function generateScript(keyword: string, materialJson: string, outline: string) {
-  const ai = getAI();
-  const today = getToday();
-
-  const prompt = `你是一名“财经播客脚本生成 Agent”，专门负责关于“${keyword}”的深度对谈。
-
-任务：
-基于以下关于“${keyword}”的素材，生成一篇 **10–15 分钟（约 2000–2800 字）** 的「主持人 × 嘉宾」对话式财经播客脚本。
-
-========================
-【强约束：开场白要求】
-========================
-脚本必须直接以对话开始。在主持人的第一段话中，必须完成以下任务：
-1. **明确宣告主题**：告诉听众今天的主角是“${keyword}”。
-2. **说明讨论缘由**：简述为什么现在要聊这个话题（结合当前市场热度/事件突发性）。
-3. **内容预告（纲要化）**：明确指出接下来会从哪 3-4 个维度或方面展开深度拆解。
-
-========================
-【核心纪律（必须内化）】
-========================
-1. **严禁偏离主题**：所有的讨论内容必须严格围绕“${keyword}”展开。如果是经济事件，则讨论该事件的影响力；如果是产业，则讨论产业逻辑。严禁跨领域胡乱联想。
-2. **拒绝投资建议**：不评价股价涨跌是否合理，不出现 买/卖/加仓/抄底/布局 等词。
-3. **主持人角色**：普通听众的代言人。负责追问、承接、澄清。
-4. **对话格式**：严格使用“主持人：...”和“嘉宾：...”格式。
-5. **纯净输出**：只输出对话正文，不输出分析、脚注或 [脚本开始] 等标记。
-
-========================
-【素材与大纲】
-========================
-素材池：${materialJson}
+export async function generateScript(
+  keyword: string,
+  materialJson: string,
+  outline: string,
+  cast: CastMember[] = DEFAULT_CAST,
+  sources: { links: { title: string }[]; claims: GroundedClaim[] } = { links: [], claims: [] },
+  preset: FormatPreset = FORMAT_PRESETS[0],
+  call: ModelCallOptions = {}
+) {
+  const today = call.cache?.date || getToday();
+  const { host, roles, format } = describeCast(cast);
+
+  const prompt = renderPrompt('script', {
+    keyword,
+    materialJson,
+    outline,
+    today,
+    ...formatVariables(preset),
+    sections: preset.sections,
+    formatStructure: preset.structure,
+    castNames: cast.map(m => m.name).join(' × '),
+    hostName: host.name,
+    roles,
+    dialogueFormat: format,
+    speakerCount: cast.length,
+    citationRule: sources.links.length > 0 ? '6. **来源标注**：涉及数据、日期、公告、政策条文等事实性陈述时，在该句句末标注来源编号，如“……同比增长 30%[S2]。”，多个来源写作 [S1,S3]。只能使用下方列出的编号，没有来源支撑的事实不要编造编号。' : '',
+    sourceBrief: sources.links.length > 0 ? `可引用来源（编号与其支撑的事实）：\n${buildSourceBrief(sources.links, sources.claims)}\n` : ''
+  });
+
+  const response = await providerFor(call).generateText({
+    task: 'script',
+    signal: call.signal,
+    tier: 'pro',
+    prompt,
+    temperature: 0.7,
+    thinkingBudget: 12000
+  });
+
+  return response.text || "";
+}
+
+/**
+ * 步骤 5.1：篇幅校正，脚本字数明显偏离形态目标时扩写或精简，保持结构、事实与来源编号不变
+ */
+export async function adjustScriptLength(keyword: string, script: string, preset: FormatPreset, check: LengthCheck, cast: CastMember[] = DEFAULT_CAST, call: ModelCallOptions = {}): Promise<string> {
+  const { format } = describeCast(cast);
+  const expand = check.chars < check.target[0];
+  const response = await providerFor(call).generateText({
+    task: 'script',
+    signal: call.signal,
+    tier: 'pro',
+    prompt: `以下是关于“${keyword}”的「${preset.label}」播客脚本，目标 ${formatMinutes(preset)}、约 ${check.target.join('–')} 字，当前约 ${check.chars} 字，${expand ? '明显偏短' : '明显偏长'}。
+任务：将脚本${expand ? '扩写' : '精简'}到 ${check.target.join('–')} 字。
+要求：
+1) ${expand ? '在现有段落中补充素材中已有的事实、解释与过渡，不新增未经核实的数字' : '删减重复表述与次要展开，保留开场宣告、核心事实与结尾收束'}
+2) 保留原有段落顺序、说话人与来源编号（如 [S2]），不新增编号
+3) 严格使用${format}格式，每轮一行，只输出脚本正文
+4) 不出现买/卖/加仓/抄底/布局等投资建议
+
+原脚本：
+${script}`,
+    temperature: 0.5
+  });
+  return response.text || script;
+}
+
+/**
+ * 早报步骤 3：合并大纲，串联开场、各事件段落及其过渡与收尾回顾
+ */
+export async function generateBriefingOutline(date: string, segments: BriefingSegment[], call: ModelCallOptions = {}): Promise<string> {
+  const events = segments.map((s, i) => `第 ${i + 1} 条：${s.title}——${s.summary}\n素材池：${s.materials}`).join('\n\n');
+  const response = await providerFor(call).generateText({
+    task: 'outline',
+    signal: call.signal,
+    prompt: `针对关键词“${date} 财经早报”，基于今日 ${segments.length} 条财经大事及其素材：
+${events}
+
+生成一份早报节目的合并大纲：
+1) 开场：一句话点出今天最值得关注的主线，并预告 ${segments.length} 条内容
+2) 每条事件一个小节：核心事实、为什么重要、一个值得观察的信号
+3) 各小节之间的过渡：说明事件之间的联系或对比，不生硬罗列
+4) 收尾回顾：用两三句话串起全部事件，给出明天的观察点`
+  });
+  return response.text || '';
+}
+
+/**
+ * 早报步骤 4：开场与收尾回顾
+ */
+export async function generateBriefingFrame(
+  date: string,
+  segments: BriefingSegment[],
+  outline: string,
+  cast: CastMember[] = DEFAULT_CAST,
+  call: ModelCallOptions = {}
+): Promise<{ opener: string; recap: string }> {
+  const { host, roles, format } = describeCast(cast);
+  const response = await providerFor(call).generateJson<{ opener?: string; recap?: string }>({
+    task: 'briefing',
+    signal: call.signal,
+    prompt: `你是一名财经早报播客的脚本编辑，正在为“${date} 财经早报”撰写开场与收尾。
+今日事件：
+${segments.map((s, i) => `${i + 1}. ${s.title}：${s.summary}`).join('\n')}
 大纲参考：${outline}
 
-生成字数：2000-2800字。
-`;
+角色：
+${roles}
+
+要求：
+1) opener：由${host.name}开场，问候听众、点出今天的主线并按顺序预告 ${segments.length} 条内容，约 150 字
+2) recap：收尾回顾，串联全部事件、给出明天的观察点并道别，约 200 字
+3) 两段都严格使用${format}格式，每轮一行；不出现买/卖/加仓/抄底/布局等投资建议
+4) 以 JSON 返回：{"opener": "对话正文", "recap": "对话正文"}`,
+    schema: {
+      type: 'object',
+      properties: {
+        opener: { type: 'string' },
+        recap: { type: 'string' }
+      },
+      required: ['opener', 'recap']
+    }
+  });
+  return { opener: response.data.opener || '', recap: response.data.recap || '' };
+}
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: prompt,
-    config: {
-      temperature: 0.7,
-      thinkingConfig: { thinkingBudget: 12000 },
-    },
+/**
+ * 早报步骤 4：单条事件的对话段落，开头承接上一段
+ */
+export async function generateBriefingSegment(
+  date: string,
+  segments: BriefingSegment[],
+  index: number,
+  outline: string,
+  cast: CastMember[] = DEFAULT_CAST,
+  sources: { links: { title: string }[]; claims: GroundedClaim[] } = { links: [], claims: [] },
+  call: ModelCallOptions = {}
+): Promise<string> {
+  const { host, roles, format } = describeCast(cast);
+  const segment = segments[index];
+  const previous = index > 0 ? `上一条是“${segments[index - 1].title}”，${host.name}用一句话自然过渡到本条，点出两者的联系或反差` : `本条紧接开场，${host.name}直接引出本条`;
+  const response = await providerFor(call).generateText({
+    task: 'briefing',
+    signal: call.signal,
+    tier: 'pro',
+    prompt: `你是一名财经早报播客的脚本编辑，正在撰写“${date} 财经早报”第 ${index + 1} / ${segments.length} 条：关于“${segment.title}”的对话段落。
+
+要求：
+1) 约 400–600 字，聚焦本条事件：核心事实、为什么重要、一个值得观察的信号，不展开其他事件
+2) ${previous}
+3) 不重复开场问候，不做全期收尾
+4) 角色：
+${roles}
+5) 严格使用${format}格式，每轮一行，只输出对话正文
+6) 不出现买/卖/加仓/抄底/布局等投资建议，不评价股价涨跌是否合理
+${sources.links.length > 0 ? `7) 事实性陈述在句末标注来源编号，如 [S2]，只能使用下方列出的编号\n` : ''}
+本条摘要：${segment.summary}
+素材池：${segment.materials}
+大纲参考：${outline}
+${sources.links.length > 0 ? `可引用来源（编号与其支撑的事实）：\n${buildSourceBrief(sources.links, sources.claims)}\n` : ''}`,
+    temperature: 0.7
   });
+  return response.text || '';
+}
 
-  return response.text || "";
+/**
+ * 步骤 5.5：听感合规改写（仅改写被规则命中的台词）
+ */
+export async function rewriteFlaggedLines(keyword: string, findings: ReviewFinding[], call: ModelCallOptions = {}): Promise<{ line: number; text: string }[]> {
+  if (findings.length === 0) return [];
+  const flagged = findings.map(f =>
+    `[${f.line}] ${f.speaker}：${f.text}\n  命中：${f.matches.map(m => `${m.label}「${m.text}」`).join('、')}`
+  ).join('\n');
+
+  const response = await providerFor(call).generateJson<{ lines?: { line: number; text: string }[] }>({
+    task: 'review',
+    signal: call.signal,
+    prompt: `你是一名财经播客“听感合规”编辑，正在审校关于“${keyword}”的对话脚本。
+以下台词命中了合规或口语化规则，请逐条改写：
+1) 删除任何投资建议或买卖暗示，不出现 买/卖/加仓/抄底/布局/上车 等词
+2) 不评价股价涨跌是否合理，改写为“市场如何理解 / 市场讨论焦点在于 / 被视为”
+3) 去掉书面腔，保持自然口语，保留原有信息量与语气
+4) 只输出改写后的台词正文，不带说话人标签
+
+待改写台词：
+${flagged}
+
+以 JSON 返回：{"lines": [{"line": 行号, "text": "改写后的台词"}]}`,
+    schema: {
+      type: 'object',
+      properties: {
+        lines: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              line: { type: 'integer' },
+              text: { type: 'string' }
+            },
+            required: ['line', 'text']
+          }
+        }
+      }
+    }
+  });
+  return response.data.lines || [];
 }
 
 /**
- * 步骤 6：音频合成
+ * 语言版本：将定稿脚本与标题译为目标语言，说话人标签与术语按给定对照统一
  */
-export async function synthesizePodcast(script: string, audioContext: AudioContext, onProgress?: (p: number, total: number) => void): Promise<AudioBuffer> {
-  const ai = getAI();
-  const cleaned = cleanScript(script);
-  const lines = cleaned.split('\n');
-  const chunks: string[] = [];
-  let currentChunk = "";
-  for (const line of lines) {
-    if ((currentChunk + line).length > 800) { chunks.push(currentChunk); currentChunk = line + "\n"; }
-    else { currentChunk += line + "\n"; }
-  }
-  if (currentChunk) chunks.push(currentChunk);
-
-  const buffers: AudioBuffer[] = [];
-  for (let i = 0; i < chunks.length; i++) {
-    if (onProgress) onProgress(i + 1, chunks.length);
-    try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: chunks[i] }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            multiSpeakerVoiceConfig: {
-              speakerVoiceConfigs: [
-                { speaker: '主持人', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-                { speaker: '嘉宾', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } }
-              ]
-            }
+export async function localizeScript(
+  source: { keyword: string; title?: string; script: string },
+  language: LanguagePreset,
+  labels: { from: string; to: string }[],
+  glossary: { term: string; translation: string }[],
+  call: ModelCallOptions = {}
+): Promise<{ title: string; script: string }> {
+  const response = await providerFor(call).generateJson<{ title?: string; script?: string }>({
+    task: 'localize',
+    signal: call.signal,
+    tier: 'pro',
+    prompt: `你是一名财经播客的本地化编辑，正在把关于“${source.keyword}”的一期中文播客改编为：${language.instruction}。
+要求：
+1) 逐行翻译，保持行数、顺序与每行的说话人不变，每行格式为“说话人标签: 台词”
+2) 说话人标签按下方对照替换，不得新增或合并说话人
+3) 保留句末的来源编号（如 [S2]、[S1,S3]）原样不动
+4) 形如【……】的段落标题行保留方括号，仅翻译括号内的标题
+5) 数字、日期、百分比与公司名称准确对应，不增删事实，不加入投资建议
+6) 术语按下方术语表统一译法；听众不熟悉的概念可在首次出现时用半句话解释
+7) 口语化、适合朗读，不要逐字硬译
+
+说话人标签对照：
+${labels.map(l => `${l.from} → ${l.to}`).join('\n')}
+${glossary.length > 0 ? `\n术语表：\n${glossary.map(g => `${g.term} → ${g.translation}`).join('\n')}\n` : ''}
+原标题：${source.title || source.keyword}
+原脚本：
+${source.script}
+
+以 JSON 返回：{"title": "译后标题", "script": "译后脚本（逐行，以换行分隔）"}`,
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        script: { type: 'string' }
+      },
+      required: ['title', 'script']
+    }
+  });
+  if (!response.data.script?.trim()) throw new Error(`${language.label} 版本翻译返回内容为空`);
+  return { title: response.data.title?.trim() || source.title || source.keyword, script: response.data.script };
+}
+
+const describeFact = (fact: MaterialFact) => `${fact.label}：${fact.text.length > 80 ? `${fact.text.slice(0, 80)}…` : fact.text}`;
+
+/**
+ * 由模型识别台词中提到的公司与人物（数字、日期由本地规则抽取）
+ */
+async function extractNamedEntities(script: string, call: ModelCallOptions = {}): Promise<FactMention[]> {
+  const lines = script.split('\n');
+  const numbered = lines
+    .map((line, i) => /^[^：:]+[：:]/.test(line) ? `[${i}] ${stripCitations(line)}` : '')
+    .filter(Boolean).join('\n');
+  if (!numbered) return [];
+
+  const response = await providerFor(call).generateJson<{ items?: { line: number; value: string; kind: string }[] }>({
+    task: 'factCheck',
+    signal: call.signal,
+    prompt: `从以下播客台词中找出所有被提及的具体公司（含机构）与人物姓名，不包括说话人本身与泛称（如“龙头企业”“分析师”）。
+台词：
+${numbered}
+
+以 JSON 返回：{"items": [{"line": 行号, "value": "名称原文", "kind": "company" 或 "person"}]}`,
+    schema: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              line: { type: 'integer' },
+              value: { type: 'string' },
+              kind: { type: 'string', enum: ['company', 'person'] }
+            },
+            required: ['line', 'value', 'kind']
+          }
+        }
+      }
+    }
+  });
+
+  // 模型可能指向段落标题等非台词行，只保留带说话人前缀且确实包含该名称的行
+  return (response.data.items || []).flatMap(item => {
+    const speaker = lines[item.line]?.match(/^([^：:]+)[：:]/)?.[1];
+    if (!speaker || !lines[item.line].includes(item.value) || (item.kind !== 'company' && item.kind !== 'person')) return [];
+    return [{
+      line: item.line,
+      speaker: speaker.trim(),
+      value: item.value,
+      kind: item.kind as FactMention['kind'],
+      canonical: item.value
+    }];
+  });
+}
+
+/**
+ * 步骤 5.2：事实核查
+ * 抽取脚本中的数字、百分比、日期、公司与人名，先在素材池与检索支撑中精确比对，
+ * 找不到依据的再交由模型判断是缺少依据还是与素材矛盾
+ */
+export async function checkFacts(keyword: string, script: string, pools: MaterialPool[], claims: GroundedClaim[] = [], call: ModelCallOptions = {}): Promise<FactCheckItem[]> {
+  const facts = materialFacts(pools, claims);
+  const seen = new Set<string>();
+  const mentions = [...extractMentions(script), ...(await extractNamedEntities(script, call))].filter(m => {
+    const key = `${m.line}|${m.kind}|${m.canonical}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const items: FactCheckItem[] = mentions.map(m => {
+    const support = findSupport(m, facts);
+    return { line: m.line, speaker: m.speaker, value: m.value, kind: m.kind, verdict: support ? 'supported' : 'unsupported', evidence: support && describeFact(support) };
+  });
+  const pending = items.map((item, index) => ({ item, id: `F${index}` })).filter(p => p.item.verdict !== 'supported');
+  if (pending.length === 0) return items;
+
+  const lines = script.split('\n');
+  const response = await providerFor(call).generateJson<{ verdicts?: { id: string; verdict: FactCheckItem['verdict']; evidence?: string }[] }>({
+    task: 'factCheck',
+    signal: call.signal,
+    tier: 'pro',
+    prompt: `你是一名财经播客的事实核查编辑，正在核查关于“${keyword}”的脚本。
+以下是本期唯一可信的素材：
+${facts.map(describeFact).join('\n')}
+
+逐条判断下列台词中的提及能否由素材支撑：
+- supported：素材中有等价表述（如“三成”与“30%”）
+- contradicted：素材中有相关信息但数值、日期或名称不一致，evidence 写明素材原文
+- unsupported：素材中没有相关信息
+待核查：
+${pending.map(p => `[${p.id}] 「${p.item.value}」 原句：${stripCitations(lines[p.item.line] || '')}`).join('\n')}
+
+以 JSON 返回：{"verdicts": [{"id": "编号", "verdict": "supported/unsupported/contradicted", "evidence": "依据"}]}`,
+    schema: {
+      type: 'object',
+      properties: {
+        verdicts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              verdict: { type: 'string', enum: ['supported', 'unsupported', 'contradicted'] },
+              evidence: { type: 'string' }
+            },
+            required: ['id', 'verdict']
           }
         }
-      });
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        const binaryString = atob(base64Audio);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let j = 0; j < binaryString.length; j++) bytes[j] = binaryString.charCodeAt(j);
-        const dataInt16 = new Int16Array(bytes.buffer);
-        if (dataInt16.length > 0) {
-          const buffer = audioContext.createBuffer(1, dataInt16.length, 24000);
-          const channelData = buffer.getChannelData(0);
-          for (let j = 0; j < dataInt16.length; j++) channelData[j] = dataInt16[j] / 32768.0;
-          buffers.push(buffer);
+      }
+    }
+  });
+
+  for (const v of response.data.verdicts || []) {
+    const target = pending.find(p => p.id === v.id);
+    if (target && ['supported', 'unsupported', 'contradicted'].includes(v.verdict)) {
+      target.item.verdict = v.verdict;
+      target.item.evidence = v.evidence || target.item.evidence;
+    }
+  }
+  return items;
+}
+
+/**
+ * 按素材改写事实存疑的台词：矛盾处改为素材中的说法，缺少依据的具体数字与名称改为概括表述
+ */
+export async function rewriteUnsupportedFacts(keyword: string, script: string, items: FactCheckItem[], call: ModelCallOptions = {}): Promise<{ line: number; text: string }[]> {
+  const flagged = items.filter(i => i.verdict !== 'supported');
+  if (flagged.length === 0) return [];
+  const lines = script.split('\n');
+  const grouped = Array.from(new Set(flagged.map(i => i.line))).map(line =>
+    `[${line}] ${lines[line]}\n  存疑：${flagged.filter(i => i.line === line).map(i => `「${i.value}」${i.verdict === 'contradicted' ? `与素材矛盾（${i.evidence || '见素材'}）` : '素材中无依据'}`).join('、')}`
+  ).join('\n');
+
+  const response = await providerFor(call).generateJson<{ lines?: { line: number; text: string }[] }>({
+    task: 'factCheck',
+    signal: call.signal,
+    prompt: `你是一名财经播客编辑，正在修订关于“${keyword}”的对话脚本中事实存疑的台词：
+1) 与素材矛盾的内容改为素材中的说法
+2) 素材中没有依据的具体数字、日期、公司或人名改为概括性表述，不得另行编造
+3) 保持口语化与原有语气，保留句末的来源编号（如 [S1]）
+4) 只输出改写后的台词正文，不带说话人标签
+
+待改写台词：
+${grouped}
+
+以 JSON 返回：{"lines": [{"line": 行号, "text": "改写后的台词"}]}`,
+    schema: {
+      type: 'object',
+      properties: {
+        lines: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              line: { type: 'integer' },
+              text: { type: 'string' }
+            },
+            required: ['line', 'text']
+          }
         }
       }
-    } catch (err) {
-      console.warn(`Chunk ${i} failed, skipping...`, err);
     }
+  });
+  return response.data.lines || [];
+}
+
+const CHUNK_MAX_CHARS = 800;
+const SAMPLE_RATE = 24000;
+
+const speakerOf = (line: string) => line.split(/[：:]/)[0].trim();
+
+/**
+ * 按字数切分合成分段；多人 TTS 每次最多支持两位说话人，超出时另起一段
+ */
+export function splitIntoChunks(lines: string[], maxChars = CHUNK_MAX_CHARS, maxSpeakers = 2): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  let speakers = new Set<string>();
+  for (const line of lines) {
+    const speaker = speakerOf(line);
+    const tooManySpeakers = !speakers.has(speaker) && speakers.size >= maxSpeakers;
+    if (current && ((current + line).length > maxChars || tooManySpeakers)) {
+      chunks.push(current);
+      current = "";
+      speakers = new Set();
+    }
+    current += line + "\n";
+    speakers.add(speaker);
   }
+  if (current) chunks.push(current);
+  return chunks;
+}
 
-  if (buffers.length === 0) throw new Error("音频合成失败，请重试。");
-  const totalLength = buffers.reduce((acc, b) => acc + b.length, 0);
-  const final = audioContext.createBuffer(1, totalLength, 24000);
+/**
+ * 合成失败的比例超过策略阈值
+ */
+export class SynthesisAbortedError extends Error {
+  constructor(public missingRatio: number, public failedChunks: number[]) {
+    super(`${failedChunks.length} 个音频分段合成失败（缺失 ${(missingRatio * 100).toFixed(1)}%），超出容忍阈值，已中止合成。`);
+    this.name = 'SynthesisAbortedError';
+  }
+}
+
+export type SynthesisEvent =
+  | { type: 'retry'; chunk: number; attempt: number; error: string }
+  | { type: 'silenced'; chunk: number; attempts: number; error: string };
+
+export interface SynthesisOptions extends ModelCallOptions {
+  onProgress?: (p: number, total: number) => void;
+  onEvent?: (event: SynthesisEvent) => void;
+  chunkCache?: Map<string, Float32Array>;
+  cast?: CastMember[];
+  policy?: SynthesisPolicy;
+  /** 分段字数上限，随节目形态变化 */
+  chunkMaxChars?: number;
+  /** 朗读语言提示，随节目语言变化 */
+  speechInstruction?: string;
+}
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+// 静音占位时长按语速估算，保证时间轴大致对齐
+const SILENCE_SECONDS_PER_CHAR = 0.22;
+
+interface ChunkOutcome {
+  pcm: Float32Array;
+  chunk: SynthesisChunk;
+}
+
+async function synthesizeChunk(text: string, index: number, cast: CastMember[], policy: SynthesisPolicy, options: SynthesisOptions): Promise<ChunkOutcome> {
+  const present = new Set(text.split('\n').filter(Boolean).map(speakerOf));
+  const speakers = castVoices(cast.filter(m => present.has(m.name)));
+  const cacheKey = `${speakers.map(s => `${s.speaker}=${s.voice}`).join(',')}|${options.speechInstruction || ''}|${text}`;
+  const cached = options.chunkCache?.get(cacheKey);
+  if (cached) return { pcm: cached, chunk: { text, samples: cached.length, status: 'ok', attempts: 0 } };
+
+  let attempts = 0;
+  try {
+    const pcm = await withRetry(async () => {
+      attempts++;
+      const speech = await providerFor(options, attempts - 1).synthesizeSpeech({ text, speakers, instruction: options.speechInstruction, signal: options.signal });
+      if (speech.pcm.length === 0) throw new Error("TTS 返回空音频");
+      const pcm = new Float32Array(speech.pcm.length);
+      for (let j = 0; j < speech.pcm.length; j++) pcm[j] = speech.pcm[j] / 32768.0;
+      return pcm;
+    }, {
+      retries: policy.maxRetries,
+      baseDelayMs: policy.baseDelayMs,
+      onRetry: (attempt, err) => options.onEvent?.({ type: 'retry', chunk: index, attempt, error: errorMessage(err) }),
+      signal: options.signal,
+      retryable: err => !(err instanceof ReplayMissError)
+    });
+    options.chunkCache?.set(cacheKey, pcm);
+    return { pcm, chunk: { text, samples: pcm.length, status: attempts > 1 ? 'retried' : 'ok', attempts } };
+  } catch (err) {
+    // 取消、超时中止与回放未命中的分段不以静音占位
+    if (options.signal?.aborted || err instanceof ReplayMissError) throw err;
+    const error = errorMessage(err);
+    options.onEvent?.({ type: 'silenced', chunk: index, attempts, error });
+    const pcm = new Float32Array(Math.round(text.length * SILENCE_SECONDS_PER_CHAR * SAMPLE_RATE));
+    return { pcm, chunk: { text, samples: pcm.length, status: 'silenced', attempts, error } };
+  }
+}
+
+/**
+ * 并发合成一组分段（保持顺序），并按策略判断缺失比例是否可接受
+ */
+async function synthesizeChunks(
+  items: { text: string; reuse?: ChunkOutcome }[],
+  options: SynthesisOptions
+): Promise<ChunkOutcome[]> {
+  const cast = options.cast || DEFAULT_CAST;
+  const policy = options.policy || DEFAULT_SYNTHESIS_POLICY;
+  const total = items.filter(item => !item.reuse).length;
+  let done = 0;
+
+  const outcomes = await mapWithConcurrency(items, policy.concurrency, async (item, index) => {
+    if (item.reuse) return item.reuse;
+    const outcome = await synthesizeChunk(item.text, index, cast, policy, options);
+    options.onProgress?.(++done, total);
+    return outcome;
+  });
+
+  const totalChars = outcomes.reduce((acc, o) => acc + o.chunk.text.length, 0);
+  const failed = outcomes.flatMap((o, i) => o.chunk.status === 'silenced' ? [i] : []);
+  const missingRatio = failed.reduce((acc, i) => acc + outcomes[i].chunk.text.length, 0) / Math.max(1, totalChars);
+  if (failed.length === outcomes.length || (failed.length > 0 && missingRatio > policy.maxMissingRatio)) {
+    throw new SynthesisAbortedError(missingRatio, failed);
+  }
+  return outcomes;
+}
+
+function mergeChunks(pcmChunks: Float32Array[], audioContext: AudioBufferFactory): AudioBuffer {
+  const totalLength = pcmChunks.reduce((acc, b) => acc + b.length, 0);
+  if (totalLength === 0) throw new Error("音频合成失败，请重试。");
+  const final = audioContext.createBuffer(1, totalLength, SAMPLE_RATE);
   let offset = 0;
-  for (const b of buffers) { final.getChannelData(0).set(b.getChannelData(0), offset); offset += b.length; }
+  for (const b of pcmChunks) { final.getChannelData(0).set(b, offset); offset += b.length; }
   return final;
 }
+
+export interface SynthesisResult {
+  audioBuffer: AudioBuffer;
+  chunks: SynthesisChunk[];
+  timing: TimingEntry[];
+}
+
+const toResult = (outcomes: ChunkOutcome[], audioContext: AudioBufferFactory): SynthesisResult => {
+  const audioBuffer = mergeChunks(outcomes.map(o => o.pcm), audioContext);
+  const chunks = outcomes.map(o => o.chunk);
+  return { audioBuffer, chunks, timing: buildTimingMap(chunks, audioBuffer.getChannelData(0), audioBuffer.sampleRate) };
+};
+
+/**
+ * 步骤 6：音频合成
+ * 分段按策略并发合成并带退避重试；最终失败的分段以静音占位并上报，缺失过多时中止。
+ * chunkCache 以分段文本为键缓存已合成的 PCM，重试时跳过已完成的分段；
+ * 返回的 chunks 记录分段布局与状态，供脚本修改后局部重合成
+ */
+export async function synthesizePodcast(script: string, audioContext: AudioBufferFactory, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+  const lines = cleanScript(script, options.cast || DEFAULT_CAST).split('\n').filter(Boolean);
+  const outcomes = await synthesizeChunks(splitIntoChunks(lines, options.chunkMaxChars).map(text => ({ text })), options);
+  return toResult(outcomes, audioContext);
+}
+
+/**
+ * 脚本修改后的局部重合成：沿用原有分段布局，仅重合成被修改行所在的分段
+ * （以及此前以静音占位的分段），未改动分段直接从原音频中切片拼接
+ */
+export async function resynthesizeEdited(
+  newScript: string,
+  previous: { audioBuffer: AudioBuffer; chunks: SynthesisChunk[] },
+  audioContext: AudioBufferFactory,
+  options: SynthesisOptions = {}
+): Promise<SynthesisResult & { resynthesized: number }> {
+  const normalize = (line: string) => formatTurns(parseTurns(line));
+  const oldLines: { text: string; chunk: number }[] = previous.chunks.flatMap((c, chunk) =>
+    c.text.split('\n').filter(Boolean).map(text => ({ text, chunk }))
+  );
+  const newLines = cleanScript(newScript, options.cast || DEFAULT_CAST).split('\n').filter(Boolean);
+
+  // 每个旧分段收集改动后的行；新增行归入其前一行所在分段
+  const groups: { lines: string[]; dirty: boolean }[] = previous.chunks.map(c => ({ lines: [], dirty: c.status === 'silenced' }));
+  let lastChunk = 0;
+  for (const op of diffLines(oldLines.map(l => normalize(l.text)), newLines.map(normalize))) {
+    if (op.type === 'equal') {
+      lastChunk = oldLines[op.a].chunk;
+      groups[lastChunk].lines.push(newLines[op.b]);
+    } else if (op.type === 'delete') {
+      lastChunk = oldLines[op.a].chunk;
+      groups[lastChunk].dirty = true;
+    } else {
+      if (groups.length === 0) groups.push({ lines: [], dirty: true });
+      groups[lastChunk].lines.push(newLines[op.b]);
+      groups[lastChunk].dirty = true;
+    }
+  }
+
+  const offsets = previous.chunks.reduce<number[]>((acc, c) => [...acc, acc[acc.length - 1] + c.samples], [0]);
+  const source = previous.audioBuffer.getChannelData(0);
+  const plan: { text: string; reuse?: ChunkOutcome }[] = groups.flatMap((group, i) => {
+    if (group.lines.length === 0) return [];
+    if (!group.dirty && previous.chunks[i]) {
+      return [{ text: previous.chunks[i].text, reuse: { pcm: source.subarray(offsets[i], offsets[i + 1]), chunk: previous.chunks[i] } }];
+    }
+    return splitIntoChunks(group.lines, options.chunkMaxChars).map(text => ({ text }));
+  });
+
+  const outcomes = await synthesizeChunks(plan, options);
+  return { ...toResult(outcomes, audioContext), resynthesized: plan.filter(p => !p.reuse).length };
+}
@@ -0,0 +1,134 @@
+import { CastMember, EpisodeLanguage, LanguagePreset, PodcastContent } from "../types";
+import { A_SHARE_GLOSSARY, LANGUAGES } from "../constants";
+import * as gemini from "./geminiService";
+import { PipelineHooks, callOptions, executeStep } from "./pipeline";
+import { PIPELINE_STEPS, isStepComplete } from "./checkpoint";
+import { matchSpeaker } from "./cast";
+import { formatSegmentHeading, parseSegmentHeading } from "./scriptDiff";
+import { newEpisodeId } from "./episodeLibrary";
+import { appendUsage, collectUsage } from "./usage";
+
+const STORAGE_KEY = 'financepod.variantLanguages';
+
+/** 每次生产完成后自动追加生成的语言版本 */
+export function loadVariantLanguages(): EpisodeLanguage[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(l => l !== 'zh' && LANGUAGES.some(p => p.key === l)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveVariantLanguages(languages: EpisodeLanguage[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(languages));
+}
+
+/** 早期节目没有记录语言，按普通话处理 */
+export const languagePreset = (language?: EpisodeLanguage): LanguagePreset =>
+  LANGUAGES.find(l => l.key === language) || LANGUAGES[0];
+
+/**
+ * 本地化阵容：说话人标签按语言对照替换；音色已在该语言优先列表中的保留，
+ * 其余依次分配列表中尚未使用的音色，保证各说话人音色不重复
+ */
+export function localizeCast(cast: CastMember[], preset: LanguagePreset): CastMember[] {
+  const kept = cast.map(m => preset.voices.length === 0 || preset.voices.includes(m.voice) ? m.voice : undefined);
+  const free = preset.voices.filter(v => !kept.includes(v));
+  return cast.map((m, i) => ({
+    ...m,
+    name: preset.speakerLabels[m.name] || m.name,
+    voice: kept[i] || free.shift() || m.voice
+  }));
+}
+
+/**
+ * 脚本中出现的 A 股术语及其在目标语言中的译法
+ */
+export function glossaryFor(script: string, language: EpisodeLanguage): { term: string; translation: string }[] {
+  if (language === 'zh') return [];
+  return A_SHARE_GLOSSARY.filter(g => script.includes(g.term)).map(g => ({ term: g.term, translation: g[language] }));
+}
+
+/**
+ * 只保留段落标题与阵容中的说话人台词，标签归一到本地化阵容
+ */
+function normalizeLocalized(script: string, cast: CastMember[]): string {
+  return script.split('\n').flatMap(raw => {
+    const line = raw.replace(/\*\*/g, '').trim();
+    const heading = parseSegmentHeading(line);
+    if (heading) return [formatSegmentHeading(heading)];
+    const match = line.match(/^([^：:]+)[：:](.*)$/);
+    const speaker = match && matchSpeaker(match[1], cast);
+    return speaker && match[2].trim() ? [`${speaker}：${match[2].trim()}`] : [];
+  }).join('\n');
+}
+
+/**
+ * 由原版节目生成语言版本草稿：译出标题与定稿脚本，沿用素材、大纲与来源；
+ * 事实核查与合规审校以原版为准，合成与母带处理在语言版本上重新执行
+ */
+export async function localizeEpisode(original: PodcastContent, language: EpisodeLanguage, id?: string, call: gemini.ModelCallOptions = {}): Promise<PodcastContent> {
+  const preset = languagePreset(language);
+  const sourceCast = original.cast || [];
+  const cast = localizeCast(sourceCast, preset);
+  const translated = await gemini.localizeScript(
+    { keyword: original.keyword, title: original.title, script: original.finalScript! },
+    preset,
+    sourceCast.map((m, i) => ({ from: m.name, to: cast[i].name })),
+    glossaryFor(original.finalScript!, language),
+    call
+  );
+  const script = normalizeLocalized(translated.script, cast);
+  if (!script) throw new Error(`${preset.label} 版本翻译结果中没有可识别的台词`);
+  return {
+    id: id || newEpisodeId(),
+    keyword: original.keyword,
+    createdAt: new Date().toISOString(),
+    cast,
+    title: translated.title,
+    materials: original.materials,
+    hooks: original.hooks,
+    highlights: original.highlights,
+    outline: original.outline,
+    draftScript: script,
+    finalScript: script,
+    mastering: original.mastering,
+    groundingLinks: original.groundingLinks,
+    groundedClaims: original.groundedClaims,
+    promptVersions: original.promptVersions,
+    format: original.format,
+    language,
+    variantOf: original.id
+  };
+}
+
+/**
+ * 生成一个语言版本并跑完合成与母带处理，返回完成的语言版本；
+ * 同一语言已有版本时沿用其 id 覆盖
+ */
+export async function produceVariant(original: PodcastContent, language: EpisodeLanguage, hooks: PipelineHooks): Promise<PodcastContent> {
+  const existing = original.variants?.find(v => v.language === language);
+  hooks.log(`正在生成「${languagePreset(language).label}」版本：翻译脚本与说话人标签...`, "working");
+  // 翻译调用不属于任何生产步骤，用量记在语言版本上
+  const usage = collectUsage(undefined, hooks.onUsage);
+  const translated = await localizeEpisode(original, language, existing?.episodeId, { ...callOptions(hooks), onUsage: usage.onUsage });
+  let draft = hooks.commit(appendUsage(translated, usage.records));
+  for (const step of PIPELINE_STEPS) {
+    if (isStepComplete(step, draft)) continue;
+    draft = hooks.commit(await executeStep(step, draft, hooks));
+  }
+  hooks.log(`「${languagePreset(language).label}」版本生产完成：${draft.title}`, "success");
+  return draft;
+}
+
+/**
+ * 在原版节目上登记语言版本（同一语言只保留最新一个）
+ */
+export const linkVariant = (original: PodcastContent, variant: PodcastContent): PodcastContent => ({
+  ...original,
+  variants: [
+    ...(original.variants || []).filter(v => v.language !== variant.language),
+    { language: variant.language!, episodeId: variant.id! }
+  ]
+});
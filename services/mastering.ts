@@ -0,0 +1,267 @@
+import { AudioAssetRef, MasteringReport, MasteringSettings, TimingEntry } from "../types";
+import { DEFAULT_MASTERING_SETTINGS } from "../constants";
+import { loadAudioAsset, saveAudioAsset } from "./episodeLibrary";
+import { AudioBufferFactory } from "./pcm";
+
+const STORAGE_KEY = 'financepod.mastering';
+
+const SAMPLE_RATE = 24000;
+const PEAK_CEILING_DB = -1;
+// 背景音乐在人声前后单独露出的时长，以及压低/恢复的过渡时间
+const BED_LEAD_SECONDS = 2;
+const BED_TAIL_SECONDS = 3;
+const DUCK_RAMP_SECONDS = 0.6;
+const OUTRO_GAP_SECONDS = 0.5;
+
+export function loadMasteringSettings(): MasteringSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_MASTERING_SETTINGS, ...saved } : DEFAULT_MASTERING_SETTINGS;
+  } catch {
+    return DEFAULT_MASTERING_SETTINGS;
+  }
+}
+
+export function saveMasteringSettings(settings: MasteringSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * 解码用户选择的音频文件并存入节目库
+ */
+export async function importAudioAsset(file: File): Promise<AudioAssetRef> {
+  const decoder = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+  return saveAudioAsset(file.name, buffer);
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(gain);
+
+function biquad(input: Float32Array, b: [number, number, number], a: [number, number]): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x; y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * ITU-R BS.1770 的 K 计权：高架滤波 + 高通滤波，系数按采样率推导
+ */
+function kWeighting(samples: Float32Array, sampleRate: number): Float32Array {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = dbToGain(3.999843853973347);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelved = biquad(samples,
+    [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]);
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  return biquad(shelved, [1, -2, 1], [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]);
+}
+
+/**
+ * 积分响度（LUFS）：400ms 块、75% 重叠，先 -70 LUFS 绝对门限再 -10 LU 相对门限；全程静音返回 -Infinity
+ */
+export function measureLoudness(samples: Float32Array, sampleRate: number): number {
+  const weighted = kWeighting(samples, sampleRate);
+  const hop = Math.round(sampleRate * 0.1);
+  const hopEnergy: number[] = [];
+  for (let start = 0; start + hop <= weighted.length; start += hop) {
+    let sum = 0;
+    for (let i = start; i < start + hop; i++) sum += weighted[i] * weighted[i];
+    hopEnergy.push(sum);
+  }
+  const blocks: number[] = [];
+  for (let i = 0; i + 4 <= hopEnergy.length; i++) {
+    blocks.push((hopEnergy[i] + hopEnergy[i + 1] + hopEnergy[i + 2] + hopEnergy[i + 3]) / (hop * 4));
+  }
+
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const absolute = blocks.filter(p => p > 0 && loudness(p) > -70);
+  if (absolute.length === 0) return -Infinity;
+  const relativeGate = loudness(mean(absolute)) - 10;
+  return loudness(mean(absolute.filter(p => loudness(p) > relativeGate)));
+}
+
+/** 将素材的响度对齐到目标值所需的增益 */
+function normalizingGain(buffer: AudioBuffer, targetLufs: number): number {
+  const lufs = measureLoudness(buffer.getChannelData(0), buffer.sampleRate);
+  return Number.isFinite(lufs) ? dbToGain(targetLufs - lufs) : 1;
+}
+
+interface VoiceSegment {
+  speaker: string;
+  chunk: number;
+  /** 在人声轨中的起止时间 */
+  start: number;
+  end: number;
+  /** 在成片中的起始时间 */
+  at: number;
+  fadeIn: number;
+  fadeOut: number;
+  lines: TimingEntry[];
+}
+
+/**
+ * 将人声轨按说话人轮换与分段接缝切成片段并排布到成片时间轴：
+ * 轮换处插入停顿，同一说话人的分段接缝处交叉淡化
+ */
+function layoutVoice(timing: TimingEntry[], duration: number, settings: MasteringSettings, offset: number): VoiceSegment[] {
+  const segments: VoiceSegment[] = [];
+  for (const entry of timing) {
+    const last = segments[segments.length - 1];
+    if (last && last.speaker === entry.speaker && last.chunk === entry.chunk) {
+      last.end = entry.end;
+      last.lines.push(entry);
+    } else {
+      segments.push({ speaker: entry.speaker, chunk: entry.chunk, start: entry.start, end: entry.end, at: 0, fadeIn: 0, fadeOut: 0, lines: [entry] });
+    }
+  }
+  if (segments.length === 0) {
+    segments.push({ speaker: '', chunk: 0, start: 0, end: duration, at: 0, fadeIn: 0, fadeOut: 0, lines: [] });
+  }
+
+  let at = offset;
+  segments.forEach((segment, i) => {
+    const previous = segments[i - 1];
+    if (previous) {
+      const pause = previous.speaker !== segment.speaker ? settings.speakerPauseMs / 1000 : 0;
+      const seam = previous.chunk !== segment.chunk;
+      const fade = Math.min(settings.crossfadeMs / 1000, (previous.end - previous.start) / 2, (segment.end - segment.start) / 2);
+      if (pause > 0 || seam) previous.fadeOut = segment.fadeIn = fade;
+      at = previous.at + (previous.end - previous.start) + pause - (pause === 0 && seam ? fade : 0);
+    }
+    segment.at = at;
+  });
+  return segments;
+}
+
+async function loadAsset(ref: AudioAssetRef | undefined, audioContext: AudioBufferFactory): Promise<AudioBuffer | null> {
+  if (!ref) return null;
+  const buffer = await loadAudioAsset(ref.id, audioContext);
+  if (!buffer) throw new Error(`找不到音频素材「${ref.name}」，请在母带设置中重新上传。`);
+  return buffer;
+}
+
+export interface MasteringResult {
+  audioBuffer: AudioBuffer;
+  timing: TimingEntry[];
+  report: MasteringReport;
+}
+
+/**
+ * 步骤 7：母带处理
+ * 以 OfflineAudioContext 离线渲染：人声按目标响度标准化，分段接缝交叉淡化、说话人轮换插入停顿，
+ * 叠加片头、片尾与随人声压低的背景音乐，最后整体校准到目标响度并限制峰值
+ */
+export async function masterVoiceTrack(
+  voice: AudioBuffer,
+  timing: TimingEntry[],
+  settings: MasteringSettings,
+  audioContext: AudioBufferFactory
+): Promise<MasteringResult> {
+  const [intro, outro, bed] = await Promise.all([
+    loadAsset(settings.intro, audioContext),
+    loadAsset(settings.outro, audioContext),
+    loadAsset(settings.musicBed, audioContext)
+  ]);
+
+  const inputLufs = measureLoudness(voice.getChannelData(0), voice.sampleRate);
+  const voiceStart = (intro?.duration || 0) + (bed ? BED_LEAD_SECONDS : 0);
+  const segments = layoutVoice(timing, voice.duration, settings, voiceStart);
+  const lastSegment = segments[segments.length - 1];
+  const voiceEnd = lastSegment.at + (lastSegment.end - lastSegment.start);
+  const outroStart = voiceEnd + (bed ? BED_TAIL_SECONDS : OUTRO_GAP_SECONDS);
+  const total = outro ? outroStart + outro.duration : bed ? outroStart : voiceEnd;
+
+  const offline = new OfflineAudioContext(1, Math.ceil(total * SAMPLE_RATE), SAMPLE_RATE);
+  const voiceBus = offline.createGain();
+  voiceBus.gain.value = Number.isFinite(inputLufs) ? dbToGain(settings.targetLufs - inputLufs) : 1;
+  voiceBus.connect(offline.destination);
+
+  for (const segment of segments) {
+    const length = segment.end - segment.start;
+    const source = offline.createBufferSource();
+    source.buffer = voice;
+    const gain = offline.createGain();
+    if (segment.fadeIn > 0) {
+      gain.gain.setValueAtTime(0, segment.at);
+      gain.gain.linearRampToValueAtTime(1, segment.at + segment.fadeIn);
+    }
+    if (segment.fadeOut > 0) {
+      gain.gain.setValueAtTime(1, segment.at + length - segment.fadeOut);
+      gain.gain.linearRampToValueAtTime(0, segment.at + length);
+    }
+    source.connect(gain).connect(voiceBus);
+    source.start(segment.at, segment.start, length);
+  }
+
+  const playJingle = (buffer: AudioBuffer, at: number) => {
+    const source = offline.createBufferSource();
+    source.buffer = buffer;
+    const gain = offline.createGain();
+    gain.gain.value = normalizingGain(buffer, settings.targetLufs);
+    source.connect(gain).connect(offline.destination);
+    source.start(at);
+  };
+  if (intro) playJingle(intro, 0);
+  if (outro) playJingle(outro, outroStart);
+
+  if (bed) {
+    const bedStart = intro?.duration || 0;
+    const level = normalizingGain(bed, settings.targetLufs + settings.bedLevelDb);
+    const ducked = level * dbToGain(settings.duckDb);
+    const source = offline.createBufferSource();
+    source.buffer = bed;
+    source.loop = true;
+    const gain = offline.createGain();
+    gain.gain.setValueAtTime(0, bedStart);
+    gain.gain.linearRampToValueAtTime(level, bedStart + DUCK_RAMP_SECONDS);
+    gain.gain.setValueAtTime(level, voiceStart - DUCK_RAMP_SECONDS);
+    gain.gain.linearRampToValueAtTime(ducked, voiceStart);
+    gain.gain.setValueAtTime(ducked, voiceEnd);
+    gain.gain.linearRampToValueAtTime(level, voiceEnd + DUCK_RAMP_SECONDS);
+    gain.gain.setValueAtTime(level, outroStart - DUCK_RAMP_SECONDS);
+    gain.gain.linearRampToValueAtTime(0, outroStart);
+    source.connect(gain).connect(offline.destination);
+    source.start(bedStart);
+    source.stop(outroStart);
+  }
+
+  const rendered = await offline.startRendering();
+
+  // 混入片头片尾与背景音乐后整体校准响度，峰值不超过 -1 dBFS
+  const samples = rendered.getChannelData(0);
+  const mixedLufs = measureLoudness(samples, SAMPLE_RATE);
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  let trim = Number.isFinite(mixedLufs) ? dbToGain(settings.targetLufs - mixedLufs) : 1;
+  if (peak * trim > dbToGain(PEAK_CEILING_DB)) trim = dbToGain(PEAK_CEILING_DB) / peak;
+  for (let i = 0; i < samples.length; i++) samples[i] *= trim;
+
+  return {
+    audioBuffer: rendered,
+    timing: segments.flatMap(segment => segment.lines.map(entry => ({
+      ...entry,
+      start: segment.at + (entry.start - segment.start),
+      end: segment.at + (entry.end - segment.start)
+    }))),
+    report: {
+      masteredAt: new Date().toISOString(),
+      inputLufs,
+      outputLufs: mixedLufs + gainToDb(trim),
+      peakDb: peak > 0 ? gainToDb(peak * trim) : -Infinity
+    }
+  };
+}
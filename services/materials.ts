@@ -0,0 +1,193 @@
+import { HotwordType, MaterialPool } from "../types";
+
+type FieldKind = 'text' | 'list' | 'timeline' | 'angles';
+
+/**
+ * 三类素材池的字段结构：subtype 为类型细分字段，fields 为 material_pool 内的字段
+ */
+export const MATERIAL_SCHEMAS: Record<HotwordType, { subtype: string; fields: Record<string, FieldKind> }> = {
+  '个股': {
+    subtype: 'company_type',
+    fields: {
+      hook_pack: 'text',
+      one_sentence_identity: 'text',
+      why_people_talk_now: 'list',
+      timeline: 'timeline',
+      original_business_model: 'text',
+      core_tensions: 'list',
+      validation_metrics: 'list',
+      risks_and_uncertainty: 'list'
+    }
+  },
+  '产业': {
+    subtype: 'industry_type',
+    fields: {
+      definition: 'text',
+      core_tensions: 'list',
+      profit_pool_and_orders: 'text',
+      value_migration: 'text',
+      validation_metrics: 'list',
+      alternative_explanations: 'angles'
+    }
+  },
+  '经济事件': {
+    subtype: 'event_nature',
+    fields: {
+      event_core: 'text',
+      why_it_matters: 'text',
+      stakeholders: 'list',
+      historical_precedent: 'text',
+      structural_reasons: 'text',
+      chain_reaction: 'list',
+      observation_window: 'list'
+    }
+  }
+};
+
+export const MATERIAL_FIELD_LABELS: Record<string, string> = {
+  hook_pack: '开场钩子',
+  one_sentence_identity: '一句话身份',
+  why_people_talk_now: '为什么现在被讨论',
+  timeline: '关键时间线',
+  original_business_model: '原有业务模式',
+  core_tensions: '核心矛盾',
+  validation_metrics: '验证指标',
+  risks_and_uncertainty: '风险与不确定性',
+  definition: '边界定义',
+  profit_pool_and_orders: '利润池与订单',
+  value_migration: '价值迁移',
+  alternative_explanations: '多视角解释',
+  event_core: '事件核心',
+  why_it_matters: '为什么是焦点',
+  stakeholders: '利益相关方',
+  historical_precedent: '历史参照',
+  structural_reasons: '结构性原因',
+  chain_reaction: '连锁反应',
+  observation_window: '观察窗口'
+};
+
+const HOTWORD_ALIASES: [RegExp, HotwordType][] = [
+  [/个股|公司|股票/, '个股'],
+  [/产业|行业|概念|赛道/, '产业'],
+  [/事件|宏观|政策/, '经济事件']
+];
+
+export class MaterialValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaterialValidationError';
+  }
+}
+
+/**
+ * 从模型输出中取出 JSON 对象：容忍 Markdown 代码块与前后多余文字
+ */
+function extractJson(raw: string): { value: unknown; trailing: string } | null {
+  const text = raw.replace(/```(?:json)?/g, '');
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+  for (let end = text.lastIndexOf('}'); end > start; end = text.lastIndexOf('}', end - 1)) {
+    try {
+      return { value: JSON.parse(text.slice(start, end + 1)), trailing: text.slice(end + 1).trim() };
+    } catch {
+      // 继续尝试更短的片段
+    }
+  }
+  return null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => {
+  if (value == null) return '';
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value)) return value.map(asText).filter(Boolean).join('；');
+  if (typeof value === 'object') return Object.values(value).map(asText).filter(Boolean).join('：');
+  return String(value);
+};
+
+const asArray = (value: unknown): unknown[] => {
+  if (value == null || value === '') return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(/\n|；/).map(s => s.trim()).filter(Boolean);
+  return [value];
+};
+
+function coerceField(kind: FieldKind, value: unknown): unknown {
+  switch (kind) {
+    case 'text': return asText(value);
+    case 'list': return asArray(value).map(asText).filter(Boolean);
+    case 'timeline': return asArray(value).map(item => isRecord(item)
+      ? { date: asText(item.date ?? item.time), event: asText(item.event ?? item.description) }
+      : { date: '', event: asText(item) }
+    ).filter(e => e.event);
+    case 'angles': return asArray(value).map(item => isRecord(item)
+      ? { angle: asText(item.angle), core_fact_or_conflict: asText(item.core_fact_or_conflict ?? item.fact) }
+      : { angle: '', core_fact_or_conflict: asText(item) }
+    ).filter(a => a.core_fact_or_conflict);
+  }
+}
+
+/**
+ * 判断素材池类型：优先采用 hotword_type（含近义写法），否则按字段命中数推断
+ */
+function resolveType(value: Record<string, unknown>, pool: Record<string, unknown>): HotwordType | null {
+  const declared = asText(value.hotword_type);
+  const alias = HOTWORD_ALIASES.find(([pattern]) => pattern.test(declared));
+  if (alias) return alias[1];
+
+  const scored = (Object.keys(MATERIAL_SCHEMAS) as HotwordType[])
+    .map(type => ({
+      type,
+      hits: [MATERIAL_SCHEMAS[type].subtype, ...Object.keys(MATERIAL_SCHEMAS[type].fields)]
+        .filter(key => key !== 'core_tensions' && key !== 'validation_metrics')
+        .filter(key => key in pool || key in value).length
+    }))
+    .sort((a, b) => b.hits - a.hits);
+  return scored[0].hits > 0 ? scored[0].type : null;
+}
+
+/**
+ * 校验并修复模型输出的素材池：统一类型写法、补齐缺失字段、纠正字段形态，
+ * repairs 记录做过的修复以便在日志中提示；指定 expected 时按该类型的结构归整
+ */
+export function parseMaterialPool(raw: string, expected?: HotwordType): { pool: MaterialPool; repairs: string[] } {
+  const extracted = extractJson(raw);
+  if (!extracted || !isRecord(extracted.value)) {
+    throw new MaterialValidationError("素材池不是有效的 JSON，无法识别结构，请重跑素材搜集。");
+  }
+  const { value, trailing } = extracted;
+  const repairs: string[] = [];
+  if (trailing) repairs.push('剥离 JSON 之外的多余文本');
+
+  const nested = isRecord(value.material_pool) ? value.material_pool : null;
+  if (!nested) repairs.push('素材字段未包在 material_pool 中，已自动归位');
+  const source = nested || value;
+
+  const resolved = resolveType(value, source);
+  const type = expected || resolved;
+  if (!type) throw new MaterialValidationError("无法判断素材池类型（个股 / 产业 / 经济事件），请重跑素材搜集。");
+  if (expected && resolved && resolved !== expected) repairs.push(`类型“${resolved}”按要求归为“${expected}”`);
+  else if (!value.hotword_type) repairs.push(`缺少类型，按字段推断为“${type}”`);
+  else if (value.hotword_type !== type) repairs.push(`类型“${asText(value.hotword_type)}”归一为“${type}”`);
+
+  const schema = MATERIAL_SCHEMAS[type];
+  const missing: string[] = [];
+  const material_pool: Record<string, unknown> = {};
+  for (const [key, kind] of Object.entries(schema.fields)) {
+    if (!(key in source)) missing.push(key);
+    material_pool[key] = coerceField(kind, source[key]);
+  }
+  if (missing.length > 0) repairs.push(`补齐缺失字段 ${missing.join(', ')}`);
+
+  const supplement = [asText(source.deep_insights_supplement), trailing].filter(Boolean).join('\n');
+  if (supplement) material_pool.deep_insights_supplement = supplement;
+
+  const pool = {
+    hotword_type: type,
+    [schema.subtype]: asText(value[schema.subtype] ?? source[schema.subtype]),
+    material_pool
+  } as unknown as MaterialPool;
+  return { pool, repairs };
+}
@@ -0,0 +1,164 @@
+import { LogEntry, PodcastContent, StepTimeouts, UsageRecord, WorkflowStep } from "../types";
+import { STEPS_CONFIG } from "../constants";
+import * as gemini from "./geminiService";
+import { PipelineHooks, executeStep, synthesisEventLog } from "./pipeline";
+import { PIPELINE_STEPS, clearStepOutput, downstreamOf, findResumeStep, isStepComplete } from "./checkpoint";
+import { AudioBufferFactory } from "./pcm";
+import { CacheContext } from "./responseCache";
+
+/**
+ * 生产链路事件：界面与命令行各自订阅，编排本身不持有任何界面状态
+ */
+export type OrchestratorEvent =
+  | { type: 'step'; step: WorkflowStep; index: number; total: number }
+  | { type: 'log'; entry: LogEntry }
+  /** 音频合成的分段进度 */
+  | { type: 'progress'; step: WorkflowStep; current: number; total: number }
+  /** 草稿更新（含步骤内的中间检查点） */
+  | { type: 'commit'; draft: PodcastContent }
+  /** 一次模型调用的用量（已标注所属步骤） */
+  | { type: 'usage'; record: UsageRecord }
+  /** 基于旧产出、需要刷新的下游步骤 */
+  | { type: 'stale'; steps: WorkflowStep[] };
+
+export type OrchestratorListener = (event: OrchestratorEvent) => void;
+
+/**
+ * 用户取消生产；已完成步骤的检查点保留在草稿中
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('生产已取消。');
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * 单个步骤超过配置的时限仍未完成
+ */
+export class StepTimeoutError extends Error {
+  constructor(public step: WorkflowStep, public seconds: number) {
+    super(`「${STEPS_CONFIG.find(s => s.step === step)?.label || step}」超过 ${seconds} 秒未完成，已中止。`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+export interface RunOptions {
+  /** 起始步骤；缺省时从第一个未完成的步骤开始 */
+  from?: WorkflowStep;
+  /** 仅重跑 from 这一步骤，下游已有产出标记为过期 */
+  only?: boolean;
+  /** 上次运行遗留的过期步骤，会被强制重跑 */
+  stale?: WorkflowStep[];
+  audioContext: AudioBufferFactory;
+  /** 合成选项；进度与重试事件由编排统一转发 */
+  synthesis?: Omit<gemini.SynthesisOptions, 'cast' | 'onProgress' | 'onEvent' | 'signal'>;
+  /** 中止整条链路：进行中的模型调用随之中止，以 signal.reason 作为异常抛出 */
+  signal?: AbortSignal;
+  /** 各步骤时限（秒），0 或缺省为不限 */
+  timeouts?: StepTimeouts;
+  /** 响应缓存；单步重跑与过期步骤总是跳过缓存读取 */
+  cache?: CacheContext;
+}
+
+export interface RunResult {
+  draft: PodcastContent;
+  /** 单步重跑后仍未完成的第一个步骤 */
+  pending?: WorkflowStep;
+  stale: WorkflowStep[];
+}
+
+export interface Orchestrator {
+  subscribe: (listener: OrchestratorListener) => () => void;
+  /**
+   * 执行生产链路：已完成的检查点会被跳过；合规阻断、事实核查待处理、取消与步骤超时
+   * 以异常形式中断，中断前的产出已通过 commit 事件发出
+   */
+  run: (base: PodcastContent, options: RunOptions) => Promise<RunResult>;
+}
+
+/**
+ * 在某个步骤的时限与外部取消下执行任务：取消或超时立即结束等待，不依赖底层调用是否及时响应中止。
+ * 链路之外的单步操作（人工改写、局部重合成）同样经由这里，与链路共用取消与超时
+ */
+export async function runWithinStep<T>(step: WorkflowStep, limits: { signal?: AbortSignal; timeouts?: StepTimeouts }, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const forward = () => controller.abort(limits.signal!.reason);
+  if (limits.signal?.aborted) forward();
+  else limits.signal?.addEventListener('abort', forward, { once: true });
+  const seconds = limits.timeouts?.[step] || 0;
+  const timer = seconds > 0 ? setTimeout(() => controller.abort(new StepTimeoutError(step, seconds)), seconds * 1000) : undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) reject(controller.signal.reason);
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+  try {
+    return await Promise.race([task(controller.signal), aborted]);
+  } catch (e) {
+    throw controller.signal.aborted ? controller.signal.reason : e;
+  } finally {
+    clearTimeout(timer);
+    limits.signal?.removeEventListener('abort', forward);
+  }
+}
+
+export function createOrchestrator(): Orchestrator {
+  const listeners = new Set<OrchestratorListener>();
+  const emit = (event: OrchestratorEvent) => listeners.forEach(l => l(event));
+
+  const run = async (base: PodcastContent, options: RunOptions): Promise<RunResult> => {
+    const from = options.from ?? findResumeStep(base) ?? PIPELINE_STEPS[0];
+    const only = !!options.only;
+    const stale = new Set((options.stale || []).filter(s => !only || s !== from));
+    const steps = only ? [from] : PIPELINE_STEPS.slice(PIPELINE_STEPS.indexOf(from));
+    let current = from;
+
+    const commit = (next: PodcastContent) => {
+      emit({ type: 'commit', draft: next });
+      return next;
+    };
+    // 步骤中止后，未响应中止的调用（如母带渲染）仍可能返回，其日志与产出一律丢弃
+    const hooksFor = (signal: AbortSignal, forced: boolean): PipelineHooks => {
+      const live = (event: OrchestratorEvent) => { if (!signal.aborted) emit(event); };
+      return {
+        log: (msg, type = 'info') => live({ type: 'log', entry: { msg, type } }),
+        commit: next => signal.aborted ? next : commit(next),
+        audioContext: options.audioContext,
+        synthesis: {
+          ...options.synthesis,
+          onProgress: (c, t) => live({ type: 'progress', step: current, current: c, total: t }),
+          onEvent: event => live({ type: 'log', entry: synthesisEventLog(event) })
+        },
+        signal,
+        onUsage: record => live({ type: 'usage', record }),
+        cache: options.cache && (forced ? { ...options.cache, bypass: true } : options.cache)
+      };
+    };
+
+    const runStep = (step: WorkflowStep, draft: PodcastContent, forced: boolean): Promise<PodcastContent> =>
+      runWithinStep(step, options, signal => executeStep(step, draft, hooksFor(signal, forced)));
+
+    let draft = commit(base);
+    for (const step of steps) {
+      const forced = only || stale.has(step);
+      if (!forced && isStepComplete(step, draft)) continue;
+      if (forced) draft = commit(clearStepOutput(step, draft));
+      current = step;
+      emit({ type: 'step', step, index: PIPELINE_STEPS.indexOf(step), total: PIPELINE_STEPS.length });
+      draft = commit(await runStep(step, draft, forced));
+      stale.delete(step);
+      if (only) downstreamOf(step).filter(s => isStepComplete(s, draft)).forEach(s => stale.add(s));
+      emit({ type: 'stale', steps: PIPELINE_STEPS.filter(s => stale.has(s)) });
+    }
+
+    return { draft, pending: findResumeStep(draft), stale: PIPELINE_STEPS.filter(s => stale.has(s)) };
+  };
+
+  return {
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    run
+  };
+}
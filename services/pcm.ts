@@ -0,0 +1,50 @@
+/**
+ * 合成、从节目库还原等场景只需要创建 AudioBuffer，不依赖完整的 Web Audio；
+ * 浏览器中传入 AudioContext，Node 中传入 createPcmContext()
+ */
+export type AudioBufferFactory = Pick<BaseAudioContext, 'createBuffer'>;
+
+/**
+ * 不依赖 Web Audio 的 AudioBuffer 实现：按声道保存原始 PCM 浮点数据
+ */
+class PcmBuffer implements AudioBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  private channels: Float32Array<ArrayBuffer>[];
+
+  constructor(numberOfChannels: number, length: number, sampleRate: number) {
+    if (numberOfChannels < 1 || length < 1 || sampleRate <= 0) {
+      throw new RangeError(`无效的音频参数：${numberOfChannels} 声道、${length} 采样、${sampleRate} Hz`);
+    }
+    this.numberOfChannels = numberOfChannels;
+    this.length = length;
+    this.sampleRate = sampleRate;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array<ArrayBuffer> {
+    const data = this.channels[channel];
+    if (!data) throw new RangeError(`声道 ${channel} 不存在`);
+    return data;
+  }
+
+  copyFromChannel(destination: Float32Array<ArrayBuffer>, channel: number, bufferOffset = 0) {
+    destination.set(this.getChannelData(channel).subarray(bufferOffset, bufferOffset + destination.length));
+  }
+
+  copyToChannel(source: Float32Array<ArrayBuffer>, channel: number, bufferOffset = 0) {
+    const data = this.getChannelData(channel);
+    data.set(source.subarray(0, Math.max(0, data.length - bufferOffset)), bufferOffset);
+  }
+}
+
+export function createPcmContext(): AudioBufferFactory {
+  return {
+    createBuffer: (numberOfChannels, length, sampleRate) => new PcmBuffer(numberOfChannels, length, sampleRate)
+  };
+}
@@ -0,0 +1,217 @@
+import { FactCheckReport, LogEntry, LogType, PodcastContent, ReviewReport, WorkflowStep } from "../types";
+import { LANGUAGES } from "../constants";
+import * as gemini from "./geminiService";
+import { ReviewBlockedError, applyRewrites, countBySeverity, loadReviewSettings, scanScript } from "./compliance";
+import { FactCheckPendingError, flaggedItems } from "./factCheck";
+import { parseMaterialPool } from "./materials";
+import { masterVoiceTrack } from "./mastering";
+import { briefingPools, executeBriefingStep } from "./briefing";
+import { checkLength, formatPreset } from "./formats";
+import { AudioBufferFactory } from "./pcm";
+import { recordPromptVersion } from "./prompts";
+import { UsageListener, appendUsage, collectUsage } from "./usage";
+import { CacheContext, cacheForStep } from "./responseCache";
+
+/**
+ * 步骤执行所需的外部能力：日志、步骤内检查点、音频上下文与合成选项
+ */
+export interface PipelineHooks {
+  log: (msg: string, type?: LogType) => void;
+  /** 步骤内的中间产出落检查点，返回写入后的草稿 */
+  commit: (draft: PodcastContent) => PodcastContent;
+  audioContext: AudioBufferFactory;
+  /** 合成选项；说话人阵容取自节目本身 */
+  synthesis: Omit<gemini.SynthesisOptions, 'cast'>;
+  /** 取消或步骤超时时中止进行中的模型调用 */
+  signal?: AbortSignal;
+  /** 每次模型调用的用量，由 executeStep 标注所属步骤 */
+  onUsage?: UsageListener;
+  /** 响应缓存；按 executeStep 所在步骤决定是否跳过读取 */
+  cache?: CacheContext;
+}
+
+/** 步骤内模型调用共用的中止信号、用量上报与响应缓存 */
+export const callOptions = (hooks: PipelineHooks): gemini.ModelCallOptions => ({ signal: hooks.signal, onUsage: hooks.onUsage, cache: hooks.cache });
+
+export const synthesisEventLog = (event: gemini.SynthesisEvent): LogEntry => event.type === 'retry'
+  ? { msg: `第 ${event.chunk + 1} 段合成失败（${event.error}），第 ${event.attempt} 次重试...`, type: "working" }
+  : { msg: `第 ${event.chunk + 1} 段重试 ${event.attempts} 次后仍失败，已以静音占位：${event.error}`, type: "error" };
+
+export async function runFactCheck(draft: PodcastContent, script: string, previous?: FactCheckReport, call: gemini.ModelCallOptions = {}): Promise<FactCheckReport> {
+  const pools = draft.briefing ? briefingPools(draft.briefing) : [parseMaterialPool(draft.materials || '').pool];
+  const items = await gemini.checkFacts(draft.keyword, script, pools, draft.groundedClaims, call);
+  return {
+    checkedAt: new Date().toISOString(),
+    items,
+    rewrites: previous?.rewrites || [],
+    struck: previous?.struck || [],
+    resolved: items.every(i => i.verdict === 'supported')
+  };
+}
+
+/**
+ * 写入新合成的人声轨；成片在母带处理前即为人声轨本身
+ */
+export const withVoiceTrack = (draft: PodcastContent, result: gemini.SynthesisResult): PodcastContent => ({
+  ...draft,
+  audioBuffer: result.audioBuffer,
+  audioChunks: result.chunks,
+  timingMap: result.timing,
+  voiceTrack: { buffer: result.audioBuffer, timing: result.timing },
+  masteringReport: undefined
+});
+
+export async function masterContent(draft: PodcastContent, hooks: PipelineHooks): Promise<PodcastContent> {
+  if (!draft.mastering?.enabled) return draft;
+  // 早期节目没有单独保存人声轨，以现有成片作为母带处理的输入
+  const voice = draft.voiceTrack || { buffer: draft.audioBuffer!, timing: draft.timingMap || [] };
+  hooks.log("正在进行母带处理：响度标准化、接缝淡化与片头片尾混音...", "working");
+  const result = await masterVoiceTrack(voice.buffer, voice.timing, draft.mastering, hooks.audioContext);
+  hooks.log(`母带处理完成：${Number.isFinite(result.report.inputLufs) ? result.report.inputLufs.toFixed(1) : '—'} → ${result.report.outputLufs.toFixed(1)} LUFS，峰值 ${result.report.peakDb.toFixed(1)} dBFS。`, "success");
+  return { ...draft, voiceTrack: voice, audioBuffer: result.audioBuffer, timingMap: result.timing, masteringReport: result.report };
+}
+
+/**
+ * 执行单个生产步骤并返回更新后的草稿；合规阻断与事实核查待处理以异常形式中断链路。
+ * 步骤内的模型调用按步骤标注后记入草稿，步骤中断时随最近的检查点写入
+ */
+export async function executeStep(step: WorkflowStep, draft: PodcastContent, hooks: PipelineHooks): Promise<PodcastContent> {
+  const usage = collectUsage(step, hooks.onUsage);
+  let latest = draft;
+  const tracked: PipelineHooks = {
+    ...hooks,
+    commit: next => (latest = hooks.commit(next)),
+    onUsage: usage.onUsage,
+    cache: hooks.cache && cacheForStep(hooks.cache, step)
+  };
+  try {
+    return appendUsage(await runStep(step, draft, tracked), usage.records);
+  } catch (e) {
+    if (usage.records.length > 0) hooks.commit(appendUsage(latest, usage.records));
+    throw e;
+  }
+}
+
+async function runStep(step: WorkflowStep, draft: PodcastContent, hooks: PipelineHooks): Promise<PodcastContent> {
+  if (draft.variantOf && step !== WorkflowStep.SYNTHESIS && step !== WorkflowStep.MASTERING) {
+    throw new Error("语言版本的内容译自原版节目，请在原版节目中重新生成该语言版本。");
+  }
+  if (draft.briefing) {
+    const handled = await executeBriefingStep(step, draft, hooks);
+    if (handled) return handled;
+  }
+  const { log, commit } = hooks;
+  const call = callOptions(hooks);
+  const k = draft.keyword;
+  const preset = formatPreset(draft.format);
+  switch (step) {
+    case WorkflowStep.RESEARCH: {
+      log("正在穿透搜索各大平台音视频摘要与机构研报...", "working");
+      const res = await gemini.collectMaterials(k, (msg) => log(msg, "working"), undefined, call);
+      if (res.repairs.length > 0) log(`素材池格式已自动修复：${res.repairs.join('；')}。`, "info");
+      log(`多模态素材搜集完成（${res.pool.hotword_type}），识别到 ${res.links.length} 个数据源。`, "success");
+      return recordPromptVersion({ ...draft, materials: res.materialJson, groundingLinks: res.links, groundedClaims: res.claims }, 'materials');
+    }
+    case WorkflowStep.INSIGHTS: {
+      log("正在进行反常识洞察提取与金句逻辑设计...", "working");
+      const meta = await gemini.generateHighlightsAndHooks(k, draft.materials!, call);
+      log("爆点设计完成。", "success");
+      return recordPromptVersion({ ...draft, hooks: meta.hooks || [], highlights: meta.highlights }, 'hooks');
+    }
+    case WorkflowStep.OUTLINE: {
+      // 大纲与标题分别落检查点：标题失败时重试不会重复生成大纲
+      let next = draft;
+      if (!next.outline) {
+        log(`构建逻辑因果链大纲（${preset.label}）...`, "working");
+        next = commit(recordPromptVersion({ ...next, outline: await gemini.generateOutline(k, next.materials!, preset, call) }, 'outline'));
+      }
+      if (!next.title) {
+        const title = await gemini.generateEpisodeTitle(k, next.hooks || [], call);
+        next = { ...next, title };
+        log(`标题定稿：${title}`, "success");
+      }
+      return next;
+    }
+    case WorkflowStep.DRAFTING: {
+      log(`正在撰写「${preset.label}」脚本（目标 ${preset.chars.join('–')} 字）...`, "working");
+      let script = await gemini.generateScript(k, draft.materials!, draft.outline!, draft.cast, {
+        links: draft.groundingLinks || [],
+        claims: draft.groundedClaims || []
+      }, preset, call);
+      let lengthCheck = checkLength(script, preset);
+      // 篇幅偏差超出容忍度时改写一次；改写后仍未达标则保留改写稿并提示
+      if (!lengthCheck.withinTolerance) {
+        log(`脚本约 ${lengthCheck.chars} 字，偏离目标 ${preset.chars.join('–')} 字，正在${lengthCheck.chars < preset.chars[0] ? '扩写' : '精简'}...`, "working");
+        script = await gemini.adjustScriptLength(k, script, preset, lengthCheck, draft.cast, call);
+        lengthCheck = checkLength(script, preset, lengthCheck.chars);
+      }
+      log(`对话脚本撰写完成，约 ${lengthCheck.chars} 字。`, lengthCheck.withinTolerance ? "success" : "info");
+      if (!lengthCheck.withinTolerance) log(`改写后篇幅仍偏离目标 ${preset.chars.join('–')} 字，可在脚本编辑器中人工调整。`, "info");
+      return recordPromptVersion({ ...draft, draftScript: script, finalScript: script, lengthCheck }, 'script');
+    }
+    case WorkflowStep.FACT_CHECK: {
+      log("正在核查脚本中的数字、日期、公司与人名...", "working");
+      const script = draft.finalScript || draft.draftScript!;
+      const report = await runFactCheck(draft, script, undefined, call);
+      const next = { ...draft, finalScript: script, factCheck: report };
+      const flagged = flaggedItems(report).length;
+      log(`事实核查完成：核验 ${report.items.length} 处，存疑 ${flagged} 处。`, flagged > 0 ? "info" : "success");
+      if (!report.resolved) {
+        commit(next);
+        throw new FactCheckPendingError(flagged);
+      }
+      return next;
+    }
+    case WorkflowStep.REVIEW: {
+      log("正在执行听感合规审校（投资暗示 / 涨跌评价 / 书面腔）...", "working");
+      const settings = loadReviewSettings();
+      // 审校定稿而非初稿：重跑审校时保留人工修改
+      const source = draft.finalScript || draft.draftScript!;
+      const initial = scanScript(source, settings.rules);
+      let script = source;
+      if (initial.length > 0) {
+        log(`命中 ${initial.length} 行待处理台词，正在定向改写...`, "working");
+        script = applyRewrites(source, await gemini.rewriteFlaggedLines(k, initial, call));
+      }
+      const sourceLines = source.split('\n');
+      const findings = scanScript(script, settings.rules);
+      const hardViolations = countBySeverity(findings, 'hard');
+      const report: ReviewReport = {
+        reviewedAt: new Date().toISOString(),
+        initialFindings: initial.length,
+        rewrites: script.split('\n')
+          .map((after, line) => ({ line, before: sourceLines[line], after }))
+          .filter(r => r.before !== r.after),
+        findings,
+        hardViolations,
+        softViolations: countBySeverity(findings, 'soft'),
+        blocked: settings.blockOnHardViolations && hardViolations > 0
+      };
+      const next = { ...draft, finalScript: script, reviewReport: report };
+      if (report.blocked) {
+        commit(next);
+        throw new ReviewBlockedError(hardViolations);
+      }
+      log(`合规审校完成：改写 ${report.rewrites.length} 行，剩余硬性违规 ${hardViolations} 处、提示 ${report.softViolations} 处。`, "success");
+      return next;
+    }
+    case WorkflowStep.SYNTHESIS: {
+      const cachedChunks = hooks.synthesis.chunkCache?.size || 0;
+      log(cachedChunks > 0 ? `正在合成高清多角色音频播客（复用 ${cachedChunks} 个已合成分段）...` : "正在合成高清多角色音频播客...", "working");
+      const result = await gemini.synthesizePodcast(draft.finalScript!, hooks.audioContext, {
+        ...hooks.synthesis,
+        cast: draft.cast,
+        chunkMaxChars: preset.chunkMaxChars,
+        speechInstruction: LANGUAGES.find(l => l.key === draft.language)?.speech,
+        ...call
+      });
+      const silenced = result.chunks.filter(c => c.status === 'silenced').length;
+      if (silenced > 0) log(`音频合成完成，但有 ${silenced} 个分段以静音占位，可在播放器中重试缺失段落。`, "error");
+      return withVoiceTrack(draft, result);
+    }
+    case WorkflowStep.MASTERING:
+      return await masterContent(draft, hooks);
+    default:
+      return draft;
+  }
+}
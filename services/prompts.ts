@@ -0,0 +1,154 @@
+import { PodcastContent, PromptDefinition, PromptHistory, PromptId, PromptRegistry, PromptVersion } from "../types";
+import { PROMPT_DEFINITIONS } from "../constants";
+
+const STORAGE_KEY = 'financepod.prompts';
+
+/** 内置模板的版本号；编辑保存的版本从 1 开始递增 */
+export const BUILTIN_PROMPT_VERSION = 0;
+
+const EXPORT_FORMAT = 'financepod-prompts';
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+const emptyRegistry = (): PromptRegistry =>
+  Object.fromEntries(PROMPT_DEFINITIONS.map(d => [d.id, { active: BUILTIN_PROMPT_VERSION, versions: [] }])) as unknown as PromptRegistry;
+
+export const promptDefinition = (id: PromptId): PromptDefinition => PROMPT_DEFINITIONS.find(d => d.id === id)!;
+
+export function loadPromptRegistry(): PromptRegistry {
+  const registry = emptyRegistry();
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as Partial<PromptRegistry> | null;
+    for (const def of PROMPT_DEFINITIONS) {
+      const history = saved?.[def.id];
+      if (history && Array.isArray(history.versions)) registry[def.id] = history;
+    }
+  } catch {
+    // 读取失败时使用内置模板
+  }
+  return registry;
+}
+
+export function savePromptRegistry(registry: PromptRegistry) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+}
+
+/**
+ * 当前生效的模板；生效版本已不存在时回退到内置模板
+ */
+export function activePrompt(registry: PromptRegistry, id: PromptId): { version: number; template: string } {
+  const history = registry[id];
+  const saved = history?.versions.find(v => v.version === history.active);
+  return saved
+    ? { version: saved.version, template: saved.template }
+    : { version: BUILTIN_PROMPT_VERSION, template: promptDefinition(id).template };
+}
+
+/** 模板中引用的变量名（去重，按首次出现的顺序） */
+export const templateVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), m => m[1])));
+
+/**
+ * 校验模板：不得引用未定义的变量，必需变量必须出现；返回错误信息，通过时返回 null
+ */
+export function validateTemplate(id: PromptId, template: string): string | null {
+  const def = promptDefinition(id);
+  if (!template.trim()) return '模板不能为空';
+  const used = templateVariables(template);
+  const unknown = used.filter(name => !def.variables.some(v => v.name === name));
+  if (unknown.length > 0) return `未定义的变量：${unknown.map(n => `{{${n}}}`).join('、')}`;
+  const missing = def.variables.filter(v => v.required && !used.includes(v.name));
+  if (missing.length > 0) return `缺少必需变量：${missing.map(v => `{{${v.name}}}（${v.description}）`).join('、')}`;
+  return null;
+}
+
+export function renderTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => name in values ? String(values[name]) : match);
+}
+
+/**
+ * 以当前生效的模板生成提示词
+ */
+export function renderPrompt(id: PromptId, values: Record<string, string | number>, registry = loadPromptRegistry()): string {
+  return renderTemplate(activePrompt(registry, id).template, values);
+}
+
+/** 以各变量的示例值渲染，供编辑器预览 */
+export const previewTemplate = (id: PromptId, template: string): string =>
+  renderTemplate(template, Object.fromEntries(promptDefinition(id).variables.map(v => [v.name, v.sample])));
+
+/**
+ * 保存为新版本并设为生效版本
+ */
+export function addPromptVersion(registry: PromptRegistry, id: PromptId, template: string, note?: string): PromptRegistry {
+  const history = registry[id];
+  const version: PromptVersion = {
+    version: history.versions.reduce((max, v) => Math.max(max, v.version), BUILTIN_PROMPT_VERSION) + 1,
+    template,
+    savedAt: new Date().toISOString(),
+    note: note?.trim() || undefined
+  };
+  return { ...registry, [id]: { active: version.version, versions: [...history.versions, version] } };
+}
+
+export function activatePromptVersion(registry: PromptRegistry, id: PromptId, version: number): PromptRegistry {
+  const history = registry[id];
+  if (version !== BUILTIN_PROMPT_VERSION && !history.versions.some(v => v.version === version)) return registry;
+  return { ...registry, [id]: { ...history, active: version } };
+}
+
+/**
+ * 在草稿上记录某个模板当前生效的版本
+ */
+export const recordPromptVersion = (draft: PodcastContent, id: PromptId, registry = loadPromptRegistry()): PodcastContent => ({
+  ...draft,
+  promptVersions: { ...draft.promptVersions, [id]: activePrompt(registry, id).version }
+});
+
+export const promptVersionLabel = (version?: number) =>
+  version === undefined ? '—' : version === BUILTIN_PROMPT_VERSION ? '内置' : `v${version}`;
+
+/**
+ * 导出全部模板及其版本历史
+ */
+export function exportPrompts(registry: PromptRegistry): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), prompts: registry }, null, 2);
+}
+
+/**
+ * 导入模板：文件中各模板的生效版本与本地当前模板不同时，追加为本地新版本并设为生效；
+ * 任一模板校验失败则整体拒绝导入
+ */
+export function importPrompts(json: string, registry: PromptRegistry): { registry: PromptRegistry; imported: PromptId[] } {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+  if (data?.format !== EXPORT_FORMAT || typeof data.prompts !== 'object' || !data.prompts) {
+    throw new Error('文件不是提示词模板导出文件');
+  }
+
+  const incoming: { id: PromptId; template: string; source?: number }[] = [];
+  for (const def of PROMPT_DEFINITIONS) {
+    const history = data.prompts[def.id] as PromptHistory | undefined;
+    if (!history || !Array.isArray(history.versions)) continue;
+    const source = history.versions.find(v => v?.version === history.active);
+    const template = source ? source.template : def.template;
+    if (typeof template !== 'string') throw new Error(`「${def.label}」模板格式无效`);
+    const error = validateTemplate(def.id, template);
+    if (error) throw new Error(`「${def.label}」模板${error}`);
+    incoming.push({ id: def.id, template, source: source?.version });
+  }
+  if (incoming.length === 0) throw new Error('文件中没有可识别的模板');
+
+  let next = registry;
+  const imported: PromptId[] = [];
+  for (const item of incoming) {
+    if (activePrompt(next, item.id).template === item.template) continue;
+    next = addPromptVersion(next, item.id, item.template, `导入${item.source ? `（原 v${item.source}）` : '（内置模板）'}`);
+    imported.push(item.id);
+  }
+  return { registry: next, imported };
+}
@@ -0,0 +1,152 @@
+import { GoogleGenAI, Type, Modality, Schema } from "@google/genai";
+import { JsonSchema, ModelProvider, ModelTier, GroundingSource, GroundingSupport, TokenUsage } from "./types";
+
+export interface GeminiModels {
+  fast: string;
+  pro: string;
+  tts: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModels = {
+  fast: 'gemini-3-flash-preview',
+  pro: 'gemini-3-pro-preview',
+  tts: 'gemini-2.5-flash-preview-tts'
+};
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+function toGeminiSchema(schema: JsonSchema): Schema {
+  return {
+    type: TYPE_MAP[schema.type],
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    properties: schema.properties
+      ? Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]))
+      : undefined
+  };
+}
+
+function toSources(response: any): GroundingSource[] {
+  return response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
+    title: String(chunk.web?.title || ''),
+    uri: String(chunk.web?.uri || '')
+  })) || [];
+}
+
+function toSupports(response: any): GroundingSupport[] {
+  return response.candidates?.[0]?.groundingMetadata?.groundingSupports?.map((support: any) => ({
+    text: String(support.segment?.text || ''),
+    sourceIndices: (support.groundingChunkIndices || []).map(Number)
+  })).filter((support: GroundingSupport) => support.text && support.sourceIndices.length > 0) || [];
+}
+
+function toUsage(response: any): TokenUsage | undefined {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount || 0,
+    outputTokens: meta.candidatesTokenCount || 0,
+    thinkingTokens: meta.thoughtsTokenCount || 0
+  };
+}
+
+function decodeBase64Pcm(base64: string): Int16Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let j = 0; j < binaryString.length; j++) bytes[j] = binaryString.charCodeAt(j);
+  return new Int16Array(bytes.buffer);
+}
+
+/**
+ * Gemini 实现：模型名称由档位映射，可按部署覆盖
+ */
+export function createGeminiProvider(apiKey?: string, models: Partial<GeminiModels> = {}): ModelProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  const resolved = { ...DEFAULT_GEMINI_MODELS, ...models };
+  const modelFor = (tier: ModelTier = 'fast') => resolved[tier];
+  const thinking = (budget?: number) => budget !== undefined ? { thinkingConfig: { thinkingBudget: budget } } : {};
+
+  return {
+    name: 'gemini',
+    modelFor,
+
+    async generateText({ prompt, tier, temperature, thinkingBudget, signal }) {
+      const model = modelFor(tier);
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { temperature, ...thinking(thinkingBudget), abortSignal: signal }
+      });
+      return { text: response.text || '', model, usage: toUsage(response) };
+    },
+
+    async generateJson({ prompt, tier, temperature, thinkingBudget, schema, signal }) {
+      const model = modelFor(tier);
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          temperature,
+          ...thinking(thinkingBudget),
+          responseMimeType: "application/json",
+          responseSchema: schema ? toGeminiSchema(schema) : undefined,
+          abortSignal: signal
+        }
+      });
+      const text = response.text || "{}";
+      return { text, model, usage: toUsage(response), data: JSON.parse(text) };
+    },
+
+    async groundedSearch({ prompt, tier, temperature, thinkingBudget, json, signal }) {
+      const model = modelFor(tier);
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          temperature,
+          ...thinking(thinkingBudget),
+          tools: [{ googleSearch: {} }],
+          responseMimeType: json ? "application/json" : undefined,
+          abortSignal: signal
+        }
+      });
+      return { text: response.text || '', model, usage: toUsage(response), sources: toSources(response), supports: toSupports(response) };
+    },
+
+    async synthesizeSpeech({ text, speakers, instruction, signal }) {
+      const model = resolved.tts;
+      // 多人配置要求恰好两位说话人；单人分段改用单一音色并去掉说话人标签
+      const single = speakers.length === 1;
+      const body = single ? text.replace(/^[^：:\n]+[：:]/gm, '') : text;
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ parts: [{ text: instruction ? `${instruction}\n${body}` : body }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          abortSignal: signal,
+          speechConfig: single
+            ? { voiceConfig: { prebuiltVoiceConfig: { voiceName: speakers[0].voice } } }
+            : {
+              multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: speakers.map(s => ({
+                  speaker: s.speaker,
+                  voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } }
+                }))
+              }
+            }
+        }
+      });
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      return { pcm: base64Audio ? decodeBase64Pcm(base64Audio) : new Int16Array(0), sampleRate: 24000, model, usage: toUsage(response) };
+    }
+  };
+}
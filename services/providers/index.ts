@@ -0,0 +1,28 @@
+import { ModelProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export * from "./types";
+export { createGeminiProvider, DEFAULT_GEMINI_MODELS } from "./geminiProvider";
+export { createMockProvider } from "./mockProvider";
+
+let activeProvider: ModelProvider | null = null;
+
+/**
+ * 当前 provider：默认按 LLM_PROVIDER 环境变量选择（gemini / mock）
+ */
+export function getProvider(): ModelProvider {
+  if (!activeProvider) {
+    activeProvider = process.env.LLM_PROVIDER === 'mock'
+      ? createMockProvider()
+      : createGeminiProvider(process.env.API_KEY);
+  }
+  return activeProvider;
+}
+
+/**
+ * 替换当前 provider（离线测试或运行时切换）
+ */
+export function setProvider(provider: ModelProvider) {
+  activeProvider = provider;
+}
@@ -0,0 +1,259 @@
+import { sleep } from "../async";
+import { GroundingSupport, ModelProvider, ModelTask, SpeakerVoice, TokenUsage } from "./types";
+
+const SAMPLE_RATE = 24000;
+const MODEL = 'mock-local';
+
+const extractKeyword = (prompt: string) =>
+  prompt.match(/(?:关键词|基于|关于)“([^”]+)”/)?.[1] || prompt.match(/“([^”]+)”/)?.[1] || '示例热词';
+
+const hashOf = (text: string) => Array.from(text).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+const MOCK_SOURCES = (keyword: string) => [
+  { title: `${keyword} 年度经营回顾`, uri: `https://example.com/news/${encodeURIComponent(keyword)}-review` },
+  { title: `${keyword} 产业链深度研报`, uri: `https://example.com/research/${encodeURIComponent(keyword)}` },
+  { title: `${keyword} 视频解读`, uri: `https://www.bilibili.com/video/mock-${hashOf(keyword) % 10000}` }
+];
+
+/**
+ * 三类热词的固定素材；mockScript 中出现的数字均能在每一类素材中找到依据，默认运行可通过事实核查
+ */
+function mockMaterials(keyword: string): any {
+  const variant = hashOf(keyword) % 3;
+  if (variant === 0) {
+    return {
+      hotword_type: "个股",
+      company_type: "技术突破型",
+      material_pool: {
+        hook_pack: `${keyword} 的故事，本质上是一场关于产能与订单节奏的赛跑。`,
+        one_sentence_identity: `${keyword} 是一家处在产业升级关键位置的制造企业。`,
+        why_people_talk_now: ["新一轮订单披露", "行业景气度讨论升温"],
+        timeline: [
+          { date: "2023-06", event: "发布新一代产品线" },
+          { date: "2024-03", event: "年报披露海外收入占比提升" },
+          { date: "2024-11", event: "公告扩产计划" }
+        ],
+        original_business_model: "以定制化生产为主，收入集中于头部客户，综合毛利率在 35% 左右。",
+        core_tensions: ["扩产节奏与需求兑现之间的时间差", "客户集中度带来的议价压力"],
+        validation_metrics: ["季度毛利率", "在手订单金额", "海外收入占比"],
+        risks_and_uncertainty: ["下游资本开支放缓", "技术路线迭代"]
+      }
+    };
+  }
+  if (variant === 1) {
+    return {
+      hotword_type: "产业",
+      industry_type: "技术范式型",
+      material_pool: {
+        definition: `${keyword} 指围绕核心技术形成的上下游产业集合。`,
+        core_tensions: ["技术成熟度与商业化速度的错配", "上游供给与下游需求的节奏差"],
+        profit_pool_and_orders: "利润正在从整机环节向核心部件环节迁移，核心部件毛利率约 35%。",
+        value_migration: "价值从硬件制造向系统集成与服务延伸。",
+        validation_metrics: ["行业出货量", "核心部件国产化率", "头部企业订单增速"],
+        alternative_explanations: [
+          { angle: "需求侧", core_fact_or_conflict: "下游应用场景仍在验证阶段" },
+          { angle: "政策侧", core_fact_or_conflict: "多地出台专项支持政策" }
+        ]
+      }
+    };
+  }
+  return {
+    hotword_type: "经济事件",
+    event_nature: "政策导向",
+    material_pool: {
+      event_core: `${keyword} 是近期市场讨论度最高的宏观事件之一。`,
+      why_it_matters: "它直接影响市场对中期增长路径的理解。",
+      stakeholders: ["监管部门：稳预期", "上市公司：调整资本开支", "机构投资者：重新评估久期"],
+      historical_precedent: "与 2015 年的同类政策窗口有相似之处。",
+      structural_reasons: "背后是增长动能切换与债务结构调整。",
+      chain_reaction: ["融资成本变化", "行业景气度分化", "受益行业龙头毛利率有望维持在 35% 左右"],
+      observation_window: ["下月经济数据发布", "季度政策会议"]
+    }
+  };
+}
+
+const extractSpeakers = (prompt: string) =>
+  Array.from(prompt.matchAll(/“([^“”：]+)：\.\.\.”/g), m => m[1]);
+
+/**
+ * 以素材中含数字的字段模拟检索支撑，轮流指向前两个来源
+ */
+function mockSupports(text: string): GroundingSupport[] {
+  const leaves: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') leaves.push(value);
+    else if (value && typeof value === 'object') Object.values(value).forEach(collect);
+  };
+  try {
+    collect(JSON.parse(text));
+  } catch {
+    return [];
+  }
+  return leaves.filter(leaf => /\d/.test(leaf)).slice(0, 4).map((leaf, i) => ({ text: leaf, sourceIndices: [i % 2] }));
+}
+
+function mockScript(keyword: string, prompt: string): string {
+  const [host = '主持人', ...guests] = extractSpeakers(prompt);
+  // 提示词附带来源清单时，在事实性台词后标注来源编号
+  const cite = (ids: string) => prompt.includes('[S1]') ? `[${ids}]` : '';
+  let turn = 0;
+  const cast = (line: string) => line.startsWith('主持人：')
+    ? line.replace('主持人', host)
+    : line.replace('嘉宾', guests.length > 0 ? guests[turn++ % guests.length] : host);
+  return [
+    `主持人：欢迎收听本期节目，今天我们聊的主角是“${keyword}”。最近它的讨论度明显升温，我们会从来龙去脉、核心矛盾、关键指标和不确定性四个方面展开。`,
+    `嘉宾：好的。先说清楚它是什么，市场讨论的焦点在于它正处在一个节奏切换的位置。`,
+    `主持人：那为什么偏偏是现在大家开始关注？`,
+    `嘉宾：一方面是近期的新信息披露，另一方面是行业整体的景气度讨论在升温，两件事叠加在一起。${cite('S1')}`,
+    `主持人：听起来核心矛盾在于预期和兑现之间的时间差？`,
+    `嘉宾：可以这么理解。市场如何理解这个时间差，决定了讨论的温度。`,
+    `主持人：如果我是普通听众，应该盯住哪些信号？`,
+    `嘉宾：比较常被提及的是毛利率、订单金额和海外收入占比这几项，它们能帮助验证故事是否在推进。${cite('S1,S2')}`,
+    `主持人：我看到有说法是毛利率已经到了 35% 左右？`,
+    `嘉宾：这个数字还需要以正式披露为准，我们更关注它的变化方向。`,
+    `主持人：最后聊聊不确定性。`,
+    `嘉宾：下游需求和技术路线都可能变化，这些都是需要持续观察的地方。`,
+    `主持人：好的，今天关于“${keyword}”的讨论就到这里，感谢收听。`
+  ].map(cast).join('\n');
+}
+
+const CANNED: Record<Exclude<ModelTask, 'tts'>, (keyword: string, prompt: string) => any> = {
+  trending: () => ({
+    ths: ["中际旭创", "工业母机", "低空经济", "宁德时代", "利欧股份"],
+    xq: ["人形机器人", "高股息资产", "英伟达", "腾讯控股", "贵州茅台"],
+    dfcf: ["固态电池", "券商板块", "白酒龙头", "半导体国产化", "创新药"]
+  }),
+  events: () => ([
+    { title: "新质生产力政策深化", summary: "相关板块近期表现活跃，资金关注度显著提升。" },
+    { title: "多家蓝筹股发布分红方案", summary: "高股息策略成为当前市场讨论的焦点。" },
+    { title: "央行公开市场操作", summary: "流动性预期成为市场讨论的核心变量。" }
+  ]),
+  materials: mockMaterials,
+  deepDive: (keyword) => `围绕“${keyword}”的视频核心论点：市场讨论集中在节奏与兑现。`,
+  links: (keyword) => `关于“${keyword}”的参考资料见引用来源。`,
+  hooks: (keyword) => ({
+    hooks: [`${keyword}：一个被低估的时间差故事`, "热闹的不是结果，而是预期", "看懂指标，比看懂情绪更重要"],
+    highlights: [
+      { label: "反常识洞察", description: "讨论热度并不等于基本面变化。" },
+      { label: "关键类比", description: "像一场接力赛，交接棒的节奏决定成绩。" },
+      { label: "观察清单", description: "三项指标帮助听众自行验证。" }
+    ]
+  }),
+  outline: (keyword) => `一、开场：为什么现在聊“${keyword}”\n二、来龙去脉\n三、核心矛盾\n四、关键观察指标\n五、不确定性与收尾`,
+  title: (keyword) => `${keyword}：市场到底在争论什么`,
+  script: mockScript,
+  briefing: (keyword, prompt) => {
+    if (prompt.includes('"opener"')) {
+      return {
+        opener: `主持人：早上好，欢迎收听${keyword}。今天我们按顺序过一遍市场最关注的几件事。\n嘉宾：好的，先从今天讨论度最高的一条开始。`,
+        recap: `主持人：最后简单回顾一下，今天几条消息的共同线索是预期的变化。\n嘉宾：明天值得留意的是相关数据的后续披露。\n主持人：感谢收听，我们明天见。`
+      };
+    }
+    const title = prompt.match(/关于“([^”]+)”的对话段落/)?.[1] || keyword;
+    const cite = prompt.includes('[S1]') ? '[S1]' : '';
+    return [
+      `主持人：接下来聊聊“${title}”。`,
+      `嘉宾：这件事的核心在于市场如何理解它对中期路径的影响。${cite}`,
+      `主持人：接下来值得观察什么？`,
+      `嘉宾：下一批数据发布是关键的验证窗口。`
+    ].join('\n');
+  },
+  factCheck: (keyword, prompt) => {
+    if (prompt.includes('"verdicts"')) {
+      return { verdicts: Array.from(prompt.matchAll(/\[(F\d+)\]/g), m => ({ id: m[1], verdict: 'unsupported', evidence: '素材中未找到对应信息' })) };
+    }
+    if (prompt.includes('"items"')) return { items: [] };
+    return {
+      lines: Array.from(prompt.matchAll(/^\[(\d+)\] [^：\n]+：(.*)$/gm), m => ({
+        line: Number(m[1]),
+        text: m[2].replace(/\d+(?:\.\d+)?\s*(?:%|％|个百分点|万亿|亿|万|千)?/g, '一定水平')
+      }))
+    };
+  },
+  review: () => ({ lines: [] }),
+  localize: (keyword, prompt) => {
+    const labels = new Map(Array.from(prompt.matchAll(/^(.+) → (.+)$/gm), m => [m[1], m[2]]));
+    const source = prompt.match(/原脚本：\n([\s\S]*?)\n\n以 JSON 返回/)?.[1] || '';
+    const tag = prompt.includes('英语') ? 'EN' : '粤';
+    return {
+      title: `[${tag}] ${prompt.match(/原标题：(.*)/)?.[1] || keyword}`,
+      script: source.split('\n').map(line => {
+        if (/^【.*】$/.test(line.trim())) return line;
+        const [, speaker = '', text = line] = line.match(/^([^：:]+)[：:](.*)$/) || [];
+        return `${labels.get(speaker.trim()) || speaker}: [${tag}] ${text.trim()}`;
+      }).join('\n')
+    };
+  }
+};
+
+/**
+ * 为每位说话人生成不同音高的合成提示音，时长与台词长度成正比
+ */
+function synthesizeTones(text: string, speakers: SpeakerVoice[]): Int16Array {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const gap = Math.round(SAMPLE_RATE * 0.25);
+  const segments = lines.map(line => {
+    const [speaker, ...rest] = line.split(/[：:]/);
+    const index = Math.max(0, speakers.findIndex(s => s.speaker === speaker.trim()));
+    const seconds = Math.min(6, 0.3 + rest.join('').length * 0.05);
+    return { freq: 220 + index * 110, length: Math.round(seconds * SAMPLE_RATE) };
+  });
+  const pcm = new Int16Array(segments.reduce((acc, s) => acc + s.length + gap, 0));
+  let offset = 0;
+  for (const seg of segments) {
+    for (let i = 0; i < seg.length; i++) {
+      const envelope = Math.min(1, i / 600, (seg.length - i) / 600);
+      pcm[offset + i] = Math.round(Math.sin(2 * Math.PI * seg.freq * i / SAMPLE_RATE) * envelope * 0.3 * 0x7fff);
+    }
+    offset += seg.length + gap;
+  }
+  return pcm;
+}
+
+// 按字符数粗估 token 用量，便于离线检查用量统计
+const estimateUsage = (prompt: string, output: string, thinking = 0): TokenUsage => ({
+  promptTokens: Math.ceil(prompt.length / 2),
+  outputTokens: Math.ceil(output.length / 2),
+  thinkingTokens: thinking
+});
+
+/**
+ * 确定性的本地 provider：返回固定素材、脚本与合成提示音，可完全离线运行整条链路
+ */
+export function createMockProvider(latencyMs = 300): ModelProvider {
+  const wait = (signal?: AbortSignal) => sleep(latencyMs, signal);
+  const answer = (task: ModelTask, prompt: string) => {
+    const value = CANNED[task as Exclude<ModelTask, 'tts'>](extractKeyword(prompt), prompt);
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+
+  return {
+    name: 'mock',
+    modelFor: () => MODEL,
+
+    async generateText({ task, prompt, thinkingBudget, signal }) {
+      await wait(signal);
+      const text = answer(task, prompt);
+      return { text, model: MODEL, usage: estimateUsage(prompt, text, thinkingBudget ? Math.round(thinkingBudget / 4) : 0) };
+    },
+
+    async generateJson({ task, prompt, signal }) {
+      await wait(signal);
+      const text = answer(task, prompt);
+      return { text, model: MODEL, usage: estimateUsage(prompt, text), data: JSON.parse(text) };
+    },
+
+    async groundedSearch({ task, prompt, signal }) {
+      await wait(signal);
+      const text = answer(task, prompt);
+      return { text, model: MODEL, usage: estimateUsage(prompt, text), sources: MOCK_SOURCES(extractKeyword(prompt)), supports: task === 'materials' ? mockSupports(text) : [] };
+    },
+
+    async synthesizeSpeech({ text, speakers, signal }) {
+      await wait(signal);
+      const pcm = synthesizeTones(text, speakers);
+      // 音频输出按每秒 25 个 token 计
+      return { pcm, sampleRate: SAMPLE_RATE, model: MODEL, usage: { promptTokens: Math.ceil(text.length / 2), outputTokens: Math.round(pcm.length / SAMPLE_RATE * 25), thinkingTokens: 0 } };
+    }
+  };
+}
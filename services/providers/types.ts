@@ -0,0 +1,125 @@
+/**
+ * 模型调用的业务用途，用于 mock 分派（以及后续的统计/缓存策略）
+ */
+export type ModelTask =
+  | 'trending'
+  | 'events'
+  | 'materials'
+  | 'deepDive'
+  | 'links'
+  | 'hooks'
+  | 'outline'
+  | 'title'
+  | 'script'
+  | 'briefing'
+  | 'localize'
+  | 'factCheck'
+  | 'review'
+  | 'tts';
+
+/**
+ * 模型档位：由具体 provider 映射到各自的模型名称
+ */
+export type ModelTier = 'fast' | 'pro';
+
+/**
+ * 与厂商无关的 JSON Schema 子集
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+export interface TextRequest {
+  task: ModelTask;
+  prompt: string;
+  tier?: ModelTier;
+  temperature?: number;
+  thinkingBudget?: number;
+  /** 取消或超时时中止请求 */
+  signal?: AbortSignal;
+}
+
+export interface JsonRequest extends TextRequest {
+  schema?: JsonSchema;
+}
+
+export interface SearchRequest extends TextRequest {
+  /** 要求以 JSON 文本返回（不做 schema 约束） */
+  json?: boolean;
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
+/**
+ * 单次调用的 token 用量；厂商未返回时为 undefined
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export interface TextResult {
+  text: string;
+  model: string;
+  usage?: TokenUsage;
+  /** 来自响应缓存或录制回放 */
+  cached?: boolean;
+}
+
+/**
+ * 检索结果中一段文字与支撑它的来源（sourceIndices 为 sources 的下标）
+ */
+export interface GroundingSupport {
+  text: string;
+  sourceIndices: number[];
+}
+
+export interface SearchResult extends TextResult {
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+}
+
+export interface SpeakerVoice {
+  speaker: string;
+  voice: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  speakers: SpeakerVoice[];
+  /** 朗读语言与风格提示，置于正文之前 */
+  instruction?: string;
+  signal?: AbortSignal;
+}
+
+export interface SpeechResult {
+  /** 单声道 16-bit PCM */
+  pcm: Int16Array;
+  sampleRate: number;
+  model: string;
+  usage?: TokenUsage;
+  /** 来自录制回放 */
+  cached?: boolean;
+}
+
+/**
+ * 生产链路依赖的全部模型能力：文本、结构化 JSON、联网检索、多角色 TTS
+ */
+export interface ModelProvider {
+  readonly name: string;
+  /** 档位对应的模型名称（用于缓存键） */
+  modelFor(tier?: ModelTier): string;
+  generateText(request: TextRequest): Promise<TextResult>;
+  generateJson<T = any>(request: JsonRequest): Promise<TextResult & { data: T }>;
+  groundedSearch(request: SearchRequest): Promise<SearchResult>;
+  synthesizeSpeech(request: SpeechRequest): Promise<SpeechResult>;
+}
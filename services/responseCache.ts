@@ -0,0 +1,263 @@
+import { CacheMode, CacheSettings, WorkflowStep } from "../types";
+import { CACHE_TTLS, DEFAULT_CACHE_SETTINGS } from "../constants";
+import { JsonRequest, ModelProvider, ModelTask, SearchRequest, SpeechRequest, SpeechResult, TextResult } from "./providers";
+
+const SETTINGS_KEY = 'financepod.cacheSettings';
+const DB_NAME = 'financepod-cache';
+const DB_VERSION = 1;
+const RESPONSE_STORE = 'responses';
+
+/** 普通缓存与录制分开存放，各自按日期整体保留 */
+export type CacheBucket = 'cache' | 'tape';
+
+const entryKey = (bucket: CacheBucket, hash: string) => `${bucket}:${hash}`;
+const metaKey = (bucket: CacheBucket) => `meta:${bucket}`;
+
+/**
+ * 缓存的键值存储：浏览器使用 IndexedDB，命令行使用本地目录
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  put(key: string, value: unknown): Promise<void>;
+  /** 删除指定前缀的全部条目 */
+  clear(prefix: string): Promise<void>;
+  count(prefix: string): Promise<number>;
+}
+
+interface CacheEntry<R = TextResult> {
+  task: ModelTask;
+  savedAt: string;
+  /** 过期时间（毫秒时间戳）；录制条目不过期 */
+  expiresAt?: number;
+  result: R;
+}
+
+/** 录制的语音：PCM 以 base64 存放，命令行的 JSON 文件也能保存 */
+interface RecordedSpeech {
+  pcm: string;
+  sampleRate: number;
+  model: string;
+}
+
+/** 一个日期分桶：跨日后普通缓存清空，录制重新开始 */
+export interface CacheBucketInfo {
+  date: string;
+  startedAt: string;
+}
+
+/**
+ * 一次生产的缓存上下文，随模型调用选项传入
+ */
+export interface CacheContext {
+  mode: Exclude<CacheMode, 'off'>;
+  store: CacheStore;
+  /** 日期分桶，同时作为提示词中的“今天”；回放时固定为录制日期 */
+  date: string;
+  bypassSteps: WorkflowStep[];
+  /** 当前调用跳过缓存读取（仍写入新结果） */
+  bypass?: boolean;
+}
+
+/**
+ * 回放模式下请求不在录制中：提示词、参数或上游产出与录制时不一致
+ */
+export class ReplayMissError extends Error {
+  constructor(task: ModelTask) {
+    super(`录制中没有与本次「${task}」调用一致的请求，可对相应步骤跳过缓存后重新生成。`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function encodePcm(pcm: Int16Array): string {
+  const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+function decodePcm(base64: string): Int16Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Int16Array(bytes.buffer);
+}
+
+/**
+ * 内容寻址的缓存键：模型、调用类型、提示词、生成配置与日期分桶，任一变化即视为新请求；
+ * 语音合成的模型由 provider 固定，以 provider 名称区分
+ */
+function requestHash(provider: ModelProvider, kind: string, request: JsonRequest | SearchRequest | SpeechRequest, date: string): Promise<string> {
+  const { signal, ...config } = request;
+  const model = 'task' in request ? provider.modelFor(request.tier) : undefined;
+  return sha256(JSON.stringify({ provider: provider.name, model, kind, date, ...config }));
+}
+
+/**
+ * 为 provider 加上响应缓存：cache 模式按调用类型的有效期复用，record 写入录制，replay 只读录制；
+ * 语音合成只进录制（普通缓存由会话内的分段缓存承担），回放不发起合成调用；空响应不写入
+ */
+export function cachedProvider(provider: ModelProvider, context: CacheContext): ModelProvider {
+  const { mode, store } = context;
+  const bucket: CacheBucket = mode === 'cache' ? 'cache' : 'tape';
+
+  const through = async <R extends TextResult>(kind: string, request: JsonRequest | SearchRequest, call: () => Promise<R>): Promise<R> => {
+    const ttl = CACHE_TTLS[request.task] || 0;
+    if (mode === 'cache' && ttl <= 0) return call();
+    if (mode === 'replay' && context.bypass) return call();
+    const key = entryKey(bucket, await requestHash(provider, kind, request, context.date));
+
+    if (mode !== 'record' && !context.bypass) {
+      const entry = await store.get<CacheEntry>(key).catch(() => undefined);
+      if (entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now())) {
+        return { ...(entry.result as R), usage: undefined, cached: true };
+      }
+      if (mode === 'replay') throw new ReplayMissError(request.task);
+    }
+
+    const result = await call();
+    if (result.text) {
+      const { usage, ...stored } = result;
+      const entry: CacheEntry = { task: request.task, savedAt: new Date().toISOString(), expiresAt: mode === 'cache' ? Date.now() + ttl * 1000 : undefined, result: stored };
+      // 写入失败（如存储空间不足）不影响本次调用
+      await store.put(key, entry).catch(e => console.warn('响应缓存写入失败', e));
+    }
+    return result;
+  };
+
+  const speech = async (request: SpeechRequest): Promise<SpeechResult> => {
+    if (mode === 'cache' || (mode === 'replay' && context.bypass)) return provider.synthesizeSpeech(request);
+    const key = entryKey(bucket, await requestHash(provider, 'speech', request, context.date));
+
+    if (mode === 'replay') {
+      const entry = await store.get<CacheEntry<RecordedSpeech>>(key).catch(() => undefined);
+      if (!entry) throw new ReplayMissError('tts');
+      return { ...entry.result, pcm: decodePcm(entry.result.pcm), cached: true };
+    }
+
+    const result = await provider.synthesizeSpeech(request);
+    if (result.pcm.length > 0) {
+      const entry: CacheEntry<RecordedSpeech> = {
+        task: 'tts',
+        savedAt: new Date().toISOString(),
+        result: { pcm: encodePcm(result.pcm), sampleRate: result.sampleRate, model: result.model }
+      };
+      await store.put(key, entry).catch(e => console.warn('响应缓存写入失败', e));
+    }
+    return result;
+  };
+
+  return {
+    name: provider.name,
+    modelFor: tier => provider.modelFor(tier),
+    generateText: request => through('text', request, () => provider.generateText(request)),
+    generateJson: <T,>(request: JsonRequest) => through('json', request, () => provider.generateJson<T>(request)),
+    groundedSearch: request => through('search', request, () => provider.groundedSearch(request)),
+    synthesizeSpeech: speech
+  };
+}
+
+/**
+ * 按步骤解析上下文：被设置为跳过缓存的步骤不读取缓存
+ */
+export const cacheForStep = (context: CacheContext, step: WorkflowStep): CacheContext =>
+  context.bypass || !context.bypassSteps.includes(step) ? context : { ...context, bypass: true };
+
+async function resetCacheBucket(store: CacheStore, bucket: CacheBucket, date: string) {
+  await store.clear(`${bucket}:`);
+  await store.put(metaKey(bucket), { date, startedAt: new Date().toISOString() } as CacheBucketInfo);
+}
+
+/**
+ * 按设置打开一次生产的缓存上下文；关闭缓存时返回 undefined。
+ * 进入新的一天时清空前一天的缓存；录制跨日时重新开始，回放固定使用录制日期
+ */
+export async function openCacheContext(settings: CacheSettings, store: CacheStore): Promise<CacheContext | undefined> {
+  if (settings.mode === 'off') return undefined;
+  const bucket: CacheBucket = settings.mode === 'cache' ? 'cache' : 'tape';
+  const info = await store.get<CacheBucketInfo>(metaKey(bucket));
+  let date = today();
+  if (settings.mode === 'replay') {
+    if (!info) throw new Error('没有可回放的录制，请先在录制模式下生产一期节目。');
+    date = info.date;
+  } else if (info?.date !== date) {
+    await resetCacheBucket(store, bucket, date);
+  }
+  return { mode: settings.mode, store, date, bypassSteps: settings.bypassSteps };
+}
+
+export interface CacheStatus {
+  cached: number;
+  recorded: number;
+  tape?: CacheBucketInfo;
+}
+
+export async function cacheStatus(store: CacheStore): Promise<CacheStatus> {
+  return {
+    cached: await store.count('cache:'),
+    recorded: await store.count('tape:'),
+    tape: await store.get<CacheBucketInfo>(metaKey('tape'))
+  };
+}
+
+export async function clearCache(store: CacheStore, bucket: CacheBucket) {
+  await store.clear(`${bucket}:`);
+  await store.clear(metaKey(bucket));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESPONSE_STORE)) db.createObjectStore(RESPONSE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(RESPONSE_STORE, mode).objectStore(RESPONSE_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+/**
+ * 浏览器端存储：独立的 IndexedDB 数据库，不占用节目库
+ */
+export const browserCacheStore: CacheStore = {
+  get: key => withStore('readonly', store => store.get(key)),
+  put: async (key, value) => { await withStore('readwrite', store => store.put(value, key)); },
+  clear: async prefix => { await withStore('readwrite', store => store.delete(prefixRange(prefix))); },
+  count: prefix => withStore('readonly', store => store.count(prefixRange(prefix)))
+};
+
+export function loadCacheSettings(): CacheSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return saved ? { ...DEFAULT_CACHE_SETTINGS, ...saved } : DEFAULT_CACHE_SETTINGS;
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+}
+
+export function saveCacheSettings(settings: CacheSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
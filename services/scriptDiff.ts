@@ -0,0 +1,67 @@
+export type DiffOp =
+  | { type: 'equal'; a: number; b: number; text: string }
+  | { type: 'delete'; a: number; text: string }
+  | { type: 'insert'; b: number; text: string };
+
+/**
+ * 基于最长公共子序列的逐行 diff（脚本通常只有百余行，O(n·m) 足够）
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) { ops.push({ type: 'equal', a: i, b: j, text: a[i] }); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) { ops.push({ type: 'delete', a: i, text: a[i] }); i++; }
+    else { ops.push({ type: 'insert', b: j, text: b[j] }); j++; }
+  }
+  while (i < n) { ops.push({ type: 'delete', a: i, text: a[i] }); i++; }
+  while (j < m) { ops.push({ type: 'insert', b: j, text: b[j] }); j++; }
+  return ops;
+}
+
+export interface ScriptTurn {
+  speaker: string;
+  text: string;
+  /** 分段脚本（如早报）中，该轮之前的段落标题 */
+  segment?: string;
+}
+
+/**
+ * 段落标题行：独占一行的【标题】，不含冒号，因此不会被当作对话
+ */
+const SEGMENT_HEADING = /^【([^：:【】]+)】$/;
+
+export const formatSegmentHeading = (title: string) => `【${title.replace(/[：:【】]/g, ' ').trim()}】`;
+
+export const parseSegmentHeading = (line: string) => line.trim().match(SEGMENT_HEADING)?.[1].trim();
+
+export function parseTurns(script: string): ScriptTurn[] {
+  let segment: string | undefined;
+  return (script || '').split('\n').flatMap(line => {
+    const heading = parseSegmentHeading(line);
+    if (heading) {
+      segment = heading;
+      return [];
+    }
+    const match = line.replace(/\*\*/g, '').trim().match(/^([^：:]+)[：:](.*)$/);
+    if (!match) return [];
+    const turn: ScriptTurn = { speaker: match[1].trim(), text: match[2].trim(), ...(segment ? { segment } : {}) };
+    segment = undefined;
+    return [turn];
+  });
+}
+
+export const formatTurns = (turns: ScriptTurn[]) =>
+  turns.filter(t => t.speaker.trim() && t.text.trim())
+    .flatMap(t => [...(t.segment ? [formatSegmentHeading(t.segment)] : []), `${t.speaker.trim()}：${t.text.trim()}`])
+    .join('\n');
@@ -0,0 +1,17 @@
+import { StepTimeouts } from "../types";
+import { DEFAULT_STEP_TIMEOUTS } from "../constants";
+
+const STORAGE_KEY = 'financepod.stepTimeouts';
+
+export function loadStepTimeouts(): StepTimeouts {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_STEP_TIMEOUTS, ...saved } : DEFAULT_STEP_TIMEOUTS;
+  } catch {
+    return DEFAULT_STEP_TIMEOUTS;
+  }
+}
+
+export function saveStepTimeouts(timeouts: StepTimeouts) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(timeouts));
+}
@@ -0,0 +1,87 @@
+import { SubtitleCue, TimingEntry } from "../types";
+import { stripCitations } from "./citations";
+
+/** 一行字幕的最大宽度：汉字按 1 计，西文字符按 0.5 计 */
+const MAX_LINE_WIDTH = 32;
+
+// 句末标点后断开；仍然过长的句子再按逗号断开（西文标点须后跟空格，避免切开 3:00、1.5 之类）
+const SENTENCE_END = /(?<=[。！？；…])\s*|(?<=[.!?;])\s+/;
+const CLAUSE_END = /(?<=[，、：])\s*|(?<=[,:])\s+/;
+
+const width = (text: string) => Array.from(text).reduce((acc, ch) => acc + (/[\x00-\xff]/.test(ch) ? 0.5 : 1), 0);
+
+function splitLong(text: string): string[] {
+  if (width(text) <= MAX_LINE_WIDTH) return [text];
+  const clauses = text.split(CLAUSE_END).filter(Boolean);
+  if (clauses.length > 1) return clauses.flatMap(splitLong);
+  // 没有可断开的标点时按宽度硬切（西文在空格处断开）
+  const out: string[] = [];
+  let current = '';
+  for (const token of text.match(/\S+\s*|\s+/g) || []) {
+    const pieces = /[\x00-\xff]/.test(token[0]) ? [token] : Array.from(token);
+    for (const piece of pieces) {
+      if (current && width(current + piece) > MAX_LINE_WIDTH) {
+        out.push(current.trim());
+        current = '';
+      }
+      current += piece;
+    }
+  }
+  if (current.trim()) out.push(current.trim());
+  return out;
+}
+
+/**
+ * 将一句台词拆成若干行字幕：先按句、过长再按分句，相邻短句合并到一行
+ */
+export function splitSubtitleLines(text: string): string[] {
+  const pieces = text.split(SENTENCE_END).filter(Boolean).flatMap(splitLong);
+  const lines: string[] = [];
+  for (const piece of pieces) {
+    const last = lines[lines.length - 1];
+    const joined = last !== undefined && (/[\x00-\xff]$/.test(last) ? `${last} ${piece}` : last + piece);
+    if (joined && width(joined) <= MAX_LINE_WIDTH) lines[lines.length - 1] = joined;
+    else lines.push(piece);
+  }
+  return lines;
+}
+
+/**
+ * 由时间轴生成字幕：每句台词的起止时间来自合成分段布局，句内各行按宽度比例分配
+ */
+export function buildSubtitleCues(timing: TimingEntry[]): SubtitleCue[] {
+  return timing.flatMap(entry => {
+    const lines = splitSubtitleLines(stripCitations(entry.text).trim());
+    const total = lines.reduce((acc, l) => acc + width(l), 0) || 1;
+    let cursor = entry.start;
+    return lines.map(text => {
+      const end = cursor + (width(text) / total) * (entry.end - entry.start);
+      const cue = { start: cursor, end, speaker: entry.speaker, text };
+      cursor = end;
+      return cue;
+    });
+  });
+}
+
+function timestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues.map((cue, i) =>
+    `${i + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.speaker ? `${cue.speaker}：` : ''}${cue.text}\n`
+  ).join('\n');
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * WebVTT：说话人写入 voice 标签，播放器可据此区分显示
+ */
+export function toWebVtt(cues: SubtitleCue[]): string {
+  return ['WEBVTT', '', ...cues.map(cue =>
+    `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${escapeVtt(cue.text)}\n`
+  )].join('\n');
+}
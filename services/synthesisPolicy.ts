@@ -0,0 +1,17 @@
+import { SynthesisPolicy } from "../types";
+import { DEFAULT_SYNTHESIS_POLICY } from "../constants";
+
+const STORAGE_KEY = 'financepod.synthesisPolicy';
+
+export function loadSynthesisPolicy(): SynthesisPolicy {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_SYNTHESIS_POLICY, ...saved } : DEFAULT_SYNTHESIS_POLICY;
+  } catch {
+    return DEFAULT_SYNTHESIS_POLICY;
+  }
+}
+
+export function saveSynthesisPolicy(policy: SynthesisPolicy) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+}
@@ -0,0 +1,92 @@
+import { CastMember, SynthesisChunk, TimingEntry } from "../types";
+import { matchSpeaker } from "./cast";
+
+const FRAME = 480; // 24 kHz 下 20ms
+const SILENCE_RMS = 0.01;
+const SNAP_WINDOW_SECONDS = 1.5;
+
+function frameRms(samples: Float32Array, start: number): number {
+  let sum = 0;
+  const end = Math.min(samples.length, start + FRAME);
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, end - start));
+}
+
+/**
+ * 在估算位置附近寻找最长的静音段，返回其中点；找不到则保持原位置
+ */
+function snapToSilence(samples: Float32Array, position: number, min: number, max: number, window: number): number {
+  const from = Math.max(min, position - window);
+  const to = Math.min(max, position + window);
+  let best = { length: 0, center: position };
+  let runStart = -1;
+  for (let i = from; i + FRAME <= to; i += FRAME) {
+    const silent = frameRms(samples, i) < SILENCE_RMS;
+    if (silent && runStart < 0) runStart = i;
+    if ((!silent || i + 2 * FRAME > to) && runStart >= 0) {
+      const runEnd = silent ? i + FRAME : i;
+      if (runEnd - runStart > best.length) best = { length: runEnd - runStart, center: Math.round((runStart + runEnd) / 2) };
+      runStart = -1;
+    }
+  }
+  return best.center;
+}
+
+/**
+ * 由分段布局估算每一行台词在成片中的起止时间：
+ * 分段边界精确已知，段内按字数比例估算后吸附到最近的停顿
+ */
+export function buildTimingMap(chunks: SynthesisChunk[], samples: Float32Array, sampleRate: number): TimingEntry[] {
+  const entries: TimingEntry[] = [];
+  const window = Math.round(SNAP_WINDOW_SECONDS * sampleRate);
+  let chunkStart = 0;
+  let line = 0;
+
+  chunks.forEach((chunk, chunkIndex) => {
+    const chunkEnd = chunkStart + chunk.samples;
+    const lines = chunk.text.split('\n').filter(Boolean);
+    const weights = lines.map(l => Math.max(1, l.split(/[：:]/).slice(1).join('').length));
+    const total = weights.reduce((a, b) => a + b, 0);
+
+    let cursor = chunkStart;
+    let acc = 0;
+    lines.forEach((text, i) => {
+      acc += weights[i];
+      const estimated = chunkStart + Math.round((acc / total) * chunk.samples);
+      const end = i === lines.length - 1
+        ? chunkEnd
+        : Math.min(chunkEnd, Math.max(cursor, snapToSilence(samples, estimated, cursor, chunkEnd, window)));
+      // 只按第一个冒号切分说话人，台词中的冒号（如英文版本的时刻）保持原样
+      const [, speaker = '', body = text] = text.match(/^([^：:]*)[：:](.*)$/) || [];
+      entries.push({
+        line: line++,
+        chunk: chunkIndex,
+        speaker: speaker.trim(),
+        text: body.trim(),
+        start: cursor / sampleRate,
+        end: end / sampleRate
+      });
+      cursor = end;
+    });
+    chunkStart = chunkEnd;
+  });
+
+  return entries;
+}
+
+/**
+ * 将脚本原文的行号映射到时间轴行号（非对话行为 -1）
+ */
+export function timingIndexForLines(script: string, cast?: CastMember[]): number[] {
+  let index = 0;
+  // 与 cleanScript 的过滤规则保持一致
+  return (script || '').split('\n').map(line => {
+    const label = line.replace(/\*\*/g, '').trim().match(/^([^：:]+)[：:]/)?.[1];
+    return label && (!cast || matchSpeaker(label, cast)) ? index++ : -1;
+  });
+}
+
+export function findActiveLine(timing: TimingEntry[], time: number): number {
+  const entry = timing.find(t => time >= t.start && time < t.end);
+  return entry ? entry.line : -1;
+}
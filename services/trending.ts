@@ -0,0 +1,122 @@
+import { TrendingBoard, TrendingPlatform, TrendingSnapshot, TrendingTopic } from "../types";
+import { TRENDING_ALIASES, TRENDING_FALLBACK, TRENDING_PLATFORMS, TRENDING_TTL_MS } from "../constants";
+import { ModelCallOptions, fetchTrendingTopics } from "./geminiService";
+
+const STORAGE_KEY = 'financepod.trending';
+
+type TrendingCache = Partial<Record<TrendingPlatform, { topics: string[]; fetchedAt: string }>>;
+
+function readCache(): TrendingCache {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') || {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(cache: TrendingCache) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+}
+
+/**
+ * 归一词条写法：全半角、空白、证券代码与“概念/板块”等后缀不影响匹配
+ */
+export function normalizeTopic(name: string): string {
+  const key = name.normalize('NFKC')
+    .replace(/[（(]?\d{5,6}(?:\.(?:SH|SZ|HK))?[)）]?/gi, '')
+    .replace(/-(?:SW|W|U)$/i, '')
+    .replace(/[\s·•\-_"“”'‘’]/g, '')
+    .replace(/(?:概念股|概念|板块|题材)$/, '')
+    .toLowerCase();
+  return key || name.trim().toLowerCase();
+}
+
+const ALIAS_INDEX = new Map<string, string>(
+  Object.entries(TRENDING_ALIASES).flatMap(([name, aliases]) =>
+    [name, ...aliases].map(alias => [normalizeTopic(alias), name] as [string, string]))
+);
+
+/**
+ * 实体的去重键：别名归一到统一名称后再比较
+ */
+export function topicKey(name: string): string {
+  const canonical = ALIAS_INDEX.get(normalizeTopic(name));
+  return canonical ? normalizeTopic(canonical) : normalizeTopic(name);
+}
+
+/**
+ * 合并各平台榜单：同一实体去重后按上榜平台数优先、再按热度排序。
+ * 单个平台内的热度按名次线性折算，榜首为 100
+ */
+export function mergeTrending(boards: TrendingBoard[]): TrendingTopic[] {
+  const merged = new Map<string, TrendingTopic>();
+  for (const board of boards) {
+    board.topics.forEach((topic, index) => {
+      const canonical = ALIAS_INDEX.get(normalizeTopic(topic));
+      const id = topicKey(topic);
+      const entry = merged.get(id) || { keyword: canonical || topic, aliases: [], ranks: {}, heat: 0 };
+      if (!entry.aliases.includes(topic)) entry.aliases.push(topic);
+      // 无统一名称时展示最简洁的写法（如“低空经济”而非“低空经济概念”）
+      if (!canonical && topic.length < entry.keyword.length) entry.keyword = topic;
+      // 同一平台重复上榜只计最靠前的名次
+      if (entry.ranks[board.platform] === undefined) {
+        entry.ranks[board.platform] = index + 1;
+        entry.heat += Math.round((board.topics.length - index) / board.topics.length * 100);
+      }
+      merged.set(id, entry);
+    });
+  }
+  const platformsOf = (t: TrendingTopic) => Object.keys(t.ranks).length;
+  const bestRank = (t: TrendingTopic) => Math.min(...Object.values(t.ranks) as number[]);
+  return Array.from(merged.values())
+    .sort((a, b) => platformsOf(b) - platformsOf(a) || b.heat - a.heat || bestRank(a) - bestRank(b));
+}
+
+/**
+ * 读取热榜：缓存均在有效期内时直接返回，force 时强制刷新。
+ * 获取失败的平台依次退回缓存与内置兜底榜单，并在 status / error 中如实标注
+ */
+export async function loadTrending(force = false, call: ModelCallOptions = {}): Promise<TrendingSnapshot> {
+  const cache = readCache();
+  const isFresh = (platform: TrendingPlatform) => {
+    const entry = cache[platform];
+    return !!entry && Date.now() - new Date(entry.fetchedAt).getTime() < TRENDING_TTL_MS;
+  };
+
+  let fetched: Partial<Record<TrendingPlatform, string[]>> = {};
+  let error: string | undefined;
+  const attempted = force || !TRENDING_PLATFORMS.every(p => isFresh(p.key));
+  if (attempted) {
+    try {
+      // 强制刷新时不读取响应缓存
+      fetched = await fetchTrendingTopics(force && call.cache ? { ...call, cache: { ...call.cache, bypass: true } } : call);
+    } catch (e: any) {
+      error = e?.message || '热榜获取失败';
+    }
+  }
+
+  const fetchedAt = new Date().toISOString();
+  const boards = {} as Record<TrendingPlatform, TrendingBoard>;
+  for (const { key } of TRENDING_PLATFORMS) {
+    const live = fetched[key];
+    const cached = cache[key];
+    if (live) {
+      cache[key] = { topics: live, fetchedAt };
+      boards[key] = { platform: key, topics: live, status: 'live', fetchedAt };
+    } else if (cached) {
+      boards[key] = {
+        platform: key,
+        topics: cached.topics,
+        status: isFresh(key) ? 'cached' : 'stale',
+        fetchedAt: cached.fetchedAt,
+        error: attempted ? error || '平台未返回榜单' : undefined
+      };
+    } else {
+      boards[key] = { platform: key, topics: TRENDING_FALLBACK[key], status: 'fallback', error: error || '平台未返回榜单' };
+    }
+  }
+  if (Object.keys(fetched).length > 0) writeCache(cache);
+
+  // 兜底榜单不代表当下热度，不参与跨平台排名
+  return { boards, ranking: mergeTrending(Object.values(boards).filter(b => b.status !== 'fallback')) };
+}
@@ -0,0 +1,186 @@
+import { ModelPrice, PodcastContent, UsageRecord, UsageStats, UsageTotals, WorkflowStep } from "../types";
+import { DEFAULT_MODEL_PRICES } from "../constants";
+import { ModelProvider, SpeechResult, TextResult } from "./providers";
+
+const PRICES_KEY = 'financepod.modelPrices';
+const STATS_KEY = 'financepod.usageStats';
+
+export type UsageListener = (record: UsageRecord) => void;
+
+async function measure<R extends TextResult | SpeechResult>(task: string, retry: number, onUsage: UsageListener, call: () => Promise<R>): Promise<R> {
+  const started = Date.now();
+  const record = (model: string, usage?: R['usage'], failed?: boolean, cached?: boolean) => onUsage({
+    task,
+    model,
+    promptTokens: usage?.promptTokens || 0,
+    outputTokens: usage?.outputTokens || 0,
+    thinkingTokens: usage?.thinkingTokens || 0,
+    latencyMs: Date.now() - started,
+    retry,
+    failed,
+    cached,
+    at: new Date().toISOString()
+  });
+  try {
+    const result = await call();
+    record(result.model, result.usage, undefined, 'cached' in result ? result.cached : undefined);
+    return result;
+  } catch (e) {
+    record('', undefined, true);
+    throw e;
+  }
+}
+
+/**
+ * 为 provider 加上计量：每次调用（含失败）上报模型、token 用量与耗时；retry 为调用方的重试序号
+ */
+export function meterProvider(provider: ModelProvider, onUsage: UsageListener, retry = 0): ModelProvider {
+  return {
+    name: provider.name,
+    modelFor: tier => provider.modelFor(tier),
+    generateText: request => measure(request.task, retry, onUsage, () => provider.generateText(request)),
+    generateJson: <T,>(request: Parameters<ModelProvider['generateJson']>[0]) =>
+      measure(request.task, retry, onUsage, () => provider.generateJson<T>(request)),
+    groundedSearch: request => measure(request.task, retry, onUsage, () => provider.groundedSearch(request)),
+    synthesizeSpeech: request => measure('tts', retry, onUsage, () => provider.synthesizeSpeech(request))
+  };
+}
+
+/**
+ * 收集一组调用的用量并标注所属步骤，同时转发给上层监听
+ */
+export function collectUsage(step: WorkflowStep | undefined, forward?: UsageListener): { records: UsageRecord[]; onUsage: UsageListener } {
+  const records: UsageRecord[] = [];
+  return {
+    records,
+    onUsage: record => {
+      const tagged = step ? { ...record, step } : record;
+      records.push(tagged);
+      forward?.(tagged);
+    }
+  };
+}
+
+export const appendUsage = (draft: PodcastContent, records: UsageRecord[]): PodcastContent =>
+  records.length > 0 ? { ...draft, usage: [...(draft.usage || []), ...records] } : draft;
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, retries: 0, failed: 0, cached: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, latencyMs: 0 });
+
+const addRecord = (totals: UsageTotals, r: UsageRecord): UsageTotals => ({
+  calls: totals.calls + 1,
+  retries: totals.retries + (r.retry > 0 ? 1 : 0),
+  failed: totals.failed + (r.failed ? 1 : 0),
+  // 早期保存的累计统计没有 cached 字段
+  cached: (totals.cached || 0) + (r.cached ? 1 : 0),
+  promptTokens: totals.promptTokens + r.promptTokens,
+  outputTokens: totals.outputTokens + r.outputTokens,
+  thinkingTokens: totals.thinkingTokens + r.thinkingTokens,
+  latencyMs: totals.latencyMs + r.latencyMs
+});
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals => records.reduce(addRecord, emptyTotals());
+
+/**
+ * 按模型单价计算费用（美元）；没有价目的模型计入 unpriced，不计费用
+ */
+export function totalsCost(model: string, totals: UsageTotals, prices: ModelPrice[]): { cost: number; unpriced: boolean } {
+  const tokens = totals.promptTokens + totals.outputTokens + totals.thinkingTokens;
+  if (tokens === 0) return { cost: 0, unpriced: false };
+  const price = prices.find(p => p.model === model);
+  if (!price) return { cost: 0, unpriced: true };
+  return { cost: (totals.promptTokens * price.input + (totals.outputTokens + totals.thinkingTokens) * price.output) / 1e6, unpriced: false };
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  cost: number;
+  /** 存在未定价模型的调用，费用偏低 */
+  unpriced: boolean;
+  models: string[];
+}
+
+export function summarizeUsage(records: UsageRecord[], prices: ModelPrice[]): UsageSummary {
+  const byModel = new Map<string, UsageRecord[]>();
+  records.forEach(r => byModel.set(r.model, [...(byModel.get(r.model) || []), r]));
+  let cost = 0;
+  let unpriced = false;
+  byModel.forEach((list, model) => {
+    const result = totalsCost(model, sumUsage(list), prices);
+    cost += result.cost;
+    unpriced = unpriced || result.unpriced;
+  });
+  return { totals: sumUsage(records), cost, unpriced, models: Array.from(byModel.keys()).filter(Boolean) };
+}
+
+/**
+ * 按生产步骤分组（按链路顺序），步骤之外的调用归入 step 为空的一组
+ */
+export function usageByStep(records: UsageRecord[], steps: WorkflowStep[], prices: ModelPrice[]): { step?: WorkflowStep; summary: UsageSummary }[] {
+  return [...steps, undefined]
+    .map(step => ({ step, records: records.filter(r => r.step === step || (step === undefined && (!r.step || !steps.includes(r.step)))) }))
+    .filter(group => group.records.length > 0)
+    .map(group => ({ step: group.step, summary: summarizeUsage(group.records, prices) }));
+}
+
+export const formatCost = (cost: number) => cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) => tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export function loadModelPrices(): ModelPrice[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRICES_KEY) || 'null');
+    return Array.isArray(saved) ? saved : DEFAULT_MODEL_PRICES;
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+export function saveModelPrices(prices: ModelPrice[]) {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+}
+
+export const emptyUsageStats = (): UsageStats => ({ since: new Date().toISOString(), episodeIds: [], byModel: {} });
+
+export function loadUsageStats(): UsageStats {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATS_KEY) || 'null');
+    return saved?.byModel ? saved : emptyUsageStats();
+  } catch {
+    return emptyUsageStats();
+  }
+}
+
+export function saveUsageStats(stats: UsageStats) {
+  localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+}
+
+/**
+ * 将一次调用计入累计用量；episodeId 用于统计涉及的节目数
+ */
+export function addToUsageStats(stats: UsageStats, record: UsageRecord, episodeId?: string): UsageStats {
+  const key = record.model || '未知模型';
+  return {
+    ...stats,
+    episodeIds: episodeId && !stats.episodeIds.includes(episodeId) ? [...stats.episodeIds, episodeId] : stats.episodeIds,
+    byModel: { ...stats.byModel, [key]: addRecord(stats.byModel[key] || emptyTotals(), record) }
+  };
+}
+
+export const usageStatsTotals = (stats: UsageStats): UsageTotals =>
+  Object.keys(stats.byModel).map(model => stats.byModel[model]).reduce((acc, t) => ({
+    calls: acc.calls + t.calls,
+    retries: acc.retries + t.retries,
+    failed: acc.failed + t.failed,
+    cached: acc.cached + (t.cached || 0),
+    promptTokens: acc.promptTokens + t.promptTokens,
+    outputTokens: acc.outputTokens + t.outputTokens,
+    thinkingTokens: acc.thinkingTokens + t.thinkingTokens,
+    latencyMs: acc.latencyMs + t.latencyMs
+  }), emptyTotals());
+
+export function usageStatsCost(stats: UsageStats, prices: ModelPrice[]): { cost: number; unpriced: boolean } {
+  return Object.entries(stats.byModel).reduce((acc, [model, totals]) => {
+    const result = totalsCost(model, totals, prices);
+    return { cost: acc.cost + result.cost, unpriced: acc.unpriced || result.unpriced };
+  }, { cost: 0, unpriced: false });
+}
@@ -6,14 +6,40 @@ export enum WorkflowStep {
   INSIGHTS = 'INSIGHTS',
   OUTLINE = 'OUTLINE',
   DRAFTING = 'DRAFTING',
+  FACT_CHECK = 'FACT_CHECK',
   REVIEW = 'REVIEW',
   SYNTHESIS = 'SYNTHESIS',
+  MASTERING = 'MASTERING',
   COMPLETED = 'COMPLETED'
 }
 
+export type LogType = 'info' | 'success' | 'working' | 'error';
+
+export interface LogEntry {
+  msg: string;
+  type: LogType;
+}
+
+export interface CastMember {
+  name: string;
+  role: 'host' | 'guest';
+  /** 角色定位，写入脚本提示词 */
+  description: string;
+  /** 人设补充（口头禅、立场、表达风格等） */
+  persona: string;
+  voice: string;
+  color: CastColor;
+}
+
+export type CastColor = 'blue' | 'indigo' | 'emerald' | 'amber' | 'rose';
+
 export interface PodcastContent {
+  id?: string;
   keyword: string;
+  createdAt?: string;
+  cast?: CastMember[];
   title?: string;
+  /** 经校验修复后的素材池 JSON（MaterialPool） */
   materials?: string;
   hooks?: string[];
   highlights?: { label: string; description: string }[];
@@ -21,7 +47,505 @@ export interface PodcastContent {
   draftScript?: string;
   finalScript?: string;
   audioBuffer?: AudioBuffer;
+  /** 合成分段布局（文本与样本数），用于局部重合成 */
+  audioChunks?: SynthesisChunk[];
+  /** 每行台词在成片中的起止时间 */
+  timingMap?: TimingEntry[];
+  /** 未经母带处理的人声轨，分段布局与 audioChunks 一致，供局部重合成与重新母带处理 */
+  voiceTrack?: { buffer: AudioBuffer; timing: TimingEntry[] };
+  /** 本期节目的母带处理设置（生产启动时取自全局默认） */
+  mastering?: MasteringSettings;
+  masteringReport?: MasteringReport;
   groundingLinks?: { title: string; uri: string; type?: 'web' | 'video' | 'news' }[];
+  /** 检索时由 groundingLinks 支撑的事实片段，供脚本标注来源 */
+  groundedClaims?: GroundedClaim[];
+  factCheck?: FactCheckReport;
+  reviewReport?: ReviewReport;
+  /** 早报模式：按当日财经大事分段生产 */
+  briefing?: Briefing;
+  /** 节目形态（缺省为标准对谈） */
+  format?: EpisodeFormat;
+  /** 脚本字数与形态目标的比对结果 */
+  lengthCheck?: LengthCheck;
+  /** 节目语言（缺省为普通话） */
+  language?: EpisodeLanguage;
+  /** 语言版本：译自的原版节目 id */
+  variantOf?: string;
+  /** 原版节目：已生成的各语言版本 */
+  variants?: { language: EpisodeLanguage; episodeId: string }[];
+  /** 生产各步骤时使用的提示词模板版本（0 为内置模板） */
+  promptVersions?: Partial<Record<PromptId, number>>;
+  /** 本期节目的全部模型调用记录（含重跑与失败的调用） */
+  usage?: UsageRecord[];
+}
+
+export type EpisodeLanguage = 'zh' | 'en' | 'yue';
+
+/**
+ * 节目语言：提示词中的语言要求、说话人标签、术语表与 TTS 音色
+ */
+export interface LanguagePreset {
+  key: EpisodeLanguage;
+  label: string;
+  short: string;
+  /** BCP 47 语言代码，用于订阅源等对外元数据 */
+  code: string;
+  /** 写入翻译提示词的目标语言说明 */
+  instruction: string;
+  /** 写入 TTS 请求的朗读语言提示；缺省时不附加 */
+  speech?: string;
+  /** 默认说话人标签的本地化，未列出的名字保持原样 */
+  speakerLabels: Record<string, string>;
+  /** 优先使用的预置音色，按说话人顺序分配 */
+  voices: string[];
+}
+
+/**
+ * 订阅源频道设置
+ */
+export interface FeedSettings {
+  title: string;
+  author: string;
+  /** 平台认领节目时使用的联系邮箱 */
+  email: string;
+  description: string;
+  /** 节目主页 */
+  link: string;
+  /** 静态托管地址：feed.xml 与 episodes/ 目录上传到该地址下 */
+  baseUrl: string;
+  /** 封面图地址（建议 3000×3000 JPG/PNG） */
+  artwork: string;
+  category: string;
+  subcategory: string;
+  explicit: boolean;
+  /** 订阅源收录的节目语言 */
+  language: EpisodeLanguage;
+}
+
+/** A 股术语在各语言版本中的统一译法 */
+export interface GlossaryTerm {
+  term: string;
+  en: string;
+  yue: string;
+}
+
+export type EpisodeFormat = 'standard' | 'flash' | 'deep' | 'solo' | 'debate';
+
+/**
+ * 节目形态预设：决定时长字数目标、大纲深度、说话人布局与脚本结构
+ */
+export interface FormatPreset {
+  id: EpisodeFormat;
+  label: string;
+  icon: string;
+  description: string;
+  /** 目标时长（分钟） */
+  minutes: [number, number];
+  /** 目标字数（不含说话人标签与来源编号） */
+  chars: [number, number];
+  /** 节目体裁，写入提示词，如“对话式”“单人独白式” */
+  genre: string;
+  /** 开场预告与大纲展开的维度数，如“3-4” */
+  sections: string;
+  /** 大纲深度要求 */
+  outline: string;
+  /** 脚本结构要求 */
+  structure: string;
+  /** 说话人布局要求；缺省时不限制阵容 */
+  layout?: { hosts: number; guests: number };
+  /** 阵容不满足布局时套用的阵容预设（CAST_PRESETS 的 id） */
+  castPreset?: string;
+  /** 合成分段字数上限 */
+  chunkMaxChars: number;
+}
+
+export interface LengthCheck {
+  /** 定稿字数 */
+  chars: number;
+  target: [number, number];
+  /** 偏差超出容忍度而改写时，记录首稿字数 */
+  draftChars?: number;
+  withinTolerance: boolean;
+}
+
+export interface BriefingSegment {
+  title: string;
+  summary: string;
+  /** 该事件的素材池 JSON（经济事件） */
+  materials?: string;
+  /** 该段引用的来源在节目 groundingLinks 中的下标 */
+  sourceIndices?: number[];
+  /** 该段对话（含与上一段的过渡） */
+  script?: string;
+}
+
+export interface Briefing {
+  date: string;
+  segments: BriefingSegment[];
+  opener?: string;
+  recap?: string;
+}
+
+/**
+ * 用户上传的片头、片尾或背景音乐，音频数据存放在节目库中
+ */
+export interface AudioAssetRef {
+  id: string;
+  name: string;
+  duration: number;
+}
+
+export interface MasteringSettings {
+  enabled: boolean;
+  /** 目标响度（LUFS） */
+  targetLufs: number;
+  /** 分段接缝处的交叉淡化时长 */
+  crossfadeMs: number;
+  /** 说话人轮换时插入的停顿 */
+  speakerPauseMs: number;
+  intro?: AudioAssetRef;
+  outro?: AudioAssetRef;
+  musicBed?: AudioAssetRef;
+  /** 背景音乐相对目标响度的电平（dB） */
+  bedLevelDb: number;
+  /** 人声出现时背景音乐的额外衰减（dB） */
+  duckDb: number;
+}
+
+export interface MasteringReport {
+  masteredAt: string;
+  inputLufs: number;
+  outputLufs: number;
+  peakDb: number;
+}
+
+export interface GroundedClaim {
+  text: string;
+  /** groundingLinks 的下标 */
+  sourceIndices: number[];
+}
+
+export type HotwordType = '个股' | '产业' | '经济事件';
+
+export interface TimelineEvent {
+  date: string;
+  event: string;
+}
+
+export interface AlternativeExplanation {
+  angle: string;
+  core_fact_or_conflict: string;
+}
+
+/**
+ * 素材池（字段名与提示词中的 JSON 结构保持一致），按 hotword_type 区分三种结构
+ */
+export interface StockMaterialPool {
+  hotword_type: '个股';
+  company_type: string;
+  material_pool: {
+    hook_pack: string;
+    one_sentence_identity: string;
+    why_people_talk_now: string[];
+    timeline: TimelineEvent[];
+    original_business_model: string;
+    core_tensions: string[];
+    validation_metrics: string[];
+    risks_and_uncertainty: string[];
+    deep_insights_supplement?: string;
+  };
+}
+
+export interface IndustryMaterialPool {
+  hotword_type: '产业';
+  industry_type: string;
+  material_pool: {
+    definition: string;
+    core_tensions: string[];
+    profit_pool_and_orders: string;
+    value_migration: string;
+    validation_metrics: string[];
+    alternative_explanations: AlternativeExplanation[];
+    deep_insights_supplement?: string;
+  };
+}
+
+export interface EventMaterialPool {
+  hotword_type: '经济事件';
+  event_nature: string;
+  material_pool: {
+    event_core: string;
+    why_it_matters: string;
+    stakeholders: string[];
+    historical_precedent: string;
+    structural_reasons: string;
+    chain_reaction: string[];
+    observation_window: string[];
+    deep_insights_supplement?: string;
+  };
+}
+
+export type MaterialPool = StockMaterialPool | IndustryMaterialPool | EventMaterialPool;
+
+export type ReviewSeverity = 'hard' | 'soft';
+
+export interface ReviewRule {
+  id: string;
+  label: string;
+  category: 'advice' | 'price' | 'style' | 'custom';
+  severity: ReviewSeverity;
+  /** 正则表达式源码（便于持久化） */
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface ReviewMatch {
+  ruleId: string;
+  label: string;
+  severity: ReviewSeverity;
+  text: string;
+}
+
+export interface ReviewFinding {
+  line: number;
+  speaker: string;
+  text: string;
+  matches: ReviewMatch[];
+}
+
+export interface ReviewReport {
+  reviewedAt: string;
+  initialFindings: number;
+  rewrites: { line: number; before: string; after: string }[];
+  findings: ReviewFinding[];
+  hardViolations: number;
+  softViolations: number;
+  /** 存在硬性违规且开启了阻断 */
+  blocked: boolean;
+  overridden?: boolean;
+}
+
+export type FactKind = 'number' | 'percent' | 'date' | 'company' | 'person';
+
+export type FactVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+export interface FactCheckItem {
+  line: number;
+  speaker: string;
+  value: string;
+  kind: FactKind;
+  verdict: FactVerdict;
+  /** 支撑或矛盾的素材依据 */
+  evidence?: string;
+}
+
+export interface FactCheckReport {
+  checkedAt: string;
+  items: FactCheckItem[];
+  rewrites: { line: number; before: string; after: string }[];
+  /** 被删除的台词原文 */
+  struck: string[];
+  /** 无待处理项，或已由用户改写、删除、确认 */
+  resolved: boolean;
+  accepted?: boolean;
+}
+
+export type TrendingPlatform = 'ths' | 'xq' | 'dfcf';
+
+/**
+ * live：本次实时获取；cached：TTL 内的缓存；stale：获取失败，沿用过期缓存；fallback：无可用数据，使用内置兜底榜单
+ */
+export type TrendingStatus = 'live' | 'cached' | 'stale' | 'fallback';
+
+export interface TrendingBoard {
+  platform: TrendingPlatform;
+  topics: string[];
+  status: TrendingStatus;
+  /** 榜单数据的获取时间；兜底榜单为空 */
+  fetchedAt?: string;
+  error?: string;
+}
+
+export interface TrendingTopic {
+  keyword: string;
+  /** 各平台上的原始写法 */
+  aliases: string[];
+  ranks: Partial<Record<TrendingPlatform, number>>;
+  heat: number;
+}
+
+export interface TrendingSnapshot {
+  boards: Record<TrendingPlatform, TrendingBoard>;
+  ranking: TrendingTopic[];
+}
+
+/**
+ * blocked：合规阻断或事实核查待处理，需打开节目人工处理
+ */
+export type BatchJobStatus = 'queued' | 'running' | 'paused' | 'blocked' | 'failed' | 'cancelled' | 'done';
+
+export interface BatchJob {
+  id: string;
+  keyword: string;
+  /** 产出节目在节目库中的 id */
+  episodeId: string;
+  status: BatchJobStatus;
+  enqueuedAt: string;
+  /** 当前或最近执行的步骤 */
+  step?: WorkflowStep;
+  /** 0–1，按已完成步骤与合成分段折算 */
+  progress: number;
+  logs: LogEntry[];
+  /** 运行中收到的暂停或取消请求，等待进行中的调用中止 */
+  stopRequested?: 'pause' | 'cancel';
+  error?: string;
+}
+
+export interface SynthesisChunk {
+  text: string;
+  samples: number;
+  /** retried：重试后成功；silenced：最终失败，以静音占位 */
+  status?: 'ok' | 'retried' | 'silenced';
+  attempts?: number;
+  error?: string;
+}
+
+export interface SynthesisPolicy {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  /** 失败分段（按字数）占比超过该阈值时中止合成；0 表示任一分段失败即中止 */
+  maxMissingRatio: number;
+}
+
+/**
+ * 各生产步骤的时限（秒）；0 或缺省表示不限
+ */
+export type StepTimeouts = Partial<Record<WorkflowStep, number>>;
+
+/** 可在界面中编辑的提示词模板 */
+export type PromptId = 'materials' | 'hooks' | 'outline' | 'script';
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  /** 模板中必须出现的变量 */
+  required?: boolean;
+  /** 预览时使用的示例值 */
+  sample: string;
+}
+
+/**
+ * 内置提示词模板：变量以 {{name}} 引用，由生产步骤在调用时填入
+ */
+export interface PromptDefinition {
+  id: PromptId;
+  label: string;
+  step: WorkflowStep;
+  variables: PromptVariable[];
+  template: string;
+}
+
+export interface PromptVersion {
+  version: number;
+  template: string;
+  savedAt: string;
+  note?: string;
+}
+
+/** 单个模板的版本历史；active 为 0 时使用内置模板 */
+export interface PromptHistory {
+  active: number;
+  versions: PromptVersion[];
+}
+
+export type PromptRegistry = Record<PromptId, PromptHistory>;
+
+/**
+ * 单次模型调用的用量记录
+ */
+export interface UsageRecord {
+  /** 发起调用的生产步骤；步骤之外的调用（如语言版本翻译、人工改写）为空 */
+  step?: WorkflowStep;
+  task: string;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  latencyMs: number;
+  /** 重试序号，0 为首次调用 */
+  retry: number;
+  failed?: boolean;
+  /** 命中响应缓存或录制回放，未实际调用模型 */
+  cached?: boolean;
+  at: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  retries: number;
+  failed: number;
+  cached: number;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  latencyMs: number;
+}
+
+/**
+ * 跨节目的累计用量：按模型汇总，费用在展示时按当前价目计算
+ */
+export interface UsageStats {
+  since: string;
+  episodeIds: string[];
+  byModel: Record<string, UsageTotals>;
+}
+
+/**
+ * 模型响应缓存模式：cache 按有效期复用相同请求；record 录制本次的全部调用；
+ * replay 只从录制回放，未录制的调用直接报错
+ */
+export type CacheMode = 'off' | 'cache' | 'record' | 'replay';
+
+export interface CacheSettings {
+  mode: CacheMode;
+  /** 不读取缓存的步骤（仍写入新结果），用于调试单个步骤的提示词 */
+  bypassSteps: WorkflowStep[];
+}
+
+/** 模型单价（美元 / 百万 token）；思考 token 按输出单价计 */
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+}
+
+export interface TimingEntry {
+  line: number;
+  chunk: number;
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 章节：大纲段落（或早报分段）在成片中的起止时间
+ */
+export interface Chapter {
+  title: string;
+  start: number;
+  end: number;
+  /** 章节第一句台词在时间轴中的下标 */
+  line: number;
+}
+
+/** 字幕条目：长台词按句拆分后的一行 */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
 }
 
 export interface StepStatus {